@@ -0,0 +1,5 @@
+# x0 = x1, counting x1 down to 0
+x1=10 -> 10
+x1=0 -> 0
+x1=3 => x0=3 x1=0
+-> 0
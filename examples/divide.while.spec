@@ -0,0 +1,5 @@
+# x0 = x1 / x2 (rounded down), x1 = remainder; no result for x2 = 0
+x1=12 x2=3 -> 4
+x1=2 x2=5 -> 0
+x1=7 x2=2 => x0=3 x1=1 x2=2
+x1=5 x2=0 -> diverges
@@ -0,0 +1,5 @@
+# x0 = x1 * x2
+x1=3 x2=4 -> 12
+x1=0 x2=7 -> 0
+x1=5 x2=1 -> 5
+x1=2 x2=3 => x0=6 x1=2 x2=3
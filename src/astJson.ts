@@ -0,0 +1,257 @@
+// Programs as JSON: the AST of any of the three languages in a versioned file
+// (`multiply.loop.json`), so tools can produce programs without writing concrete syntax.
+//
+//   { "version": 1, "language": "loop", "program": { "type": "program", "statements": [...] } }
+//
+// Numbers are decimal strings (JSON numbers are accepted on import); spans are not part of the format.
+// Imported files are checked against the node types in the three ast.ts files.
+import type { Language, TaggedProgram } from "./parse";
+import type { Statement as LoopStatement, Expression } from "./loop/ast";
+import type { Statement as WhileStatement, Condition } from "./while/ast";
+import type { Instruction, Statement as GotoStatement } from "./goto/ast";
+import type { NodeComments } from "./comments";
+
+export const AST_JSON_VERSION = 1;
+
+export type AstFile = {
+    version: number;
+    language: Language;
+    program: unknown;
+};
+
+const LANGUAGES: readonly Language[] = ["loop", "while", "goto"];
+const KEYWORDS = ["LOOP", "DO", "END", "WHILE", "IF", "THEN", "ELSE", "GOTO", "HALT"];
+const OPERATORS = ["=", "!=", "<", ">", "<=", ">="] as const;
+
+export function exportAst(target: TaggedProgram): AstFile {
+    const program = JSON.parse(JSON.stringify(target.program, (key, value) =>
+        key === "span" ? undefined : typeof value === "bigint" ? String(value) : value));
+    return { version: AST_JSON_VERSION, language: target.language, program };
+}
+
+export function astToJson(target: TaggedProgram): string {
+    return JSON.stringify(exportAst(target), null, 2) + "\n";
+}
+
+// Parse and validate an AST file. Errors name the offending node, e.g.
+// "program.statements[2].body[0].value.operator: expected one of +, -".
+export function importAst(text: string, expected?: Language): TaggedProgram {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch (error: any) {
+        throw new Error(`Not valid JSON: ${error.message}`);
+    }
+    const file = object(data, "", ["version", "language", "program"]);
+    if (file.version !== AST_JSON_VERSION) {
+        throw new Error(`Unsupported AST version: ${JSON.stringify(file.version)} (expected ${AST_JSON_VERSION})`);
+    }
+    const language = oneOf(file.language, "language", LANGUAGES);
+    if (expected && language !== expected) {
+        throw new Error(`language: the file holds a ${language.toUpperCase()} program, expected ${expected.toUpperCase()}`);
+    }
+
+    switch (language) {
+        case "loop": {
+            const program = object(file.program, "program", ["type", "statements"]);
+            tag(program, "program", "program");
+            return { language, program: { type: "program", statements: array(program.statements, "program.statements").map((s, i) => loopStatement(s, `program.statements[${i}]`)) } };
+        }
+        case "while": {
+            const program = object(file.program, "program", ["type", "statements"]);
+            tag(program, "program", "program");
+            return { language, program: { type: "program", statements: array(program.statements, "program.statements").map((s, i) => whileStatement(s, `program.statements[${i}]`)) } };
+        }
+        case "goto": {
+            const program = object(file.program, "program", ["type", "instructions"]);
+            tag(program, "program", "program");
+            const instructions = array(program.instructions, "program.instructions").map((instr, i) => instruction(instr, `program.instructions[${i}]`));
+            checkLabels(instructions);
+            return { language, program: { type: "program", instructions } };
+        }
+    }
+}
+
+type Json = Record<string, unknown>;
+
+function fail(path: string, message: string): never {
+    throw new Error(path ? `${path}: ${message}` : message);
+}
+
+// An object with only the given keys (optional ones may be missing); any keys when none are given
+function object(value: unknown, path: string, keys?: string[]): Json {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) fail(path, "expected an object");
+    for (const key of Object.keys(value)) {
+        if (keys && !keys.includes(key)) fail(path, `unknown property "${key}"`);
+    }
+    return value as Json;
+}
+
+function array(value: unknown, path: string): unknown[] {
+    if (!Array.isArray(value)) fail(path, "expected an array");
+    return value;
+}
+
+function oneOf<T extends string>(value: unknown, path: string, options: readonly T[]): T {
+    if (!options.includes(value as T)) fail(path, `expected one of ${options.join(", ")}`);
+    return value as T;
+}
+
+function tag(node: Json, path: string, type: string): void {
+    if (node.type !== type) fail(path ? `${path}.type` : "type", `expected "${type}"`);
+}
+
+function name(value: unknown, path: string): string {
+    if (typeof value !== "string" || !/^[a-zA-Z][a-zA-Z0-9]*$/.test(value) || KEYWORDS.includes(value)) {
+        fail(path, "expected a name (letters and digits, starting with a letter)");
+    }
+    return value;
+}
+
+function natural(value: unknown, path: string): bigint {
+    if (typeof value === "string" && /^\d+$/.test(value)) return BigInt(value);
+    if (typeof value === "number" && Number.isSafeInteger(value) && value >= 0) return BigInt(value);
+    fail(path, "expected a natural number (a string of digits)");
+}
+
+function expression(value: unknown, path: string): Expression {
+    const node = object(value, path);
+    switch (node.type) {
+        case "number":
+            object(node, path, ["type", "value"]);
+            return { type: "number", value: natural(node.value, `${path}.value`) };
+        case "variable":
+            object(node, path, ["type", "name"]);
+            return { type: "variable", name: name(node.name, `${path}.name`) };
+        case "binaryOp":
+            object(node, path, ["type", "operator", "left", "right"]);
+            return {
+                type: "binaryOp",
+                operator: oneOf(node.operator, `${path}.operator`, ["+", "-"] as const),
+                left: operand(node.left, `${path}.left`),
+                right: operand(node.right, `${path}.right`),
+            };
+        default:
+            return fail(`${path}.type`, "expected one of number, variable, binaryOp");
+    }
+}
+
+// The concrete syntax has no parentheses: an operand is a number or a variable
+function operand(value: unknown, path: string): Expression {
+    const node = object(value, path);
+    if (node.type === "binaryOp") fail(`${path}.type`, "expected one of number, variable (binary operations cannot be nested)");
+    return expression(node, path);
+}
+
+function condition(value: unknown, path: string): Condition {
+    const node = object(value, path, ["type", "operator", "left", "right"]);
+    tag(node, path, "condition");
+    return {
+        type: "condition",
+        operator: oneOf(node.operator, `${path}.operator`, OPERATORS),
+        left: expression(node.left, `${path}.left`),
+        right: expression(node.right, `${path}.right`),
+    };
+}
+
+function comments(value: unknown, path: string): NodeComments {
+    const node = object(value, path, ["leading", "trailing", "after"]);
+    const result: NodeComments = {};
+    for (const key of ["leading", "trailing", "after"] as const) {
+        if (node[key] === undefined) continue;
+        result[key] = array(node[key], `${path}.${key}`).map((text, i) => {
+            if (typeof text !== "string") fail(`${path}.${key}[${i}]`, "expected a string");
+            return text;
+        });
+    }
+    return result;
+}
+
+// Copies the optional comment fields of a statement
+function withComments<T extends object>(statement: T, node: Json, path: string, keys: string[]): T {
+    for (const key of keys) {
+        if (node[key] !== undefined) (statement as Json)[key] = comments(node[key], `${path}.${key}`);
+    }
+    return statement;
+}
+
+function loopStatement(value: unknown, path: string): LoopStatement {
+    const node = object(value, path);
+    switch (node.type) {
+        case "assignment":
+            object(node, path, ["type", "variable", "value", "comments"]);
+            return withComments({ type: "assignment", variable: name(node.variable, `${path}.variable`), value: expression(node.value, `${path}.value`) }, node, path, ["comments"]);
+        case "loop":
+            object(node, path, ["type", "counter", "body", "comments", "endComments"]);
+            return withComments({
+                type: "loop",
+                counter: name(node.counter, `${path}.counter`),
+                body: array(node.body, `${path}.body`).map((s, i) => loopStatement(s, `${path}.body[${i}]`)),
+            }, node, path, ["comments", "endComments"]);
+        default:
+            return fail(`${path}.type`, "expected one of assignment, loop");
+    }
+}
+
+function whileStatement(value: unknown, path: string): WhileStatement {
+    const node = object(value, path);
+    const body = (key: string) => array(node[key], `${path}.${key}`).map((s, i) => whileStatement(s, `${path}.${key}[${i}]`));
+    switch (node.type) {
+        case "assignment":
+            object(node, path, ["type", "variable", "value", "comments"]);
+            return withComments({ type: "assignment", variable: name(node.variable, `${path}.variable`), value: expression(node.value, `${path}.value`) }, node, path, ["comments"]);
+        case "while":
+            object(node, path, ["type", "condition", "body", "comments", "endComments"]);
+            return withComments({ type: "while", condition: condition(node.condition, `${path}.condition`), body: body("body") }, node, path, ["comments", "endComments"]);
+        case "if": {
+            object(node, path, ["type", "condition", "thenBody", "elseBody", "comments", "elseComments", "endComments"]);
+            const statement: WhileStatement = { type: "if", condition: condition(node.condition, `${path}.condition`), thenBody: body("thenBody") };
+            if (node.elseBody !== undefined) statement.elseBody = body("elseBody");
+            return withComments(statement, node, path, ["comments", "elseComments", "endComments"]);
+        }
+        default:
+            return fail(`${path}.type`, "expected one of assignment, while, if");
+    }
+}
+
+function instruction(value: unknown, path: string): Instruction {
+    const node = object(value, path, ["label", "statement", "comments"]);
+    const result: Instruction = { statement: gotoStatement(node.statement, `${path}.statement`) };
+    if (node.label !== undefined) result.label = name(node.label, `${path}.label`);
+    return withComments(result, node, path, ["comments"]);
+}
+
+function gotoStatement(value: unknown, path: string): GotoStatement {
+    const node = object(value, path);
+    switch (node.type) {
+        case "assignment":
+            object(node, path, ["type", "variable", "value"]);
+            return { type: "assignment", variable: name(node.variable, `${path}.variable`), value: expression(node.value, `${path}.value`) };
+        case "goto":
+            object(node, path, ["type", "label"]);
+            return { type: "goto", label: name(node.label, `${path}.label`) };
+        case "if_goto":
+            object(node, path, ["type", "condition", "label"]);
+            return { type: "if_goto", condition: condition(node.condition, `${path}.condition`), label: name(node.label, `${path}.label`) };
+        case "halt":
+            object(node, path, ["type"]);
+            return { type: "halt" };
+        default:
+            return fail(`${path}.type`, "expected one of assignment, goto, if_goto, halt");
+    }
+}
+
+// The same checks the GOTO parser makes: labels are unique and every jump has a target
+function checkLabels(instructions: Instruction[]): void {
+    const labels = new Set<string>();
+    instructions.forEach((instr, i) => {
+        if (instr.label === undefined) return;
+        if (labels.has(instr.label)) fail(`program.instructions[${i}].label`, `duplicate label ${instr.label}`);
+        labels.add(instr.label);
+    });
+    instructions.forEach(({ statement }, i) => {
+        if ((statement.type === "goto" || statement.type === "if_goto") && !labels.has(statement.label)) {
+            fail(`program.instructions[${i}].statement.label`, `undefined label ${statement.label}`);
+        }
+    });
+}
@@ -0,0 +1,304 @@
+// Control-flow graphs of GOTO and WHILE programs: basic blocks of assignments joined by edges,
+// conditional edges labelled with their condition. Translators, control-flow analyses and the
+// visualizations work on this instead of walking each language's AST (walk.ts covers the rest).
+import type { Program as GotoProgram, Assignment as GotoAssignment, Expression, Condition } from "./goto/ast";
+import type { Program as WhileProgram, Statement as WhileStatement, Assignment as WhileAssignment } from "./while/ast";
+
+export type CfgAssignment = GotoAssignment | WhileAssignment;
+
+export type BasicBlock = {
+    id: number;
+    statements: CfgAssignment[];  // the AST nodes, in order
+    label?: string;               // GOTO: label of the block's first instruction
+    instructions?: number[];      // GOTO: indices of the instructions in the block, jumps included
+};
+
+export type CfgEdge = {
+    from: number;
+    to: number;
+    kind: "always" | "true" | "false";
+    condition?: Condition;        // for "true" and "false": the test ending the `from` block
+};
+
+export type ControlFlowGraph = {
+    language: "goto" | "while";
+    blocks: BasicBlock[];         // blocks[id]; the entry and exit blocks have no statements
+    edges: CfgEdge[];
+    entry: number;
+    exit: number;                 // reached by HALT, by running past the last instruction or statement
+};
+
+// Blocks start at every label and after every jump; an IF ends its block with a "true" edge to
+// the label and a "false" edge to the next instruction
+export function buildGotoCfg(program: GotoProgram): ControlFlowGraph {
+    const instructions = program.instructions;
+    const leaders = new Set<number>([0]);
+    instructions.forEach((instr, i) => {
+        if (instr.label) leaders.add(i);
+        if (instr.statement.type !== "assignment") leaders.add(i + 1);
+    });
+    const starts = Array.from(leaders).filter((i) => i < instructions.length).sort((a, b) => a - b);
+
+    // entry = 0, the instruction blocks in order, then the exit
+    const blockAt = new Map(starts.map((start, i) => [start, i + 1]));
+    const exit = starts.length + 1;
+    const blocks: BasicBlock[] = [{ id: 0, statements: [] }];
+    const edges: CfgEdge[] = [{ from: 0, to: starts.length > 0 ? 1 : exit, kind: "always" }];
+    const labels = new Map<string, number>();
+    instructions.forEach((instr, i) => {
+        if (instr.label && !labels.has(instr.label)) labels.set(instr.label, blockAt.get(i)!);
+    });
+    const labelBlock = (label: string): number => {
+        const block = labels.get(label);
+        if (block === undefined) throw new Error(`Unknown label: ${label}`);
+        return block;
+    };
+    const next = (i: number) => blockAt.get(i + 1) ?? exit;
+
+    starts.forEach((start, i) => {
+        const id = i + 1;
+        const end = starts[i + 1] ?? instructions.length;
+        const block: BasicBlock = { id, statements: [], instructions: [] };
+        const label = instructions[start]!.label;
+        if (label) block.label = label;
+        blocks.push(block);
+        for (let index = start; index < end; index++) {
+            const stmt = instructions[index]!.statement;
+            block.instructions!.push(index);
+            switch (stmt.type) {
+                case "assignment":
+                    block.statements.push(stmt);
+                    if (index === end - 1) edges.push({ from: id, to: next(index), kind: "always" });
+                    break;
+                case "goto":
+                    edges.push({ from: id, to: labelBlock(stmt.label), kind: "always" });
+                    break;
+                case "if_goto":
+                    edges.push({ from: id, to: labelBlock(stmt.label), kind: "true", condition: stmt.condition });
+                    edges.push({ from: id, to: next(index), kind: "false", condition: stmt.condition });
+                    break;
+                case "halt":
+                    edges.push({ from: id, to: exit, kind: "always" });
+                    break;
+            }
+        }
+    });
+    blocks.push({ id: exit, statements: [] });
+    return { language: "goto", blocks, edges, entry: 0, exit };
+}
+
+// A WHILE loop's test gets a block of its own, the target of the back edge from the end of the
+// body; IF branches meet again in a new block
+export function buildWhileCfg(program: WhileProgram): ControlFlowGraph {
+    const blocks: BasicBlock[] = [];
+    const edges: CfgEdge[] = [];
+    const newBlock = (): number => {
+        blocks.push({ id: blocks.length, statements: [] });
+        return blocks.length - 1;
+    };
+
+    // Appends the statements to `current`; returns the block control reaches after them
+    const build = (statements: WhileStatement[], current: number): number => {
+        for (const stmt of statements) {
+            switch (stmt.type) {
+                case "assignment":
+                    blocks[current]!.statements.push(stmt);
+                    break;
+                case "while": {
+                    const test = newBlock();
+                    edges.push({ from: current, to: test, kind: "always" });
+                    const body = newBlock();
+                    edges.push({ from: test, to: body, kind: "true", condition: stmt.condition });
+                    edges.push({ from: build(stmt.body, body), to: test, kind: "always" });
+                    current = newBlock();
+                    edges.push({ from: test, to: current, kind: "false", condition: stmt.condition });
+                    break;
+                }
+                case "if": {
+                    const thenBlock = newBlock();
+                    edges.push({ from: current, to: thenBlock, kind: "true", condition: stmt.condition });
+                    const thenEnd = build(stmt.thenBody, thenBlock);
+                    let elseEnd = current;
+                    if (stmt.elseBody) {
+                        const elseBlock = newBlock();
+                        edges.push({ from: current, to: elseBlock, kind: "false", condition: stmt.condition });
+                        elseEnd = build(stmt.elseBody, elseBlock);
+                    }
+                    const join = newBlock();
+                    edges.push({ from: thenEnd, to: join, kind: "always" });
+                    if (stmt.elseBody) edges.push({ from: elseEnd, to: join, kind: "always" });
+                    else edges.push({ from: current, to: join, kind: "false", condition: stmt.condition });
+                    current = join;
+                    break;
+                }
+            }
+        }
+        return current;
+    };
+
+    const entry = newBlock();
+    const first = newBlock();
+    edges.push({ from: entry, to: first, kind: "always" });
+    const last = build(program.statements, first);
+    const exit = newBlock();
+    edges.push({ from: last, to: exit, kind: "always" });
+    return { language: "while", blocks, edges, entry, exit };
+}
+
+// Edges leaving a block; a "true" edge comes before its "false" edge
+export function outgoing(cfg: ControlFlowGraph, block: number): CfgEdge[] {
+    return cfg.edges.filter((edge) => edge.from === block);
+}
+
+export function incoming(cfg: ControlFlowGraph, block: number): CfgEdge[] {
+    return cfg.edges.filter((edge) => edge.to === block);
+}
+
+// Blocks reachable from the entry (dead code after a GOTO is not)
+export function reachableBlocks(cfg: ControlFlowGraph): Set<number> {
+    const successors = adjacency(cfg);
+    const seen = new Set<number>();
+    const stack = [cfg.entry];
+    while (stack.length > 0) {
+        const block = stack.pop()!;
+        if (seen.has(block)) continue;
+        seen.add(block);
+        stack.push(...successors[block]!);
+    }
+    return seen;
+}
+
+// The immediate dominator of every block; undefined for the entry and unreachable blocks
+export function dominatorTree(cfg: ControlFlowGraph): Array<number | undefined> {
+    const successors = adjacency(cfg);
+    return immediateDominators(cfg.blocks.length, cfg.entry, (block) => successors[block]!);
+}
+
+// Whether every path from the entry to `block` passes through `dominator`
+export function dominates(idom: Array<number | undefined>, dominator: number, block: number): boolean {
+    for (let current: number | undefined = block; current !== undefined; current = idom[current]) {
+        if (current === dominator) return true;
+    }
+    return false;
+}
+
+export type NaturalLoop = {
+    header: number;
+    blocks: number[];   // header and body, in block order
+    latches: number[];  // blocks with a back edge to the header
+};
+
+// Loops formed by back edges (edges to a block that dominates their source), one per header.
+// Cycles entered at more than one block (irreducible ones) have no back edge and are not listed.
+export function naturalLoops(cfg: ControlFlowGraph): NaturalLoop[] {
+    const idom = dominatorTree(cfg);
+    const reachable = reachableBlocks(cfg);
+    const loops = new Map<number, { blocks: Set<number>; latches: number[] }>();
+    for (const edge of cfg.edges) {
+        if (!reachable.has(edge.from) || !dominates(idom, edge.to, edge.from)) continue;
+        const loop = loops.get(edge.to) ?? { blocks: new Set([edge.to]), latches: [] };
+        loops.set(edge.to, loop);
+        if (!loop.latches.includes(edge.from)) loop.latches.push(edge.from);
+        // The body: every block that reaches the latch without passing the header
+        const stack = [edge.from];
+        while (stack.length > 0) {
+            const block = stack.pop()!;
+            if (loop.blocks.has(block) || !reachable.has(block)) continue;
+            loop.blocks.add(block);
+            stack.push(...incoming(cfg, block).map((e) => e.from));
+        }
+    }
+    return Array.from(loops, ([header, loop]) => ({
+        header,
+        blocks: Array.from(loop.blocks).sort((a, b) => a - b),
+        latches: loop.latches.sort((a, b) => a - b),
+    })).sort((a, b) => a.header - b.header);
+}
+
+// The highest n of the variables xn the program uses (-1 for none); fresh variables start above it
+export function maxVariableIndex(cfg: ControlFlowGraph): number {
+    let maxIndex = -1;
+    const check = (name: string): void => {
+        const match = name.match(/^x(\d+)$/);
+        if (match?.[1]) maxIndex = Math.max(maxIndex, parseInt(match[1], 10));
+    };
+    const checkExpr = (expr: Expression): void => {
+        if (expr.type === "variable") {
+            check(expr.name);
+        } else if (expr.type === "binaryOp") {
+            checkExpr(expr.left);
+            checkExpr(expr.right);
+        }
+    };
+
+    for (const block of cfg.blocks) {
+        for (const stmt of block.statements) {
+            check(stmt.variable);
+            checkExpr(stmt.value);
+        }
+    }
+    for (const edge of cfg.edges) {
+        if (edge.condition) {
+            checkExpr(edge.condition.left);
+            checkExpr(edge.condition.right);
+        }
+    }
+    return maxIndex;
+}
+
+// Cooper, Harvey and Kennedy's iterative algorithm on any graph given by its successors; called
+// with the predecessors and a sink instead, it gives immediate post-dominators. Undefined for the
+// entry and for nodes not reachable from it.
+export function immediateDominators(count: number, entry: number, successors: (node: number) => number[]): Array<number | undefined> {
+    const postOrder: number[] = [];
+    const visited = new Set<number>();
+    const visit = (node: number): void => {
+        visited.add(node);
+        for (const next of successors(node)) {
+            if (!visited.has(next)) visit(next);
+        }
+        postOrder.push(node);
+    };
+    visit(entry);
+
+    const position = new Map(postOrder.map((node, i) => [node, i]));
+    const predecessors: number[][] = Array.from({ length: count }, () => []);
+    for (const node of postOrder) {
+        for (const next of successors(node)) predecessors[next]!.push(node);
+    }
+
+    const idom: Array<number | undefined> = new Array(count).fill(undefined);
+    idom[entry] = entry;
+    const intersect = (a: number, b: number): number => {
+        while (a !== b) {
+            while (position.get(a)! < position.get(b)!) a = idom[a]!;
+            while (position.get(b)! < position.get(a)!) b = idom[b]!;
+        }
+        return a;
+    };
+
+    let changed = true;
+    while (changed) {
+        changed = false;
+        for (const node of [...postOrder].reverse()) {
+            if (node === entry) continue;
+            let dominator: number | undefined;
+            for (const pred of predecessors[node]!) {
+                if (idom[pred] === undefined) continue;
+                dominator = dominator === undefined ? pred : intersect(pred, dominator);
+            }
+            if (dominator !== idom[node]) {
+                idom[node] = dominator;
+                changed = true;
+            }
+        }
+    }
+    idom[entry] = undefined;
+    return idom;
+}
+
+function adjacency(cfg: ControlFlowGraph): number[][] {
+    const successors: number[][] = cfg.blocks.map(() => []);
+    for (const edge of cfg.edges) successors[edge.from]!.push(edge.to);
+    return successors;
+}
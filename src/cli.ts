@@ -5,27 +5,65 @@ import * as fs from 'fs';
 import * as path from 'path';
 
 import Lexer from "./lexer";
-import LoopParser = require("./loop/parser");
-import LoopInterpreter = require("./loop/interpreter");
-import WhileParser = require("./while/parser");
-import WhileInterpreter = require("./while/interpreter");
-import GotoParser = require("./goto/parser");
-import GotoInterpreter = require("./goto/interpreter");
-import { LoopToWhileTranslator } from "./translators/loopToWhile";
-import { WhileToGotoTranslator } from "./translators/whileToGoto";
-import { GotoToWhileTranslator } from "./translators/gotoToWhile";
-import type { Program as WhileProgram } from "./while/ast";
-import type { Program as GotoProgram } from "./goto/ast";
-
-type ParsedArgs = {
+import type { Token } from "./token";
+import LoopInterpreter from "./loop/interpreter";
+import WhileInterpreter from "./while/interpreter";
+import GotoInterpreter from "./goto/interpreter";
+import { translateProgram, translatedLimits } from "./translate";
+import type { TranslateOptions } from "./translate";
+import { SourceError, formatDiagnostic, countErrors } from "./diagnostics";
+import { checkSource, parseProgram } from "./parse";
+import { formatSource } from "./format";
+import type { Language } from "./parse";
+import { printProgram } from "./printer";
+import { budgetError } from "./execution";
+import type { EvalOptions, ExecutionOutcome } from "./execution";
+import type { ExecutionObserver } from "./events";
+import { Debugger } from "./debugger";
+import { Repl } from "./repl";
+import { Trace, TraceRecorder, replay } from "./trace";
+import { Profiler } from "./profile";
+import { overheadReport, expandRanges, stepGrowthTable, programStats } from "./overhead";
+import type { InputRange, GrowthRow } from "./overhead";
+import { differentialVerify } from "./differential";
+import type { DifferentialOptions } from "./differential";
+import { fuzz } from "./fuzz";
+import type { FuzzOptions } from "./fuzz";
+import { parseSpec, runSpec, formatExpectation, formatValues } from "./spec";
+import type { CaseResult } from "./spec";
+import { grade } from "./grade";
+import type { GradeOptions } from "./grade";
+import { runReport } from "./report";
+import { astToJson, importAst } from "./astJson";
+import { translateFiles, translationFileName, writeTranslation } from "./output";
+import type { OutputOptions } from "./output";
+import { formatStateChanges, stateChanges, watchFile } from "./watch";
+import { astToDot, cfgToDot } from "./dot";
+import { recordRun, visualizationHtml } from "./visualize";
+import type { RecordedRun } from "./visualize";
+import type { TaggedProgram } from "./parse";
+
+export type ParsedArgs = {
     filePath: string;
-    variables: Map<string, number>;
+    variables: Map<string, bigint>;
     verbose: boolean;
     verify: boolean;
     translateTo: 'while' | 'goto' | null;
+    limits: EvalOptions; // --max-steps, --timeout
+    traceFile: string | null;
+    htmlFile: string | null; // --html=FILE
+    profile: boolean;
+    ranges: InputRange[]; // --range=x1=0..10
+    differential: DifferentialOptions | null; // --differential [--box=N --samples=N --seed=N]
+    json: boolean;
+    dumpAst: boolean; // --ast
+    output: string | null; // -o FILE
+    outDir: string | null; // --out-dir DIR
+    watch: boolean;
+    translation: TranslateOptions; // --dispatch
 };
 
-function detectLanguage(filePath: string): string | null {
+function detectLanguage(filePath: string): Language | null {
     const ext = path.extname(filePath).toLowerCase();
     switch (ext) {
         case '.loop': return 'loop';
@@ -35,6 +73,12 @@ function detectLanguage(filePath: string): string | null {
     }
 }
 
+// Programs stored as AST JSON: multiply.loop.json, divide.while.json, countdown.goto.json
+function detectAstLanguage(filePath: string): Language | null {
+    const match = filePath.toLowerCase().match(/\.(loop|while|goto)\.json$/);
+    return match ? match[1] as Language : null;
+}
+
 function resolveFile(filePath: string): string {
     if (fs.existsSync(filePath)) return filePath;
     const inExamples = path.join('examples', filePath);
@@ -42,36 +86,117 @@ function resolveFile(filePath: string): string {
     return filePath;
 }
 
-function parseArgs(args: string[]): ParsedArgs {
-    const variables = new Map<string, number>();
+export function parseArgs(args: string[]): ParsedArgs {
+    const variables = new Map<string, bigint>();
     let filePath = "";
     let verbose = false;
     let verify = false;
     let translateTo: 'while' | 'goto' | null = null;
+    const limits: EvalOptions = {};
+    let traceFile: string | null = null;
+    let htmlFile: string | null = null;
+    let profile = false;
+    const ranges: InputRange[] = [];
+    let differential: DifferentialOptions | null = null;
+    let json = false;
+    let dumpAst = false;
+    let output: string | null = null;
+    let outDir: string | null = null;
+    let watch = false;
+    const translation: TranslateOptions = {};
+    const differentialOptions: DifferentialOptions = {};
 
-    for (const arg of args) {
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i]!;
+        const limit = arg.match(/^--?(max-steps|timeout)=(\d+)$/);
+        const range = arg.match(/^--range=([a-zA-Z0-9_]+)=(\d+)\.\.(\d+)$/);
+        const sampling = arg.match(/^--(box|samples|seed)=(\d+)$/);
         if (arg === "-verbose") {
             verbose = true;
         } else if (arg === "-verify") {
             verify = true;
+        } else if (arg === "--profile" || arg === "-profile") {
+            profile = true;
         } else if (arg === "-t2while" || arg === "-t2w") {
             translateTo = 'while';
         } else if (arg === "-t2goto" || arg === "-t2g") {
             translateTo = 'goto';
+        } else if (arg === "--json") {
+            json = true;
+        } else if (arg === "--ast") {
+            dumpAst = true;
+        } else if (arg === "--watch") {
+            watch = true;
+        } else if (arg === "--dispatch") {
+            translation.gotoToWhile = "dispatch";
+        } else if (arg === "-o" || arg === "--out-dir") {
+            const value = args[++i] ?? "";
+            if (arg === "-o") output = value;
+            else outDir = value;
+        } else if (arg.startsWith("-o=")) {
+            output = arg.slice("-o=".length);
+        } else if (arg.startsWith("--out-dir=")) {
+            outDir = arg.slice("--out-dir=".length);
+        } else if (arg === "--differential") {
+            differential = differentialOptions;
+        } else if (sampling && sampling[1] && sampling[2]) {
+            const value = parseInt(sampling[2]);
+            if (sampling[1] === "box") differentialOptions.box = value;
+            else if (sampling[1] === "samples") differentialOptions.samples = value;
+            else differentialOptions.seed = value;
+        } else if (range && range[1] && range[2] && range[3]) {
+            ranges.push({ name: range[1], from: BigInt(range[2]), to: BigInt(range[3]) });
+        } else if (arg.startsWith("--trace=")) {
+            traceFile = arg.slice("--trace=".length);
+        } else if (arg.startsWith("--html=")) {
+            htmlFile = arg.slice("--html=".length);
+        } else if (limit && limit[1] && limit[2]) {
+            if (limit[1] === "max-steps") limits.maxSteps = parseInt(limit[2]);
+            else limits.timeoutMs = parseInt(limit[2]);
         } else if (arg.startsWith("-")) {
             const match = arg.match(/-([a-zA-Z0-9_]+)=(\d+)/);
             if (match && match[1] && match[2]) {
-                variables.set(match[1], parseInt(match[2]));
+                variables.set(match[1], BigInt(match[2]));
             }
         } else if (!filePath) {
             filePath = arg;
         }
     }
 
-    return { filePath, variables, verbose, verify, translateTo };
+    return { filePath, variables, verbose, verify, translateTo, limits, traceFile, htmlFile, profile, ranges, differential, json, dumpAst, output, outDir, watch, translation };
+}
+
+// Replace the first constant assignment to each input variable with its CLI value for display.
+// Works on tokens so that comments mentioning "x1 := 0" are left alone.
+function displayCode(code: string, variables: Map<string, bigint>): string {
+    let tokens: Token[];
+    try {
+        tokens = new Lexer(code).tokenize();
+    } catch {
+        return code; // the parse step reports the error
+    }
+
+    const replacements: { start: number; end: number; text: string }[] = [];
+    for (const [name, value] of variables) {
+        for (let i = 0; i + 2 < tokens.length; i++) {
+            const [target, assign, literal] = [tokens[i]!, tokens[i + 1]!, tokens[i + 2]!];
+            if (target.type === "identifier" && target.value === name && assign.type === "assign" && literal.type === "number") {
+                replacements.push({ start: literal.span.start.offset, end: literal.span.end.offset, text: String(value) });
+                break;
+            }
+        }
+    }
+
+    // Splice from the back so earlier offsets stay valid
+    replacements.sort((a, b) => b.start - a.start);
+    let result = code;
+    for (const { start, end, text } of replacements) {
+        result = result.slice(0, start) + text + result.slice(end);
+    }
+    return result;
 }
 
-function printResult(result: Map<string, number>, label?: string) {
+function printResult(result: Map<string, bigint>, label?: string) {
     console.log(label ? `\n${label}:` : "\nResult:");
     const sortedKeys = Array.from(result.keys()).sort((a, b) => {
         const aNum = parseInt(a.replace(/\D/g, '')) || 0;
@@ -83,131 +208,600 @@ function printResult(result: Map<string, number>, label?: string) {
     }
 }
 
-function compareResults(a: Map<string, number>, b: Map<string, number>): boolean {
+// Observers added to a run's options
+function withObservers(options: EvalOptions, ...observers: Array<{ observer: ExecutionObserver } | null>): EvalOptions {
+    const extra = observers.flatMap(entry => entry ? [entry.observer] : []);
+    return extra.length > 0 ? { ...options, observers: [...(options.observers ?? []), ...extra] } : options;
+}
+
+function printProfile(profiler: Profiler, label: string) {
+    console.log(`\n${label}:`);
+    console.log(profiler.listing());
+}
+
+// Final state, or the partial state and the reason when a budget stopped the run
+function printOutcome(outcome: ExecutionOutcome, label?: string) {
+    if (outcome.status === "halted") {
+        printResult(outcome.variables, label);
+        return;
+    }
+    console.log(`\nStopped after ${outcome.steps} steps: ${outcome.message}`);
+    printResult(outcome.variables, `${label ?? "Result"} (partial)`);
+}
+
+function compareResults(a: Map<string, bigint>, b: Map<string, bigint>): boolean {
     const allKeys = new Set([...a.keys(), ...b.keys()]);
     for (const key of allKeys) {
-        if ((a.get(key) ?? 0) !== (b.get(key) ?? 0)) return false;
+        if ((a.get(key) ?? 0n) !== (b.get(key) ?? 0n)) return false;
     }
     return true;
 }
 
-function exprToCode(expr: any): string {
-    switch (expr.type) {
-        case "number": return String(expr.value);
-        case "variable": return expr.name;
-        case "binaryOp": return `${exprToCode(expr.left)} ${expr.operator} ${exprToCode(expr.right)}`;
-        default: return "";
+function translate(source: TaggedProgram, to: Language, options: TranslateOptions): { code: string; target: TaggedProgram } {
+    const target = translateProgram(source, to, options);
+    return { code: printProgram(target), target };
+}
+
+function runAst(ast: any, lang: string, variables: Map<string, bigint>, verbose: boolean, limits: EvalOptions): ExecutionOutcome {
+    if (verbose) console.log("\nExecution:");
+    const options: EvalOptions = { ...limits, initialVariables: variables, verbose };
+    switch (lang) {
+        case 'loop':
+            return new LoopInterpreter().run(ast, options);
+        case 'while':
+            return new WhileInterpreter().run(ast, options);
+        case 'goto':
+            return new GotoInterpreter().run(ast, options);
+        default:
+            throw new Error(`Cannot run AST for ${lang}`);
     }
 }
 
-function condToCode(cond: any): string {
-    return `${exprToCode(cond.left)} ${cond.operator} ${exprToCode(cond.right)}`;
+// Program files in a directory tree (hidden directories and node_modules skipped)
+function collectPrograms(dir: string): string[] {
+    const files: string[] = [];
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+        const full = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+            if (!entry.name.startsWith(".") && entry.name !== "node_modules") files.push(...collectPrograms(full));
+        } else if (detectLanguage(full)) {
+            files.push(full);
+        }
+    }
+    return files.sort();
 }
 
-function stmtToWhileCode(stmt: any, indent: string): string {
-    switch (stmt.type) {
-        case "assignment":
-            return `${indent}${stmt.variable} := ${exprToCode(stmt.value)};`;
-        case "while": {
-            const body = stmt.body.map((s: any) => stmtToWhileCode(s, indent + "  ")).join("\n");
-            return `${indent}WHILE ${condToCode(stmt.condition)} DO\n${body}\n${indent}END`;
+// lang fmt <files or directories...> [--check]
+function fmt(args: string[]): number {
+    const check = args.includes("--check") || args.includes("-check");
+    const targets = args.filter(arg => !arg.startsWith("-"));
+    if (targets.length === 0) {
+        console.error("No file specified.");
+        return 1;
+    }
+
+    const files: string[] = [];
+    for (const target of targets) {
+        const resolved = resolveFile(target);
+        if (fs.existsSync(resolved) && fs.statSync(resolved).isDirectory()) {
+            files.push(...collectPrograms(resolved));
+        } else {
+            files.push(resolved);
+        }
+    }
+
+    let failed = 0;
+    let changed = 0;
+    for (const file of files) {
+        const language = detectLanguage(file);
+        if (!language) {
+            console.error(`${file}: cannot detect language. Use .loop, .while, or .goto extension.`);
+            failed++;
+            continue;
         }
-        case "if": {
-            let code = `${indent}IF ${condToCode(stmt.condition)} THEN\n`;
-            code += stmt.thenBody.map((s: any) => stmtToWhileCode(s, indent + "  ")).join("\n");
-            if (stmt.elseBody && stmt.elseBody.length > 0) {
-                code += `\n${indent}ELSE\n`;
-                code += stmt.elseBody.map((s: any) => stmtToWhileCode(s, indent + "  ")).join("\n");
+        if (!fs.existsSync(file)) {
+            console.error(`${file}: file not found.`);
+            failed++;
+            continue;
+        }
+
+        const code = fs.readFileSync(file, 'utf-8');
+        const { code: formatted, diagnostics } = formatSource(code, language);
+        if (countErrors(diagnostics) > 0) {
+            for (const diagnostic of diagnostics) {
+                console.error(formatDiagnostic(diagnostic, code, file));
             }
-            code += `\n${indent}END`;
-            return code;
+            failed++;
+            continue;
         }
-        default: return "";
+        if (formatted === code) continue;
+
+        changed++;
+        if (check) {
+            console.log(`Not formatted: ${file}`);
+        } else {
+            fs.writeFileSync(file, formatted);
+            console.log(`Formatted: ${file}`);
+        }
+    }
+
+    if (check && changed > 0) {
+        console.log(`\n${changed} of ${files.length} file${files.length === 1 ? "" : "s"} not formatted.`);
     }
+    return failed > 0 || (check && changed > 0) ? 1 : 0;
 }
 
-function whileToCode(ast: WhileProgram): string {
-    return ast.statements.map(stmt => stmtToWhileCode(stmt, "")).join("\n");
+// Blocking line reader for the debugger prompt; works for terminals and piped input
+function readLineSync(prompt: string): string | null {
+    process.stdout.write(prompt);
+    const bytes: number[] = [];
+    const buffer = Buffer.alloc(1);
+    while (true) {
+        let read = 0;
+        try {
+            read = fs.readSync(0, buffer, 0, 1, null);
+        } catch (error: any) {
+            if (error.code === "EAGAIN") continue;
+            if (error.code === "EOF") read = 0;
+            else throw error;
+        }
+        if (read === 0) {
+            return bytes.length > 0 ? Buffer.from(bytes).toString("utf-8") : null;
+        }
+        if (buffer[0] === 0x0a) {
+            return Buffer.from(bytes).toString("utf-8").replace(/\r$/, "");
+        }
+        bytes.push(buffer[0]!);
+    }
+}
+
+function debug(args: string[]): number {
+    const breakpoints = args.filter(arg => arg.startsWith("--break=")).map(arg => arg.slice("--break=".length));
+    const { filePath, variables, limits } = parseArgs(args.filter(arg => !arg.startsWith("--break=")));
+    if (!filePath) {
+        console.error("No file specified.");
+        return 1;
+    }
+
+    const resolvedPath = resolveFile(filePath);
+    const language = detectLanguage(resolvedPath);
+    if (!language) {
+        console.error("Cannot detect language. Use .loop, .while, or .goto extension.");
+        return 1;
+    }
+    if (!fs.existsSync(resolvedPath)) {
+        console.error(`${resolvedPath}: file not found.`);
+        return 1;
+    }
+
+    const code = fs.readFileSync(resolvedPath, 'utf-8');
+    const { program, diagnostics } = parseProgram(code, language);
+    if (countErrors(diagnostics) > 0) {
+        for (const diagnostic of checkSource(code, language)) {
+            console.error(formatDiagnostic(diagnostic, code, resolvedPath));
+        }
+        return 1;
+    }
+
+    const session = new Debugger(program, { readLine: readLineSync, write: line => console.log(line) }, code);
+    for (const spec of breakpoints) {
+        const error = session.addBreakpoint(spec);
+        if (error) {
+            console.error(error);
+            return 1;
+        }
+    }
+
+    console.log(`Debugging ${path.basename(resolvedPath)} [${language.toUpperCase()}]. Type 'help' for commands.`);
+    const outcome = session.run({ ...limits, initialVariables: variables });
+    if (!outcome) {
+        console.log("Stopped.");
+        return 0;
+    }
+    printOutcome(outcome);
+    return outcome.status === "halted" ? 0 : 1;
 }
 
-function gotoToCode(ast: GotoProgram): string {
-    return ast.instructions.map(instr => {
-        const label = instr.label ? `${instr.label}: ` : "    ";
-        switch (instr.statement.type) {
-            case "assignment":
-                return `${label}${instr.statement.variable} := ${exprToCode(instr.statement.value)};`;
-            case "goto":
-                return `${label}GOTO ${instr.statement.label};`;
-            case "if_goto":
-                return `${label}IF ${condToCode(instr.statement.condition)} THEN GOTO ${instr.statement.label};`;
-            case "halt":
-                return `${label}HALT;`;
-            default: return "";
+// lang repl [--lang loop|while|goto] [--max-steps=N]
+function repl(args: string[]): number {
+    let language: Language = "while";
+    const { limits } = parseArgs(args.filter(arg => !arg.startsWith("--lang")));
+    for (let i = 0; i < args.length; i++) {
+        const value = args[i] === "--lang" ? args[++i] : args[i]!.startsWith("--lang=") ? args[i]!.slice("--lang=".length) : undefined;
+        if (value === undefined) continue;
+        if (value !== "loop" && value !== "while" && value !== "goto") {
+            console.error(`Unknown language: ${value}. Use loop, while, or goto.`);
+            return 1;
         }
-    }).join("\n");
+        language = value;
+    }
+
+    const session = new Repl(language, { readLine: readLineSync, write: line => console.log(line) }, limits);
+    console.log(language === "goto"
+        ? "GOTO session: instructions are collected; :run runs them. Type :help for commands."
+        : `${language.toUpperCase()} session: statements run as you enter them. Type :help for commands.`);
+    session.run();
+    return 0;
 }
 
-function translate(code: string, from: string, to: string): { code: string; ast: any } {
-    if (from === 'loop' && to === 'while') {
-        const loopAst = new LoopParser(new Lexer(code).tokenize()).parse();
-        const whileAst = new LoopToWhileTranslator().translate(loopAst);
-        return { code: whileToCode(whileAst), ast: whileAst };
+function replayTrace(args: string[]): number {
+    const file = args.find(arg => !arg.startsWith("-"));
+    if (!file) {
+        console.error("No trace file specified.");
+        return 1;
     }
-    if (from === 'loop' && to === 'goto') {
-        const loopAst = new LoopParser(new Lexer(code).tokenize()).parse();
-        const whileAst = new LoopToWhileTranslator().translate(loopAst);
-        const gotoAst = new WhileToGotoTranslator().translate(whileAst);
-        return { code: gotoToCode(gotoAst), ast: gotoAst };
+    if (!fs.existsSync(file)) {
+        console.error(`${file}: file not found.`);
+        return 1;
     }
-    if (from === 'while' && to === 'goto') {
-        const whileAst = new WhileParser(new Lexer(code).tokenize()).parse();
-        const gotoAst = new WhileToGotoTranslator().translate(whileAst);
-        return { code: gotoToCode(gotoAst), ast: gotoAst };
+
+    let trace: Trace;
+    try {
+        trace = Trace.fromJSON(fs.readFileSync(file, 'utf-8'));
+    } catch (error: any) {
+        console.error(`${file}: ${error.message}`);
+        return 1;
     }
-    if (from === 'goto' && to === 'while') {
-        const gotoAst = new GotoParser(new Lexer(code).tokenize()).parse();
-        const whileAst = new GotoToWhileTranslator().translate(gotoAst);
-        return { code: whileToCode(whileAst), ast: whileAst };
+    console.log(`Replaying ${path.basename(file)} [${trace.data.language.toUpperCase()}], ${trace.length} steps. Type 'help' for commands.`);
+    replay(trace, { readLine: readLineSync, write: line => console.log(line) });
+    return 0;
+}
+
+// lang fuzz [--runs=N] [--seed=N] [--depth=N] [--vars=N] [--max-const=N] [--max-steps=N] [--non-terminating] [--dispatch]
+function fuzzTranslators(args: string[]): number {
+    const options: FuzzOptions = {};
+    for (const arg of args) {
+        const setting = arg.match(/^--(runs|seed|depth|vars|max-const|max-steps)=(\d+)$/);
+        if (arg === "--non-terminating") {
+            options.terminating = false;
+        } else if (arg === "--dispatch") {
+            options.translate = (source, to) => translateProgram(source, to, { gotoToWhile: "dispatch" });
+        } else if (setting && setting[1] && setting[2]) {
+            const value = parseInt(setting[2]);
+            switch (setting[1]) {
+                case "runs": options.runs = value; break;
+                case "seed": options.seed = value; break;
+                case "depth": options.depth = value; break;
+                case "vars": options.variables = value; break;
+                case "max-const": options.maxConstant = value; break;
+                case "max-steps": options.maxSteps = value; break;
+            }
+        } else {
+            console.error(`Unknown fuzz option: ${arg}`);
+            return 1;
+        }
     }
-    throw new Error(`Cannot translate from ${from.toUpperCase()} to ${to.toUpperCase()}`);
+
+    const maxSteps = options.maxSteps ?? 10_000;
+    console.log(`Fuzzing the translators: ${options.runs ?? 100} programs per language (seed ${options.seed ?? 1}, depth ${options.depth ?? 2}, ` +
+        `${options.variables ?? 3} variables, constants 0..${options.maxConstant ?? 5}${options.terminating === false ? ", non-terminating loops allowed" : ""})`);
+    const result = fuzz(options);
+    for (const [translation, checks] of result.checks) {
+        console.log(`  ${`${translation.from.toUpperCase()} -> ${translation.to.toUpperCase()}`.padEnd(14)} ${checks} run${checks === 1 ? "" : "s"} compared`);
+    }
+    if (result.inconclusive > 0) {
+        console.log(`  ${result.inconclusive} inconclusive (the original exceeded ${maxSteps.toLocaleString("en-US")} steps)`);
+    }
+
+    const failure = result.failure;
+    if (!failure) {
+        console.log(`\nAll translations agree.`);
+        return 0;
+    }
+    const { from, to } = failure.path;
+    console.log(`\nFAILED: ${from.toUpperCase()} -> ${to.toUpperCase()} (shrunk from ${programStats(failure.generated).size} to ${programStats(failure.program).size} statements)`);
+    console.log(`Inputs: ${failure.inputs.size > 0 ? Array.from(failure.inputs, ([k, v]) => `${k}=${v}`).join(", ") : "none"}`);
+    console.log(`\n${printProgram(failure.program)}`);
+    if (failure.error !== undefined) {
+        console.log(`\nError: ${failure.error}`);
+        return 1;
+    }
+    console.log(`\n[Translated to ${to.toUpperCase()}]`);
+    console.log(printProgram((options.translate ?? translateProgram)(failure.program, to)));
+    if (failure.original) printOutcome(failure.original, `${from.toUpperCase()} result`);
+    if (failure.translated) printOutcome(failure.translated, `${to.toUpperCase()} result`);
+    return 1;
 }
 
-function run(code: string, lang: string, variables: Map<string, number>, verbose: boolean): Map<string, number> {
-    if (verbose) console.log("\nExecution:");
-    switch (lang) {
-        case 'loop': {
-            const ast = new LoopParser(new Lexer(code).tokenize()).parse();
-            return new LoopInterpreter().evaluate(ast, { initialVariables: variables, verbose });
+// lang test <files or directories...> [--translate]: run every program against its .spec file
+function testPrograms(args: string[]): number {
+    const translate = args.includes("--translate");
+    const targets = args.filter(arg => !arg.startsWith("-"));
+    if (targets.length === 0) {
+        console.error("No file or directory specified.");
+        return 1;
+    }
+
+    const files: string[] = [];
+    for (const target of targets) {
+        const resolved = resolveFile(target);
+        if (fs.existsSync(resolved) && fs.statSync(resolved).isDirectory()) {
+            files.push(...collectPrograms(resolved));
+        } else {
+            files.push(resolved);
         }
-        case 'while': {
-            const ast = new WhileParser(new Lexer(code).tokenize()).parse();
-            return new WhileInterpreter().evaluate(ast, { initialVariables: variables, verbose });
+    }
+
+    const languages: Language[] = ["loop", "while", "goto"];
+    const rows: string[][] = [["Program", ...languages.map(language => language.toUpperCase())]];
+    const failures: string[] = [];
+    let broken = 0;
+    for (const file of files) {
+        const language = detectLanguage(file);
+        const specFile = `${file}.spec`;
+        if (!language || !fs.existsSync(file)) {
+            console.error(`${file}: not a .loop, .while, or .goto file.`);
+            broken++;
+            continue;
         }
-        case 'goto': {
-            const ast = new GotoParser(new Lexer(code).tokenize()).parse();
-            return new GotoInterpreter().evaluate(ast, { initialVariables: variables, verbose });
+        if (!fs.existsSync(specFile)) {
+            rows.push([file, ...languages.map(column => column === language ? "no spec" : "")]);
+            continue;
         }
-        default:
-            throw new Error(`Unknown language: ${lang}`);
+
+        const code = fs.readFileSync(file, 'utf-8');
+        const specText = fs.readFileSync(specFile, 'utf-8');
+        const parsed = parseProgram(code, language);
+        const spec = parseSpec(specText);
+        if (countErrors(parsed.diagnostics) > 0 || countErrors(spec.diagnostics) > 0) {
+            for (const diagnostic of parsed.diagnostics) console.error(formatDiagnostic(diagnostic, code, file));
+            for (const diagnostic of spec.diagnostics) console.error(formatDiagnostic(diagnostic, specText, specFile));
+            rows.push([file, ...languages.map(column => column === language ? "error" : "")]);
+            broken++;
+            continue;
+        }
+
+        const results = runSpec(parsed.program, spec.program, { translate });
+        const cell = (column: Language) => {
+            const ran = results.filter(result => result.language === column);
+            if (ran.length === 0) return column === language ? "0/0" : "-";
+            const passed = ran.filter(result => result.passed).length;
+            return `${passed}/${ran.length}${passed === ran.length ? "" : " FAIL"}`;
+        };
+        rows.push([file, ...languages.map(cell)]);
+        for (const result of results.filter(result => !result.passed)) {
+            failures.push(describeFailure(specFile, language, result));
+        }
+    }
+
+    const widths = rows[0]!.map((_, column) => Math.max(...rows.map(row => row[column]!.length)));
+    for (const row of rows) {
+        console.log(row.map((cell, column) => cell.padEnd(widths[column]!)).join("   ").trimEnd());
+    }
+    if (failures.length > 0) {
+        console.log("");
+        for (const failure of failures) console.log(failure);
     }
+
+    const cases = failures.length;
+    const problems = [
+        ...(cases > 0 ? [`${cases} failing case${cases === 1 ? "" : "s"}`] : []),
+        ...(broken > 0 ? [`${broken} file${broken === 1 ? "" : "s"} with errors`] : []),
+    ];
+    console.log(problems.length === 0 ? "\nAll specs passed." : `\n${problems.join(", ")}.`);
+    return cases > 0 || broken > 0 ? 1 : 0;
 }
 
-function runAst(ast: any, lang: string, variables: Map<string, number>, verbose: boolean): Map<string, number> {
-    if (verbose) console.log("\nExecution:");
-    switch (lang) {
-        case 'while':
-            return new WhileInterpreter().evaluate(ast, { initialVariables: variables, verbose });
-        case 'goto':
-            return new GotoInterpreter().evaluate(ast, { initialVariables: variables, verbose });
-        default:
-            throw new Error(`Cannot run AST for ${lang}`);
+// "divide.while.spec:4 [GOTO] x1=5 x2=0: expected diverges, got x0=1"
+function describeFailure(specFile: string, language: Language, result: CaseResult): string {
+    const { testCase } = result;
+    const where = result.language === language ? "" : ` [${result.language.toUpperCase()}]`;
+    const inputs = testCase.inputs.size > 0 ? formatValues(testCase.inputs) : "no inputs";
+    return `FAIL ${specFile}:${testCase.line}${where} ${inputs}: expected ${formatExpectation(testCase.expect)}, got ${result.actual}`;
+}
+
+// lang grade <submission> --reference <ref> [...]: score a submission against a reference as JSON
+function gradeSubmission(args: string[]): number {
+    const options: GradeOptions = {};
+    const files: string[] = [];
+    let reference = "";
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i]!;
+        const setting = arg.match(/^--(reference|inputs|outputs|domain|max-tuples|seed|max-steps|language)=(.*)$/);
+        const [name, value] = setting ? [setting[1], setting[2]!] : [arg.replace(/^--/, ""), args[i + 1] ?? ""];
+        if (!setting && arg !== "--reference" && arg !== "--language") {
+            if (arg.startsWith("-")) {
+                console.error(`Unknown grade option: ${arg}`);
+                return 1;
+            }
+            files.push(arg);
+            continue;
+        }
+        if (!setting) i++;
+
+        const domain = value.match(/^(\d+)\.\.(\d+)$/);
+        switch (name) {
+            case "reference": reference = value; break;
+            case "inputs": options.inputs = value.split(",").filter(Boolean); break;
+            case "outputs": options.outputs = value.split(",").filter(Boolean); break;
+            case "domain":
+                if (!domain || parseInt(domain[1]!) > parseInt(domain[2]!)) {
+                    console.error(`Invalid domain: ${value} (expected e.g. 0..5)`);
+                    return 1;
+                }
+                options.from = parseInt(domain[1]!);
+                options.to = parseInt(domain[2]!);
+                break;
+            case "max-tuples": options.maxTuples = parseInt(value); break;
+            case "seed": options.seed = parseInt(value); break;
+            case "max-steps": options.maxSteps = parseInt(value); break;
+            case "language":
+                if (value !== "loop" && value !== "while" && value !== "goto") {
+                    console.error(`Unknown language: ${value}`);
+                    return 1;
+                }
+                options.language = value;
+                break;
+        }
+    }
+
+    const submission = files[0];
+    if (!submission || !reference) {
+        console.error("Usage: lang grade <submission> --reference <reference>");
+        return 1;
+    }
+    const sources = [submission, reference].map(file => ({ file: resolveFile(file), language: detectLanguage(file) }));
+    for (const { file, language } of sources) {
+        if (!language) {
+            console.error(`${file}: cannot detect language. Use .loop, .while, or .goto extension.`);
+            return 1;
+        }
+        if (!fs.existsSync(file)) {
+            console.error(`${file}: file not found.`);
+            return 1;
+        }
     }
+
+    const [submitted, expected] = sources.map(({ file, language }) => ({ code: fs.readFileSync(file, 'utf-8'), language: language! }));
+    try {
+        const report = grade(expected!, submitted!, options);
+        console.log(JSON.stringify({ submission: sources[0]!.file, reference: sources[1]!.file, ...report }, null, 2));
+    } catch (error: any) {
+        console.error(`${sources[1]!.file}: ${error.message}`);
+        return 1;
+    }
+    return 0;
+}
+
+// The program of an AST file, or null after printing why it cannot be imported
+function importAstFile(file: string, language: Language): TaggedProgram | null {
+    if (!fs.existsSync(file)) {
+        console.error(`${file}: file not found.`);
+        return null;
+    }
+    try {
+        return importAst(fs.readFileSync(file, 'utf-8'), language);
+    } catch (error: any) {
+        console.error(`${file}: ${error.message}`);
+        return null;
+    }
+}
+
+// The parsed program of a source file, or null after printing why there is none
+function loadProgram(file: string, language: Language): TaggedProgram | null {
+    if (!fs.existsSync(file)) {
+        console.error(`${file}: file not found.`);
+        return null;
+    }
+    const code = fs.readFileSync(file, 'utf-8');
+    const parsed = parseProgram(code, language);
+    if (countErrors(parsed.diagnostics) > 0) {
+        for (const diagnostic of checkSource(code, language)) console.error(formatDiagnostic(diagnostic, code, file));
+        return null;
+    }
+    return parsed.program;
+}
+
+// --ast: the program (or its translation) as AST JSON, nothing else
+function printAst(file: string, language: Language, imported: TaggedProgram | undefined, translateTo: Language | null,
+    translation: TranslateOptions): number {
+    const program = imported ?? loadProgram(file, language);
+    if (!program) return 1;
+    if (translateTo && translateTo === language) {
+        console.error(`Already in ${translateTo.toUpperCase()}.`);
+        return 1;
+    }
+    process.stdout.write(astToJson(translateTo ? translateProgram(program, translateTo, translation) : program));
+    return 0;
+}
+
+// -o FILE, --out-dir DIR: the translation written to a file instead of printed
+function writeOutput(file: string, language: Language, imported: TaggedProgram | undefined, translateTo: Language | null,
+    output: string | null, outDir: string | null, options: OutputOptions): number {
+    if (!translateTo) {
+        console.error("-o and --out-dir write a translation; add -t2while or -t2goto.");
+        return 1;
+    }
+    const program = imported ?? loadProgram(file, language);
+    if (!program) return 1;
+    const target = output ?? path.join(outDir ?? ".", translationFileName(file, translateTo, options));
+    try {
+        writeTranslation(program, translateTo, target, options);
+    } catch (error: any) {
+        console.error(error.message);
+        return 1;
+    }
+    console.log(`${file} -> ${target}`);
+    return 0;
+}
+
+// lang <directory> -t2while --out-dir DIR: every program in the directory tree translated
+function translateDirectory(dir: string, translateTo: Language | null, output: string | null, outDir: string | null, options: OutputOptions): number {
+    if (!translateTo || !outDir || output) {
+        console.error(`${dir} is a directory; translate it with -t2while or -t2goto and --out-dir <dir>.`);
+        return 1;
+    }
+    // Earlier translations inside the directory are not translated again
+    const files = collectPrograms(dir).filter(file => path.relative(path.resolve(outDir), path.resolve(file)).startsWith(".."));
+    if (files.length === 0) {
+        console.error(`${dir}: no .loop, .while, or .goto files found.`);
+        return 1;
+    }
+
+    const entries = translateFiles(files, translateTo, outDir, dir, options);
+    for (const entry of entries) {
+        if (entry.output) console.log(`${entry.source} -> ${entry.output}`);
+        else if (entry.skipped) console.log(`${entry.source}: skipped (${entry.skipped})`);
+        else console.error(`${entry.source}: ${entry.error}`);
+    }
+    const written = entries.filter(entry => entry.output).length;
+    const failed = entries.filter(entry => entry.error).length;
+    console.log(`\n${written} of ${files.length} file${files.length === 1 ? "" : "s"} translated to ${translateTo.toUpperCase()}${failed > 0 ? `, ${failed} failed` : ""}.`);
+    return failed > 0 ? 1 : 0;
+}
+
+// lang graph <file> [--cfg|--ast] [-t2while|-t2goto]: Graphviz DOT of the program or its translation
+function graphProgram(args: string[]): number {
+    const cfg = args.includes("--cfg");
+    const ast = args.includes("--ast");
+    const { filePath, translateTo, translation } = parseArgs(args.filter(arg => arg !== "--cfg" && arg !== "--ast"));
+    if (!filePath) {
+        console.error("No file specified.");
+        return 1;
+    }
+    if (cfg && ast) {
+        console.error("Choose one of --cfg (control-flow graph) and --ast (syntax tree).");
+        return 1;
+    }
+    const file = resolveFile(filePath);
+    const astLanguage = detectAstLanguage(file);
+    const language = detectLanguage(file) ?? astLanguage;
+    if (!language) {
+        console.error("Cannot detect language. Use .loop, .while, or .goto extension (or .loop.json, ... for an AST).");
+        return 1;
+    }
+    const program = astLanguage ? importAstFile(file, astLanguage) : loadProgram(file, language);
+    if (!program) return 1;
+    if (translateTo === language) {
+        console.error(`Already in ${translateTo.toUpperCase()}.`);
+        return 1;
+    }
+
+    const target = translateTo ? translateProgram(program, translateTo, translation) : program;
+    if (ast) {
+        process.stdout.write(astToDot(target));
+    } else if (target.language === "loop") {
+        console.error("LOOP programs have no control-flow graph; add -t2while or -t2goto, or use --ast.");
+        return 1;
+    } else {
+        process.stdout.write(cfgToDot(target));
+    }
+    return 0;
 }
 
 function printHelp() {
     console.log("LOOP/WHILE/GOTO Interpreter & Translator");
     console.log("");
     console.log("Usage: lang <file> [options]");
+    console.log("       lang fmt <files or directories> [--check]");
+    console.log("       lang debug <file> [-x1=5 ...] [--break=LINE|LABEL ...]");
+    console.log("       lang replay <trace.json>");
+    console.log("       lang repl [--lang loop|while|goto]");
+    console.log("       lang graph <file> [--cfg|--ast] [-t2while|-t2goto]");
+    console.log("       lang test <files or directories> [--translate]");
+    console.log("       lang grade <submission> --reference <ref> [--domain=0..5 --language=loop ...]");
+    console.log("       lang <directory> -t2while|-t2goto --out-dir <dir>");
+    console.log("       lang fuzz [--runs=100 --seed=1 --depth=2 --vars=3 --max-const=5 --non-terminating --dispatch]");
     console.log("");
     console.log("Place your .loop, .while, and .goto files in the examples/ folder.");
     console.log("");
@@ -215,8 +809,21 @@ function printHelp() {
     console.log("  -x1=5 -x2=10     Set input variables (x0 is always the result)");
     console.log("  -t2while, -t2w   Translate to WHILE (both options are the same)");
     console.log("  -t2goto, -t2g    Translate to GOTO (both options are the same)");
-    console.log("  -verify          Run original and translated, compare results");
+    console.log("  -verify          Run original and translated, compare results and cost");
+    console.log("  --range=x1=0..10 With -verify: run every input in the range, show step growth");
+    console.log("  --differential   With -verify: test many inferred inputs (--box=10 --samples=100 --seed=1)");
     console.log("  -verbose         Show step-by-step execution");
+    console.log("  --max-steps=N    Stop after N executed statements (default 1,000,000)");
+    console.log("  --timeout=MS     Stop after MS milliseconds");
+    console.log("  --trace=FILE     Record the run to a JSON trace (see lang replay)");
+    console.log("  --html=FILE      Write a page that steps through the run (with -t2...: both programs side by side)");
+    console.log("  --profile        Show how often each statement ran (with -t2...: both programs)");
+    console.log("  --dispatch       Translate GOTO to WHILE with one program-counter loop (Kleene normal form)");
+    console.log("  --ast            Print the program (or with -t2...: the translation) as AST JSON");
+    console.log("  -o FILE          With -t2...: write the translation to FILE (.while or .goto) instead of printing it");
+    console.log("  --out-dir DIR    With -t2...: write it to DIR/<name>.while or .goto; also for whole directories");
+    console.log("  --watch          Run again whenever the file is saved and show what changed in the final state");
+    console.log("  --json           Print one JSON object (state, steps, translation, verification, errors)");
     console.log("  -help            Show this help");
     console.log("");
     console.log("Examples:");
@@ -226,84 +833,316 @@ function printHelp() {
     console.log("  lang divide.while -t2goto           Translate WHILE to GOTO");
     console.log("  lang countdown.goto -t2while        Translate GOTO to WHILE");
     console.log("  lang multiply.loop -t2goto -verify  Translate to GOTO and verify results");
+    console.log("  lang divide.while -t2g -o d.goto    Write the translation to d.goto");
+    console.log("  lang examples/ -t2w --out-dir out/  Translate every program in examples/ to WHILE");
+    console.log("  lang fmt examples/                  Rewrite all programs in canonical layout");
+    console.log("  lang fmt examples/ --check          Only check; exit code 1 if not formatted");
+    console.log("  lang debug countdown.goto -x1=3     Step through a program interactively");
+    console.log("  lang countdown.goto --trace=t.json  Record a run, then: lang replay t.json");
+    console.log("  lang countdown.goto -x1=3 -t2w --html=run.html  Step through both runs in a browser");
+    console.log("  lang multiply.loop -x1=3 --watch    Re-run on every save");
+    console.log("  lang repl --lang while              Enter WHILE statements interactively");
+    console.log("  lang graph divide.while -t2g | dot -Tsvg > cfg.svg   Draw the GOTO translation's control flow");
+    console.log("  lang test examples/ --translate     Check programs (and translations) against their .spec files");
+    console.log("  lang fuzz --runs=500 --seed=7       Check every translator on random programs");
     console.log("");
     console.log("Enjoy exploring computability theory!");
     console.log("");
 }
 
-function main() {
-    const args = process.argv.slice(2);
-    
-    if (args.length < 1 || args.includes("-help") || args.includes("-h") || args.includes("--help")) {
-        printHelp();
-        process.exit(args.length < 1 ? 1 : 0);
-    }
-
-    const { filePath, variables, verbose, verify, translateTo } = parseArgs(args);
-
-    if (!filePath) {
-        console.error("No file specified.");
-        process.exit(1);
-    }
-
-    const resolvedPath = resolveFile(filePath);
-    const language = detectLanguage(resolvedPath);
-    
-    if (!language) {
-        console.error("Cannot detect language. Use .loop, .while, or .goto extension.");
-        process.exit(1);
-    }
-
+// One run of a program as the options ask, printed; returns the exit code. `onResult` gets the
+// program's final state (not its translation's) whenever it ran once on the given inputs.
+export function runFile(resolvedPath: string, language: Language, imported: TaggedProgram | undefined, options: ParsedArgs,
+    onResult?: (variables: Map<string, bigint>) => void): number {
+    const { variables, verbose, verify, translateTo, limits, traceFile, htmlFile, profile, ranges, differential, translation } = options;
+    let code = "";
     try {
-        const code = fs.readFileSync(path.resolve(resolvedPath), 'utf-8');
+        code = imported ? printProgram(imported) : fs.readFileSync(path.resolve(resolvedPath), 'utf-8');
 
         console.log(`[${language.toUpperCase()}] ${path.basename(resolvedPath)}`);
         if (variables.size > 0) {
             console.log(`Initial: ${Array.from(variables.entries()).map(([k, v]) => `${k}=${v}`).join(", ")}`);
         }
-        // Replace initial assignment values with CLI values for display
-        let displayCode = code.trim();
-        for (const [name, value] of variables) {
-            displayCode = displayCode.replace(
-                new RegExp(`(${name}\\s*:=\\s*)\\d+`),
-                `$1${value}`
-            );
+        console.log(`\n${displayCode(code, variables).trim()}`);
+
+        // Report every syntax problem at once before running anything
+        const diagnostics = imported ? [] : checkSource(code, language);
+        if (diagnostics.length > 0) {
+            for (const diagnostic of diagnostics) {
+                console.error(formatDiagnostic(diagnostic, code, resolvedPath));
+            }
+            const errors = countErrors(diagnostics);
+            if (errors > 0) {
+                console.error(`\n${errors} error${errors === 1 ? "" : "s"} found.`);
+                return 1;
+            }
         }
-        console.log(`\n${displayCode}`);
+        const parsed = imported ?? parseProgram(code, language).program;
 
         if (translateTo) {
             if (language === translateTo) {
                 console.error(`Already in ${translateTo.toUpperCase()}.`);
-                process.exit(1);
+                return 1;
             }
 
-            const translated = translate(code, language, translateTo);
+            const translated = translate(parsed, translateTo, translation);
             console.log(`\n[Translated to ${translateTo.toUpperCase()}]`);
             console.log(translated.code);
 
-            if (verify) {
+            const translatedProgram = translated.target;
+            if (htmlFile) {
+                const name = path.basename(resolvedPath);
+                writeVisualization(htmlFile, [
+                    recordRun(name, parsed, variables, imported ? { limits } : { source: code, limits }),
+                    recordRun(`${name} as ${translateTo.toUpperCase()}`, translatedProgram, variables, { limits, translation: true }),
+                ], variables);
+            }
+            if (verify && differential) {
+                const maxSteps = limits.maxSteps ?? 100_000;
+                const result = differentialVerify(parsed, translatedProgram, { ...differential, fixed: variables, maxSteps });
+                const names = result.inputs.length > 0 ? result.inputs.join(", ") : "none";
+                console.log(`\nDifferential verification (inputs: ${names}; ${result.exhaustive} tuples in 0..${result.box}, ${result.random} random; budget ${maxSteps.toLocaleString("en-US")} steps)`);
+                console.log(`  ${result.tested} input${result.tested === 1 ? "" : "s"} tested, ${result.inconclusive} inconclusive (both runs exceeded the budget)`);
+
+                const counterexample = result.counterexample;
+                if (counterexample) {
+                    console.log(`\nCounterexample: ${Array.from(counterexample.inputs, ([k, v]) => `${k}=${v}`).join(", ")}`);
+                    printOutcome(counterexample.original, `${language.toUpperCase()} result`);
+                    printOutcome(counterexample.translated, `${translateTo.toUpperCase()} result`);
+                    console.log(`\nVerification: FAILED`);
+                    return 1;
+                }
+                console.log(`\nVerification: PASSED`);
+                return 0;
+            }
+            if (verify && ranges.length > 0) {
+                const inputs = expandRanges(variables, ranges);
+                const rows: GrowthRow[] = inputs.map(input => ({
+                    inputs: input,
+                    original: runAst(parsed.program, language, input, false, limits),
+                    translated: runAst(translatedProgram.program, translateTo, input, false, translatedLimits(limits)),
+                }));
+                console.log(`\nStep overhead over ${inputs.length} input${inputs.length === 1 ? "" : "s"}:`);
+                console.log(stepGrowthTable(rows, ranges, language, translateTo));
+
+                const failed = rows.filter(row => row.original.status === "halted" && row.translated.status === "halted"
+                    ? !compareResults(row.original.variables, row.translated.variables)
+                    : row.original.status !== row.translated.status);
+                const inconclusive = rows.filter(row => row.original.status !== "halted" && row.translated.status !== "halted").length;
+                if (failed.length > 0) {
+                    const first = failed[0]!.inputs;
+                    console.log(`\nVerification: FAILED for ${failed.length} input${failed.length === 1 ? "" : "s"}, first: ${Array.from(first, ([k, v]) => `${k}=${v}`).join(", ")}`);
+                    return 1;
+                }
+                console.log(`\nVerification: PASSED${inconclusive > 0 ? ` (${inconclusive} inconclusive: both runs exceeded their budget)` : ""}`);
+                return 0;
+            }
+            if (verify || profile) {
+                const originalProfiler = profile ? new Profiler(parsed) : null;
+                const translatedProfiler = profile ? new Profiler(translatedProgram) : null;
+
                 if (verbose) console.log(`\n[Running ${language.toUpperCase()}]`);
-                const originalResult = run(code, language, variables, verbose);
+                const originalResult = runAst(parsed.program, language, variables, verbose, withObservers(limits, originalProfiler));
+                onResult?.(originalResult.variables);
                 
                 if (verbose) console.log(`\n[Running ${translateTo.toUpperCase()}]`);
-                const translatedResult = runAst(translated.ast, translateTo, variables, verbose);
+                const translatedResult = runAst(translatedProgram.program, translateTo, variables, verbose, withObservers(translatedLimits(limits), translatedProfiler));
 
-                printResult(originalResult, `${language.toUpperCase()} result`);
-                printResult(translatedResult, `${translateTo.toUpperCase()} result`);
+                if (originalProfiler && translatedProfiler) {
+                    originalProfiler.finish(originalResult.steps);
+                    translatedProfiler.finish(translatedResult.steps);
+                    printProfile(originalProfiler, `${language.toUpperCase()} profile`);
+                    printProfile(translatedProfiler, `${translateTo.toUpperCase()} profile`);
+                }
+
+                printOutcome(originalResult, `${language.toUpperCase()} result`);
+                printOutcome(translatedResult, `${translateTo.toUpperCase()} result`);
                 
-                const match = compareResults(originalResult, translatedResult);
-                console.log(`\nVerification: ${match ? "PASSED" : "FAILED"}`);
+                if (!verify) return 0;
+                console.log(`\nOverhead:`);
+                console.log(overheadReport(parsed, originalResult, translatedProgram, translatedResult));
+                if (originalResult.status === "halted" && translatedResult.status === "halted") {
+                    const match = compareResults(originalResult.variables, translatedResult.variables);
+                    console.log(`\nVerification: ${match ? "PASSED" : "FAILED"}`);
+                    if (!match) return 1;
+                } else if (originalResult.status !== "halted" && translatedResult.status !== "halted") {
+                    console.log(`\nVerification: INCONCLUSIVE (both runs exceeded their budget)`);
+                } else {
+                    const stopped = originalResult.status === "halted" ? translateTo : language;
+                    console.log(`\nVerification: FAILED (only the ${stopped.toUpperCase()} run exceeded its budget)`);
+                    return 1;
+                }
             }
-            return;
+            return 0;
         }
 
-        const result = run(code, language, variables, verbose);
-        printResult(result);
-
+        const recorder = traceFile ? new TraceRecorder(language, variables, code) : null;
+        const profiler = profile ? new Profiler(parsed) : null;
+        const result = runAst(parsed.program, language, variables, verbose, withObservers(limits, recorder, profiler));
+        onResult?.(result.variables);
+        if (profiler) {
+            profiler.finish(result.steps);
+            printProfile(profiler, "Profile");
+        }
+        printOutcome(result);
+        if (recorder && traceFile) {
+            const trace = recorder.finish(result);
+            fs.writeFileSync(traceFile, JSON.stringify(trace));
+            console.log(`\nTrace written to ${traceFile} (${trace.steps.length} statements)`);
+        }
+        if (htmlFile) {
+            const name = path.basename(resolvedPath);
+            writeVisualization(htmlFile, [recordRun(name, parsed, variables, imported ? { limits } : { source: code, limits })], variables);
+        }
+        if (result.status === "budgetExceeded") {
+            console.error("");
+            console.error(formatDiagnostic(budgetError(result).toDiagnostic(), code, resolvedPath));
+            return 1;
+        }
+        return 0;
     } catch (error: any) {
-        console.error("Error:", error.message);
+        // Errors with a source span point into the original file (translated ASTs carry no spans)
+        if (error instanceof SourceError && error.span) {
+            console.error(formatDiagnostic(error.toDiagnostic(), code, resolvedPath));
+        } else {
+            console.error("Error:", error.message);
+        }
+        return 1;
+    }
+}
+
+// --html=FILE: the recorded runs as a page to step through in the browser
+function writeVisualization(file: string, runs: RecordedRun[], inputs: Map<string, bigint>): void {
+    fs.writeFileSync(file, visualizationHtml(runs, inputs));
+    const steps = runs.map(run => run.trace.steps.length.toLocaleString("en-US")).join(" and ");
+    console.log(`\nVisualization written to ${file} (${steps} statements)`);
+}
+
+// Why --watch cannot be used with these options, if it cannot: it compares one final state per run
+export function watchConflict(options: ParsedArgs): string | null {
+    if (options.json || options.dumpAst || options.output || options.outDir) {
+        return "--watch re-runs the text output; it cannot be combined with --json, --ast, -o or --out-dir.";
+    }
+    if (options.translateTo && options.verify && (options.ranges.length > 0 || options.differential)) {
+        return "--watch compares the final state of one run; --range and --differential run many inputs.";
+    }
+    if (options.translateTo && !options.verify && !options.profile) {
+        return "--watch compares the final state of one run; a translation alone does not run the program (add -verify).";
+    }
+    return null;
+}
+
+// --watch: run now and again after every save, showing how the final state changed
+function watchProgram(file: string, language: Language, astLanguage: Language | null, options: ParsedArgs): void {
+    let previous: Map<string, bigint> | undefined;
+    const run = () => {
+        const imported = astLanguage ? importAstFile(file, astLanguage) : undefined;
+        if (imported === null) return;
+        let current: Map<string, bigint> | undefined;
+        runFile(file, language, imported, options, variables => { current = new Map(variables); });
+        if (previous && current) {
+            console.log("\nChanges since the last run:");
+            for (const line of formatStateChanges(stateChanges(previous, current))) console.log(line);
+        }
+        previous = current ?? previous;
+        console.log(`\nWatching ${file} for changes (Ctrl+C to stop)...`);
+    };
+
+    run();
+    watchFile(file, () => {
+        console.log(`\n--- ${path.basename(file)} changed at ${new Date().toLocaleTimeString()} ---\n`);
+        run();
+    });
+}
+
+function main() {
+    const args = process.argv.slice(2);
+    
+    if (args.length < 1 || args.includes("-help") || args.includes("-h") || args.includes("--help")) {
+        printHelp();
+        process.exit(args.length < 1 ? 1 : 0);
+    }
+
+    if (args[0] === "fmt") {
+        process.exit(fmt(args.slice(1)));
+    }
+    if (args[0] === "debug") {
+        process.exit(debug(args.slice(1)));
+    }
+    if (args[0] === "graph") {
+        process.exit(graphProgram(args.slice(1)));
+    }
+    if (args[0] === "repl") {
+        process.exit(repl(args.slice(1)));
+    }
+    if (args[0] === "replay") {
+        process.exit(replayTrace(args.slice(1)));
+    }
+    if (args[0] === "test") {
+        process.exit(testPrograms(args.slice(1)));
+    }
+    if (args[0] === "grade") {
+        process.exit(gradeSubmission(args.slice(1)));
+    }
+    if (args[0] === "fuzz") {
+        process.exit(fuzzTranslators(args.slice(1)));
+    }
+
+    const parsedArgs = parseArgs(args);
+    const { filePath, variables, translateTo, limits, verify, ranges, differential, json, dumpAst, output, outDir, watch, translation } = parsedArgs;
+
+    if (!filePath) {
+        console.error("No file specified.");
+        process.exit(1);
+    }
+
+    const resolvedPath = resolveFile(filePath);
+    if (fs.existsSync(resolvedPath) && fs.statSync(resolvedPath).isDirectory()) {
+        process.exit(translateDirectory(resolvedPath, translateTo, output, outDir, { ast: dumpAst, translation }));
+    }
+    const astLanguage = detectAstLanguage(resolvedPath);
+    const language = detectLanguage(resolvedPath) ?? astLanguage;
+    
+    if (!language) {
+        console.error("Cannot detect language. Use .loop, .while, or .goto extension (or .loop.json, ... for an AST).");
         process.exit(1);
     }
+
+    if (watch) {
+        const conflict = watchConflict(parsedArgs);
+        if (conflict) {
+            console.error(conflict);
+            process.exit(1);
+        }
+        watchProgram(resolvedPath, language, astLanguage, parsedArgs);
+        return;
+    }
+
+    // AST files are imported instead of parsed; their canonical source stands in for the code
+    const imported = astLanguage ? importAstFile(resolvedPath, astLanguage) : undefined;
+    if (imported === null) process.exit(1);
+
+    if (output || outDir) {
+        process.exit(writeOutput(resolvedPath, language, imported, translateTo, output, outDir, { ast: dumpAst, translation }));
+    }
+
+    if (dumpAst) {
+        process.exit(printAst(resolvedPath, language, imported, translateTo, translation));
+    }
+
+    if (json) {
+        if (!fs.existsSync(resolvedPath)) {
+            console.error(`${resolvedPath}: file not found.`);
+            process.exit(1);
+        }
+        const source = imported ? printProgram(imported) : fs.readFileSync(resolvedPath, 'utf-8');
+        const report = runReport(source, language, { program: imported, inputs: variables, translateTo, translation, verify, ranges, differential, limits });
+        console.log(JSON.stringify({ file: resolvedPath, ...report }, null, 2));
+        const failed = report.errors.some(error => error.severity === "error") || report.verification?.status === "failed";
+        process.exit(failed ? 1 : 0);
+    }
+
+    process.exit(runFile(resolvedPath, language, imported, parsedArgs));
 }
 
 if (require.main === module) {
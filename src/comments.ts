@@ -0,0 +1,36 @@
+// Comments carried on AST nodes so that the printer (and `lang fmt`) can keep them
+import type { Token } from "./token";
+
+export type NodeComments = {
+    leading?: string[];  // own-line comments before the node
+    trailing?: string[]; // comments at the end of the node's (first) line
+    after?: string[];    // own-line comments after the node (only at end of file)
+};
+
+// Collect the comments attached to tokens[from..to): the first token's leading
+// trivia leads the node, everything else trails it. Trivia the lexer left after
+// the last token of the file ends up in `after`. Returns undefined when there
+// are no comments, so uncommented ASTs stay free of the extra field.
+export function collectComments(tokens: Token[], from: number, to: number): NodeComments | undefined {
+    const comments: NodeComments = {};
+    const add = (key: keyof NodeComments, text: string) => (comments[key] ??= []).push(text);
+
+    for (let i = from; i < to; i++) {
+        const token = tokens[i];
+        if (!token) break;
+        for (const trivia of token.leadingTrivia ?? []) {
+            add(i === from ? "leading" : "trailing", trivia.text);
+        }
+        for (const trivia of token.trailingTrivia ?? []) {
+            add(trivia.span.start.line > token.span.end.line ? "after" : "trailing", trivia.text);
+        }
+    }
+
+    return Object.keys(comments).length > 0 ? comments : undefined;
+}
+
+// Set `node[key]` to the comments of tokens[from..to), if there are any
+export function attachComments<K extends string>(node: { [P in K]?: NodeComments }, key: K, tokens: Token[], from: number, to: number): void {
+    const comments = collectComments(tokens, from, to);
+    if (comments) node[key] = comments;
+}
@@ -0,0 +1,380 @@
+// Interactive step debugger for LOOP, WHILE and GOTO programs (`lang debug <file>`).
+// Runs the ordinary interpreters and pauses inside an execution observer, so the
+// program state seen and changed by the user is the interpreter's live variable map.
+import LoopInterpreter from "./loop/interpreter";
+import WhileInterpreter from "./while/interpreter";
+import GotoInterpreter from "./goto/interpreter";
+import type { Statement as LoopStatement, Loop } from "./loop/ast";
+import type { Statement as WhileStatement, WhileLoop, Condition } from "./while/ast";
+import type { EvalOptions, ExecutionOutcome } from "./execution";
+import type { ExecutionEvent, StatementNode } from "./events";
+import { statementText } from "./events";
+import type { TaggedProgram } from "./parse";
+import { parseWhile } from "./parse";
+import { printCondition } from "./printer";
+import { evaluateCondition } from "./evaluate";
+
+export type DebuggerIO = {
+    readLine: (prompt: string) => string | null; // null at end of input
+    write: (line: string) => void;
+};
+
+type Breakpoint = { line: number } | { label: string };
+type Watch = { text: string; condition: Condition; value: boolean | undefined };
+type LoopFrame = { node: Loop | WhileLoop; depth: number; iteration: bigint; total?: bigint };
+type Mode = { kind: "step" } | { kind: "next"; depth: number } | { kind: "continue" };
+type StatementEvent = Extract<ExecutionEvent, { type: "statement" }>;
+
+// Unwinds the interpreter when the user quits
+class DebuggerQuit extends Error {}
+
+const HELP = [
+    "  step, s              Run to the next statement (into LOOP/WHILE/IF bodies)",
+    "  next, n              Run to the next statement at this nesting level or above",
+    "  continue, c          Run to the next breakpoint or watch change",
+    "  break, b <line|M1>   Pause at a line or a GOTO label",
+    "  delete, d <line|M1>  Remove a breakpoint",
+    "  watch, w <cond>      Pause when a condition such as `x1 = 0` changes value",
+    "  unwatch <n>          Remove watch number n",
+    "  print, p [x1 ...]    Show variables (all when none given)",
+    "  set x1=5             Change a variable",
+    "  where                Show the current statement and enclosing loops",
+    "  list, l              Show the program with breakpoints",
+    "  info                 List breakpoints and watches",
+    "  quit, q              Stop the program",
+    "  An empty line repeats the last step/next.",
+];
+
+export class Debugger {
+    private readonly target: TaggedProgram;
+    private readonly io: DebuggerIO;
+    private readonly sourceLines: string[];
+    private readonly depths: Map<StatementNode, number>;
+    private readonly statementLines: Set<number>;
+    private readonly labels: Set<string>;
+    private breakpoints: Breakpoint[];
+    private watches: Watch[];
+    private frames: LoopFrame[];
+    private mode: Mode;
+    private lastCommand: string;
+
+    constructor(target: TaggedProgram, io: DebuggerIO, source?: string) {
+        this.target = target;
+        this.io = io;
+        this.sourceLines = source !== undefined ? source.split("\n") : [];
+        this.depths = new Map();
+        this.statementLines = new Set();
+        this.labels = new Set();
+        this.breakpoints = [];
+        this.watches = [];
+        this.frames = [];
+        this.mode = { kind: "step" };
+        this.lastCommand = "step";
+
+        if (target.language === "goto") {
+            for (const instr of target.program.instructions) this.index(instr, 0);
+        } else {
+            this.indexBody(target.program.statements, 0);
+        }
+    }
+
+    // Run under the debugger; null when the user quit before the program ended
+    public run(options: EvalOptions = {}): ExecutionOutcome | null {
+        const observe = (event: ExecutionEvent) => this.observe(event);
+        const debugOptions: EvalOptions = { ...options, observers: [...(options.observers ?? []), observe] };
+        this.frames = [];
+        this.mode = { kind: "step" };
+        for (const watch of this.watches) watch.value = undefined;
+
+        try {
+            switch (this.target.language) {
+                case "loop": return new LoopInterpreter().run(this.target.program, debugOptions);
+                case "while": return new WhileInterpreter().run(this.target.program, debugOptions);
+                case "goto": return new GotoInterpreter().run(this.target.program, debugOptions);
+            }
+        } catch (error) {
+            if (error instanceof DebuggerQuit) return null;
+            throw error;
+        }
+    }
+
+    // Returns an error message, or undefined when the breakpoint was added
+    public addBreakpoint(spec: string): string | undefined {
+        const breakpoint = this.parseBreakpoint(spec);
+        if (typeof breakpoint === "string") return breakpoint;
+        if (!this.breakpoints.some((existing) => sameBreakpoint(existing, breakpoint))) {
+            this.breakpoints.push(breakpoint);
+        }
+        return undefined;
+    }
+
+    // Returns an error message, or undefined when the watch was added
+    public addWatch(text: string): string | undefined {
+        const { program, diagnostics } = parseWhile(`IF ${text} THEN END`);
+        const statement = program.statements[0];
+        if (diagnostics.length > 0 || program.statements.length !== 1 || statement?.type !== "if") {
+            return `Not a condition: ${text} (expected e.g. x1 = 0 or x2 >= x3)`;
+        }
+        this.watches.push({ text: printCondition(statement.condition), condition: statement.condition, value: undefined });
+        return undefined;
+    }
+
+    private indexBody(statements: Array<LoopStatement | WhileStatement>, depth: number): void {
+        for (const statement of statements) {
+            this.index(statement, depth);
+            switch (statement.type) {
+                case "loop":
+                case "while":
+                    this.indexBody(statement.body, depth + 1);
+                    break;
+                case "if":
+                    this.indexBody(statement.thenBody, depth + 1);
+                    if (statement.elseBody) this.indexBody(statement.elseBody, depth + 1);
+                    break;
+            }
+        }
+    }
+
+    private index(node: StatementNode, depth: number): void {
+        this.depths.set(node, depth);
+        if (node.span) this.statementLines.add(node.span.start.line);
+        if ("label" in node && node.label) this.labels.add(node.label);
+    }
+
+    private observe(event: ExecutionEvent): void {
+        switch (event.type) {
+            case "statement":
+                this.enter(event);
+                break;
+            case "loopEntered": {
+                const frame = this.frames[this.frames.length - 1];
+                if (frame) frame.total = event.iterations;
+                break;
+            }
+            case "loopIteration": {
+                // Innermost matching frame; frames of finished inner loops above it are dropped
+                let index = this.frames.length - 1;
+                while (index >= 0 && this.frames[index]!.node.span !== event.span) index--;
+                const frame = this.frames[index];
+                if (frame) {
+                    this.frames.length = index + 1;
+                    frame.iteration = event.iteration;
+                }
+                break;
+            }
+            case "halt":
+                this.io.write(`Program halted after ${event.steps} steps.`);
+                break;
+        }
+    }
+
+    private enter(event: StatementEvent): void {
+        const depth = this.depths.get(event.node) ?? 0;
+        while (this.frames.length > 0 && this.frames[this.frames.length - 1]!.depth >= depth) {
+            this.frames.pop();
+        }
+        if ("type" in event.node && (event.node.type === "loop" || event.node.type === "while")) {
+            this.frames.push({ node: event.node, depth, iteration: 0n });
+        }
+
+        const reasons: string[] = [];
+        if (this.breakpoints.some((breakpoint) => this.hits(breakpoint, event.node))) {
+            reasons.push(`Breakpoint at ${this.describeBreakpoint(event.node)}`);
+        }
+        for (const watch of this.watches) {
+            const value = evaluateCondition(watch.condition, event.variables);
+            if (watch.value !== undefined && value !== watch.value) {
+                reasons.push(`Watch ${watch.text}: ${watch.value} -> ${value}`);
+            }
+            watch.value = value;
+        }
+
+        const pause = reasons.length > 0
+            || this.mode.kind === "step"
+            || (this.mode.kind === "next" && depth <= this.mode.depth);
+        if (!pause) return;
+
+        for (const reason of reasons) this.io.write(reason);
+        this.showLocation(event, depth);
+        this.prompt(event, depth);
+    }
+
+    private prompt(event: StatementEvent, depth: number): void {
+        while (true) {
+            const line = this.io.readLine("(debug) ");
+            if (line === null) throw new DebuggerQuit();
+            let command = line.trim();
+            if (command === "") command = this.lastCommand;
+            if (this.execute(command, event, depth)) return;
+        }
+    }
+
+    // Run one command; true when execution should resume
+    private execute(command: string, event: StatementEvent, depth: number): boolean {
+        const [name = "", ...rest] = command.split(/\s+/);
+        const argument = rest.join(" ");
+        switch (name) {
+            case "s":
+            case "step":
+                this.lastCommand = "step";
+                this.mode = { kind: "step" };
+                return true;
+            case "n":
+            case "next":
+                this.lastCommand = "next";
+                this.mode = { kind: "next", depth };
+                return true;
+            case "c":
+            case "continue":
+                this.mode = { kind: "continue" };
+                return true;
+            case "b":
+            case "break": {
+                const error = this.addBreakpoint(argument);
+                this.io.write(error ?? `Breakpoint set at ${argument}.`);
+                return false;
+            }
+            case "d":
+            case "delete": {
+                const breakpoint = this.parseBreakpoint(argument);
+                const before = this.breakpoints.length;
+                if (typeof breakpoint !== "string") {
+                    this.breakpoints = this.breakpoints.filter((existing) => !sameBreakpoint(existing, breakpoint));
+                }
+                this.io.write(this.breakpoints.length < before ? `Breakpoint at ${argument} deleted.` : `No breakpoint at ${argument}.`);
+                return false;
+            }
+            case "w":
+            case "watch": {
+                const error = this.addWatch(argument);
+                if (error) {
+                    this.io.write(error);
+                } else {
+                    const watch = this.watches[this.watches.length - 1]!;
+                    watch.value = evaluateCondition(watch.condition, event.variables);
+                    this.io.write(`Watch ${this.watches.length}: ${watch.text} (now ${watch.value})`);
+                }
+                return false;
+            }
+            case "unwatch": {
+                const index = parseInt(argument) - 1;
+                if (this.watches[index]) {
+                    this.watches.splice(index, 1);
+                    this.io.write(`Watch ${argument} removed.`);
+                } else {
+                    this.io.write(`No watch ${argument}.`);
+                }
+                return false;
+            }
+            case "p":
+            case "print":
+                this.printVariables(event.variables, rest);
+                return false;
+            case "set": {
+                const match = argument.match(/^([a-zA-Z_][a-zA-Z0-9_]*)\s*=\s*(\d+)$/);
+                if (!match || !match[1] || !match[2]) {
+                    this.io.write("Usage: set x1=5");
+                } else {
+                    event.variables.set(match[1], BigInt(match[2]));
+                    this.io.write(`${match[1]} = ${match[2]}`);
+                }
+                return false;
+            }
+            case "where":
+            case "bt":
+                this.showLocation(event, depth);
+                return false;
+            case "l":
+            case "list":
+                this.list(event);
+                return false;
+            case "info":
+                this.info(event.variables);
+                return false;
+            case "q":
+            case "quit":
+                throw new DebuggerQuit();
+            case "h":
+            case "help":
+                for (const line of HELP) this.io.write(line);
+                return false;
+            default:
+                this.io.write(`Unknown command: ${name}. Type 'help' for a list of commands.`);
+                return false;
+        }
+    }
+
+    private parseBreakpoint(spec: string): Breakpoint | string {
+        if (/^\d+$/.test(spec)) {
+            const line = parseInt(spec);
+            return this.statementLines.has(line) ? { line } : `No statement starts on line ${line}.`;
+        }
+        if (this.target.language === "goto" && this.labels.has(spec)) return { label: spec };
+        return this.target.language === "goto"
+            ? `Expected a line number or a label, got: ${spec}`
+            : `Expected a line number, got: ${spec}`;
+    }
+
+    private hits(breakpoint: Breakpoint, node: StatementNode): boolean {
+        if ("line" in breakpoint) return node.span?.start.line === breakpoint.line;
+        return "label" in node && node.label === breakpoint.label;
+    }
+
+    private describeBreakpoint(node: StatementNode): string {
+        const line = node.span ? `line ${node.span.start.line}` : "statement";
+        return "label" in node && node.label ? `${node.label} (${line})` : line;
+    }
+
+    private showLocation(event: StatementEvent, depth: number): void {
+        const where = event.span ? `line ${event.span.start.line}` : `step ${event.step}`;
+        const pc = event.pc !== undefined ? ` [pc=${event.pc}]` : "";
+        this.io.write(`-> ${where}${pc}: ${statementText(event.language, event.node, this.sourceLines)}`);
+        for (const frame of this.frames) {
+            if (frame.depth >= depth) continue;
+            const iteration = frame.total !== undefined ? `${frame.iteration}/${frame.total}` : `${frame.iteration}`;
+            const header = frame.node.type === "loop" ? `LOOP ${frame.node.counter}` : `WHILE ${printCondition(frame.node.condition)}`;
+            this.io.write(`   in ${header} (iteration ${iteration})`);
+        }
+    }
+
+    private list(event: StatementEvent): void {
+        if (this.sourceLines.length === 0) {
+            this.io.write("No source available.");
+            return;
+        }
+        const current = event.span?.start.line;
+        const width = String(this.sourceLines.length).length;
+        this.sourceLines.forEach((text, i) => {
+            const line = i + 1;
+            const marker = line === current ? ">" : " ";
+            const breakpoint = this.breakpoints.some((b) => "line" in b && b.line === line) ? "*" : " ";
+            this.io.write(`${marker}${breakpoint}${String(line).padStart(width)} | ${text}`);
+        });
+    }
+
+    private info(variables: Map<string, bigint>): void {
+        if (this.breakpoints.length === 0) this.io.write("No breakpoints.");
+        for (const breakpoint of this.breakpoints) {
+            this.io.write("line" in breakpoint ? `Breakpoint at line ${breakpoint.line}` : `Breakpoint at ${breakpoint.label}`);
+        }
+        if (this.watches.length === 0) this.io.write("No watches.");
+        this.watches.forEach((watch, i) => {
+            this.io.write(`Watch ${i + 1}: ${watch.text} (now ${evaluateCondition(watch.condition, variables)})`);
+        });
+    }
+
+    private printVariables(variables: Map<string, bigint>, names: string[]): void {
+        const shown = names.length > 0
+            ? names
+            : Array.from(variables.keys()).sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+        if (shown.length === 0) this.io.write("No variables set yet.");
+        for (const name of shown) {
+            this.io.write(`  ${name} = ${variables.get(name) ?? 0n}`);
+        }
+    }
+}
+
+function sameBreakpoint(a: Breakpoint, b: Breakpoint): boolean {
+    if ("line" in a) return "line" in b && a.line === b.line;
+    return "label" in b && a.label === b.label;
+}
@@ -0,0 +1,74 @@
+// Errors that point into the source text, and their caret-style rendering
+import type { SourceSpan } from "./span";
+
+export type DiagnosticCode =
+    | "unexpected-character"
+    | "unterminated-comment"
+    | "unexpected-token"
+    | "unexpected-end"
+    | "duplicate-label"
+    | "undefined-label"
+    | "infinite-loop"
+    | "budget-exceeded"
+    | "invalid-spec";
+
+export type Severity = "error" | "warning";
+
+// Structured form of a problem, as collected by the recovering parsers
+export type Diagnostic = {
+    code: DiagnosticCode;
+    message: string;
+    severity: Severity;
+    span?: SourceSpan;
+};
+
+export class SourceError extends Error {
+    public readonly span: SourceSpan | undefined;
+    public readonly code: DiagnosticCode;
+
+    constructor(message: string, span?: SourceSpan, code: DiagnosticCode = "unexpected-token") {
+        super(message);
+        this.name = "SourceError";
+        this.span = span;
+        this.code = code;
+    }
+
+    public toDiagnostic(): Diagnostic {
+        const diagnostic: Diagnostic = { code: this.code, message: this.message, severity: "error" };
+        if (this.span) diagnostic.span = this.span;
+        return diagnostic;
+    }
+}
+
+export function countErrors(diagnostics: Diagnostic[]): number {
+    return diagnostics.filter(d => d.severity === "error").length;
+}
+
+// Render a diagnostic as
+//   file:line:col: error: message
+//      3 | M1: IF x1 = 0 THEN GOTO M2
+//        |                         ^^
+export function formatDiagnostic(diagnostic: Diagnostic, source: string, fileName: string): string {
+    const { span, severity, message } = diagnostic;
+    if (!span) return `${fileName}: ${severity}: ${message}`;
+
+    const { line, column } = span.start;
+    const header = `${fileName}:${line}:${column}: ${severity}: ${message}`;
+
+    const lineText = source.split(/\r?\n/)[line - 1];
+    if (lineText === undefined) return header;
+
+    // Underline to the end of the span, or to the end of the line for multi-line spans
+    const endColumn = span.end.line === line ? span.end.column : lineText.length + 1;
+    const width = Math.max(1, endColumn - column);
+
+    const gutter = String(line).length;
+    const pad = " ".repeat(gutter);
+    const prefix = lineText.slice(0, column - 1).replace(/[^\t]/g, " ");
+
+    return [
+        header,
+        ` ${String(line)} | ${lineText}`,
+        ` ${pad} | ${prefix}${"^".repeat(width)}`
+    ].join("\n");
+}
@@ -0,0 +1,122 @@
+// Differential verification: run a program and its translation on many inputs (every tuple in a
+// small box, plus random larger values) and report the first input on which they disagree.
+import type { TaggedProgram } from "./parse";
+import type { ExecutionOutcome } from "./execution";
+import { walkProgram } from "./walk";
+import { programStats } from "./overhead";
+import { makeRandom } from "./random";
+import { runProgram } from "./run";
+import { translatedLimits } from "./translate";
+
+export type DifferentialOptions = {
+    box?: number;            // exhaustive values 0..box per input (default 10)
+    maxExhaustive?: number;  // shrink the box when there would be more tuples than this (default 2,000)
+    samples?: number;        // random tuples on top of the box (default 100)
+    randomMax?: number;      // largest random value (default 100)
+    seed?: number;
+    maxSteps?: number;       // budget per run of the original (default 100,000); translations get TRANSLATED_STEP_FACTOR times as much
+    fixed?: Map<string, bigint>; // inputs that keep one value
+};
+
+export type Counterexample = {
+    inputs: Map<string, bigint>;
+    original: ExecutionOutcome;
+    translated: ExecutionOutcome;
+};
+
+export type DifferentialResult = {
+    inputs: string[];        // generated inputs (fixed ones excluded)
+    box: number;             // box actually used
+    exhaustive: number;      // tuples from the box
+    random: number;          // random tuples
+    tested: number;          // runs compared before stopping
+    inconclusive: number;    // both runs exceeded the budget
+    counterexample?: Counterexample;
+};
+
+// Input variables of a program: every variable other than x0 that is read before it is
+// assigned, or that gets a constant in the leading block of defaults (`x1 := 0; x2 := 0;`).
+export function inferInputs(target: TaggedProgram): string[] {
+    const inputs = new Set<string>();
+    const assigned = new Set<string>();
+
+    // Leading constant assignments are the program's defaults for its inputs
+    const top = target.language === "goto"
+        ? target.program.instructions.map((instr) => instr.statement)
+        : target.program.statements;
+    for (const statement of top) {
+        if (statement.type !== "assignment" || statement.value.type !== "number") break;
+        if (statement.variable !== "x0") inputs.add(statement.variable);
+        assigned.add(statement.variable);
+    }
+
+    walkProgram(target, {
+        read: (name) => {
+            if (!assigned.has(name) && name !== "x0") inputs.add(name);
+        },
+        assign: (name) => assigned.add(name),
+    });
+    return Array.from(inputs).sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+}
+
+// Same final values on the given variables, or both runs stopped by the budget
+export function agree(original: ExecutionOutcome, translated: ExecutionOutcome, variables: Iterable<string>): boolean {
+    if (original.status !== translated.status) return false;
+    if (original.status === "budgetExceeded") return true;
+    for (const name of variables) {
+        if ((original.variables.get(name) ?? 0n) !== (translated.variables.get(name) ?? 0n)) return false;
+    }
+    return true;
+}
+
+export function differentialVerify(original: TaggedProgram, translated: TaggedProgram, options: DifferentialOptions = {}): DifferentialResult {
+    const fixed = options.fixed ?? new Map<string, bigint>();
+    const inputs = inferInputs(original).filter((name) => !fixed.has(name));
+    const maxExhaustive = options.maxExhaustive ?? 2000;
+    let box = options.box ?? 10;
+    while (box > 0 && (box + 1) ** inputs.length > maxExhaustive) box--;
+    const samples = inputs.length > 0 ? options.samples ?? 100 : 0;
+
+    // Translations compare on the original program's variables; fresh helper variables are theirs alone
+    const compared = programStats(original).variables;
+    const maxSteps = options.maxSteps ?? 100_000;
+    const result: DifferentialResult = {
+        inputs, box, exhaustive: (box + 1) ** inputs.length, random: samples, tested: 0, inconclusive: 0,
+    };
+
+    const check = (tuple: Map<string, bigint>): boolean => {
+        const originalOutcome = runProgram(original, { maxSteps, initialVariables: tuple });
+        const translatedOutcome = runProgram(translated, { ...translatedLimits({ maxSteps }), initialVariables: tuple });
+        result.tested++;
+        if (!agree(originalOutcome, translatedOutcome, compared)) {
+            result.counterexample = { inputs: tuple, original: originalOutcome, translated: translatedOutcome };
+            return false;
+        }
+        if (originalOutcome.status === "budgetExceeded") result.inconclusive++;
+        return true;
+    };
+
+    // Every tuple in 0..box, smallest first, so a counterexample found here is a small one
+    const values = new Array<number>(inputs.length).fill(0);
+    for (let n = 0; n < result.exhaustive; n++) {
+        const tuple = new Map(fixed);
+        inputs.forEach((name, i) => tuple.set(name, BigInt(values[i]!)));
+        if (!check(tuple)) return result;
+        for (let i = inputs.length - 1; i >= 0; i--) {
+            if (values[i]! < box) {
+                values[i]!++;
+                break;
+            }
+            values[i] = 0;
+        }
+    }
+
+    const random = makeRandom(options.seed ?? 1);
+    const randomMax = options.randomMax ?? 100;
+    for (let n = 0; n < samples; n++) {
+        const tuple = new Map(fixed);
+        for (const name of inputs) tuple.set(name, BigInt(random.int(randomMax)));
+        if (!check(tuple)) return result;
+    }
+    return result;
+}
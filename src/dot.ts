@@ -0,0 +1,153 @@
+// Graphviz DOT for `lang graph`: a program's control-flow graph (see cfg.ts) or its AST.
+// `lang graph countdown.goto | dot -Tsvg > countdown.svg`
+import type { Program as LoopProgram, Statement as LoopStatement } from "./loop/ast";
+import type { Program as WhileProgram, Statement as WhileStatement, Expression, Condition } from "./while/ast";
+import type { Program as GotoProgram } from "./goto/ast";
+import type { ControlFlowGraph } from "./cfg";
+import { buildGotoCfg, buildWhileCfg, dominates, dominatorTree, naturalLoops, outgoing, reachableBlocks } from "./cfg";
+import type { TaggedProgram } from "./parse";
+import { printCondition, printExpression, printGotoInstruction } from "./printer";
+
+// The control-flow graph: a box per basic block (GOTO blocks named by their label), "true" and
+// "false" edges out of every test, and dashed back edges, the jumps that close a loop.
+// Blocks that can never run are grey; empty blocks (where branches meet, after a loop) are dots.
+export function cfgToDot(target: Extract<TaggedProgram, { language: "goto" | "while" }>): string {
+    const cfg = target.language === "goto" ? buildGotoCfg(target.program) : buildWhileCfg(target.program);
+    const blockLines = target.language === "goto" ? gotoBlockLines(cfg, target.program) : whileBlockLines(cfg);
+    const idom = dominatorTree(cfg);
+    const reachable = reachableBlocks(cfg);
+
+    const lines = ["digraph cfg {", '  node [shape=box, fontname="monospace"];'];
+    for (const block of cfg.blocks) {
+        const attributes = block.id === cfg.entry ? ['label="start"', "shape=oval"]
+            : block.id === cfg.exit ? ['label="end"', "shape=oval"]
+            : blockLines[block.id]!.length === 0 ? ['label=""', "shape=point"]
+            : [`label="${blockLines[block.id]!.map((line) => `${escape(line)}\\l`).join("")}"`];
+        if (!reachable.has(block.id)) attributes.push("color=gray", "fontcolor=gray");
+        lines.push(`  b${block.id} [${attributes.join(", ")}];`);
+    }
+    for (const edge of cfg.edges) {
+        const attributes: string[] = [];
+        if (edge.kind !== "always") attributes.push(`label="${edge.kind}"`);
+        if (reachable.has(edge.from) && dominates(idom, edge.to, edge.from)) attributes.push("style=dashed");
+        lines.push(`  b${edge.from} -> b${edge.to}${attributes.length > 0 ? ` [${attributes.join(", ")}]` : ""};`);
+    }
+    lines.push("}");
+    return lines.join("\n") + "\n";
+}
+
+// The instructions of each block, as written
+function gotoBlockLines(cfg: ControlFlowGraph, program: GotoProgram): string[][] {
+    return cfg.blocks.map((block) => (block.instructions ?? []).map((index) => printGotoInstruction(program.instructions[index]!)));
+}
+
+// The assignments of each block, then the test that ends it: a loop's test is the only block
+// with a back edge into it
+function whileBlockLines(cfg: ControlFlowGraph): string[][] {
+    const headers = new Set(naturalLoops(cfg).map((loop) => loop.header));
+    return cfg.blocks.map((block) => {
+        const lines = block.statements.map((stmt) => `${stmt.variable} := ${printExpression(stmt.value)};`);
+        const condition = outgoing(cfg, block.id)[0]?.condition;
+        if (condition) lines.push(`${headers.has(block.id) ? "WHILE" : "IF"} ${printCondition(condition)}`);
+        return lines;
+    });
+}
+
+// The AST as a tree: statements as boxes, conditions as diamonds, expressions as ovals. Edges
+// into loop and IF bodies are labelled; children are drawn in program order.
+export function astToDot(target: TaggedProgram): string {
+    const lines = ["digraph ast {", "  ordering=out;", '  node [fontname="monospace"];'];
+    let count = 0;
+    const node = (label: string, shape: "box" | "diamond" | "oval"): string => {
+        const id = `n${count++}`;
+        lines.push(`  ${id} [label="${escape(label)}", shape=${shape}];`);
+        return id;
+    };
+    const edge = (from: string, to: string, label?: string): void => {
+        lines.push(`  ${from} -> ${to}${label ? ` [label="${label}"]` : ""};`);
+    };
+
+    const expression = (expr: Expression): string => {
+        switch (expr.type) {
+            case "number": return node(String(expr.value), "oval");
+            case "variable": return node(expr.name, "oval");
+            case "binaryOp": {
+                const id = node(expr.operator, "oval");
+                edge(id, expression(expr.left));
+                edge(id, expression(expr.right));
+                return id;
+            }
+        }
+    };
+    const condition = (cond: Condition): string => {
+        const id = node(cond.operator, "diamond");
+        edge(id, expression(cond.left));
+        edge(id, expression(cond.right));
+        return id;
+    };
+    const statements = (parent: string, body: Array<LoopStatement | WhileStatement>, label?: string): void => {
+        for (const stmt of body) edge(parent, statement(stmt), label);
+    };
+    const statement = (stmt: LoopStatement | WhileStatement): string => {
+        switch (stmt.type) {
+            case "assignment": {
+                const id = node(`${stmt.variable} :=`, "box");
+                edge(id, expression(stmt.value));
+                return id;
+            }
+            case "loop": {
+                const id = node(`LOOP ${stmt.counter}`, "box");
+                statements(id, stmt.body, "body");
+                return id;
+            }
+            case "while": {
+                const id = node("WHILE", "box");
+                edge(id, condition(stmt.condition), "condition");
+                statements(id, stmt.body, "body");
+                return id;
+            }
+            case "if": {
+                const id = node("IF", "box");
+                edge(id, condition(stmt.condition), "condition");
+                statements(id, stmt.thenBody, "then");
+                if (stmt.elseBody) statements(id, stmt.elseBody, "else");
+                return id;
+            }
+        }
+    };
+
+    const root = node(`${target.language.toUpperCase()} program`, "box");
+    if (target.language === "goto") {
+        for (const instr of target.program.instructions) {
+            const stmt = instr.statement;
+            const prefix = instr.label ? `${instr.label}: ` : "";
+            let id: string;
+            switch (stmt.type) {
+                case "assignment":
+                    id = node(`${prefix}${stmt.variable} :=`, "box");
+                    edge(id, expression(stmt.value));
+                    break;
+                case "goto":
+                    id = node(`${prefix}GOTO ${stmt.label}`, "box");
+                    break;
+                case "if_goto":
+                    id = node(`${prefix}IF ... GOTO ${stmt.label}`, "box");
+                    edge(id, condition(stmt.condition), "condition");
+                    break;
+                case "halt":
+                    id = node(`${prefix}HALT`, "box");
+                    break;
+            }
+            edge(root, id);
+        }
+    } else {
+        const program: LoopProgram | WhileProgram = target.program;
+        statements(root, program.statements);
+    }
+    lines.push("}");
+    return lines.join("\n") + "\n";
+}
+
+function escape(text: string): string {
+    return text.replace(/\\/g, "\\\\").replace(/"/g, '\\"');
+}
@@ -0,0 +1,35 @@
+// Expressions and conditions over a variable store: the arithmetic of all three interpreters,
+// and of the debugger's watch conditions. Unset variables are 0.
+import type { Expression, BinaryExpression, Condition } from "./while/ast";
+
+export function evaluateExpression(expression: Expression, variables: ReadonlyMap<string, bigint>): bigint {
+    switch (expression.type) {
+        case "number": return expression.value;
+        case "variable": return variables.get(expression.name) ?? 0n;
+        case "binaryOp": return evaluateBinaryExpression(expression, variables);
+    }
+}
+
+function evaluateBinaryExpression(expression: BinaryExpression, variables: ReadonlyMap<string, bigint>): bigint {
+    const left = evaluateExpression(expression.left, variables);
+    const right = evaluateExpression(expression.right, variables);
+
+    switch (expression.operator) {
+        case "+": return left + right;
+        case "-": return left > right ? left - right : 0n; // monus: no negative values
+    }
+}
+
+export function evaluateCondition(condition: Condition, variables: ReadonlyMap<string, bigint>): boolean {
+    const left = evaluateExpression(condition.left, variables);
+    const right = evaluateExpression(condition.right, variables);
+
+    switch (condition.operator) {
+        case "=": return left === right;
+        case "!=": return left !== right;
+        case "<": return left < right;
+        case ">": return left > right;
+        case "<=": return left <= right;
+        case ">=": return left >= right;
+    }
+}
@@ -0,0 +1,149 @@
+// Events emitted by the three interpreters while a program runs, and the console trace behind -verbose
+import type { Statement as LoopStatement } from "./loop/ast";
+import type { Statement as WhileStatement, Condition as WhileCondition } from "./while/ast";
+import type { Instruction, Condition as GotoCondition } from "./goto/ast";
+import type { SourceSpan } from "./span";
+import type { Language } from "./parse";
+import type { EvalOptions } from "./execution";
+import { printCondition, printGotoInstruction, printLoopStatement, printWhileStatement } from "./printer";
+
+export type StatementNode = LoopStatement | WhileStatement | Instruction;
+
+export type ExecutionEvent =
+    | {
+        // About to execute a statement (GOTO: an instruction); `variables` is the live state
+        type: "statement";
+        language: Language;
+        node: StatementNode;
+        step: number;     // steps executed before this one
+        pc?: number;      // GOTO: index of the instruction
+        span: SourceSpan | undefined;
+        variables: Map<string, bigint>;
+    }
+    | {
+        type: "assignment";
+        variable: string;
+        oldValue: bigint;
+        newValue: bigint;
+        span: SourceSpan | undefined;
+    }
+    | {
+        // First assignment to an input variable, skipped to keep the value given on the CLI
+        type: "skippedAssignment";
+        variable: string;
+        value: bigint;
+        span: SourceSpan | undefined;
+    }
+    | {
+        // LOOP: the counter is read once, before the first iteration
+        type: "loopEntered";
+        counter: string;
+        iterations: bigint;
+        span: SourceSpan | undefined;
+    }
+    | {
+        type: "loopIteration";
+        iteration: bigint;  // 1-based
+        total?: bigint;     // LOOP only; WHILE does not know in advance
+        span: SourceSpan | undefined;
+    }
+    | {
+        // WHILE and IF conditions, GOTO `IF ... THEN GOTO`
+        type: "condition";
+        condition: WhileCondition | GotoCondition;
+        result: boolean;
+        span: SourceSpan | undefined;
+    }
+    | {
+        type: "jump";
+        label: string;
+        from: number;  // pc of the jump
+        to: number;    // pc of the target
+        span: SourceSpan | undefined;
+    }
+    | {
+        // Normal end of the program: HALT, or control ran off the end
+        type: "halt";
+        variables: Map<string, bigint>;
+        steps: number;
+    };
+
+export type ExecutionObserver = (event: ExecutionEvent) => void;
+
+// Observers for a run: the ones passed in, plus the console trace when `verbose` is set
+export function observersFor(options: EvalOptions): ExecutionObserver[] {
+    const observers = [...(options.observers ?? [])];
+    if (options.verbose) observers.push(consoleTracer());
+    return observers;
+}
+
+// One-line description of a statement: its source line, or its first printed line when there is no source
+export function statementText(language: Language, node: StatementNode, sourceLines: string[]): string {
+    const line = node.span ? sourceLines[node.span.start.line - 1] : undefined;
+    if (line !== undefined) return line.trim();
+    if ("statement" in node) return printGotoInstruction(node);
+    const printed = language === "loop"
+        ? printLoopStatement(node as LoopStatement)
+        : printWhileStatement(node as WhileStatement);
+    return printed.split("\n")[0] ?? "";
+}
+
+// Step-by-step trace on stdout (the -verbose output)
+export function consoleTracer(log: (line: string) => void = console.log): ExecutionObserver {
+    let language: Language = "loop";
+    let previous: ExecutionEvent | undefined;
+
+    return (event) => {
+        switch (event.type) {
+            case "statement":
+                language = event.language;
+                if (language === "goto") {
+                    log(`  [${event.pc}] ${printGotoInstruction(event.node as Instruction)}`);
+                }
+                break;
+            case "assignment":
+                if (language === "goto") log(`       -> ${event.variable} = ${event.newValue}`);
+                else log(`  ${event.variable} := ${event.newValue} (was ${event.oldValue})`);
+                break;
+            case "skippedAssignment":
+                if (language === "goto") log(`       -> skipped (using CLI value)`);
+                else log(`  [skip] ${event.variable} := ${event.value} (using CLI value)`);
+                break;
+            case "loopEntered":
+                log(`  LOOP ${event.counter} (${event.iterations} iterations)`);
+                break;
+            case "loopIteration":
+                log(event.total !== undefined
+                    ? `    iteration ${event.iteration}/${event.total}`
+                    : `    iteration ${event.iteration}`);
+                break;
+            case "condition": {
+                if (language === "goto") {
+                    if (!event.result) log(`       -> false, continue`);
+                    break;
+                }
+                const node = previous?.type === "statement" && "type" in previous.node ? previous.node : undefined;
+                if (node?.type === "while") {
+                    // Only the first test is shown; later ones show up as iterations
+                    log(`  WHILE ${printCondition(event.condition)}`);
+                    if (!event.result) log(`    (condition false, skipped)`);
+                } else if (node?.type === "if") {
+                    log(`  IF ${printCondition(event.condition)} -> ${event.result}`);
+                }
+                break;
+            }
+            case "jump": {
+                const conditional = previous?.type === "condition";
+                log(`       -> ${conditional ? "true, " : ""}jump to ${event.label} (pc=${event.to})`);
+                break;
+            }
+            case "halt":
+                if (language === "goto" && previous?.type === "statement" && "statement" in previous.node
+                    && previous.node.statement.type === "halt") {
+                    log(`       -> HALT`);
+                }
+                break;
+        }
+        previous = event;
+    };
+}
@@ -0,0 +1,98 @@
+// Options, step budgets and results shared by the three interpreters
+import type { SourceSpan } from "./span";
+import { SourceError } from "./diagnostics";
+import type { ExecutionObserver } from "./events";
+
+export const DEFAULT_MAX_STEPS = 1_000_000;
+
+export type EvalOptions = {
+    initialVariables?: Map<string, bigint>;
+    verbose?: boolean;  // adds the console trace to `observers`
+    observers?: ExecutionObserver[];
+    maxSteps?: number;  // executed statements (default 1,000,000)
+    timeoutMs?: number; // wall-clock limit
+    maxValue?: bigint;  // largest value a variable may be assigned
+};
+
+export type Budget = "steps" | "time" | "value";
+
+export type ExecutionOutcome =
+    | {
+        status: "halted";
+        variables: Map<string, bigint>;
+        steps: number;
+    }
+    | {
+        status: "budgetExceeded";
+        budget: Budget;
+        message: string;
+        variables: Map<string, bigint>; // state when execution was stopped
+        steps: number;
+        span?: SourceSpan;              // statement that would have run next
+    };
+
+// Thrown inside an interpreter to unwind to run(); never escapes it
+export class BudgetExceeded extends Error {
+    public readonly budget: Budget;
+    public readonly span: SourceSpan | undefined;
+
+    constructor(budget: Budget, message: string, span?: SourceSpan) {
+        super(message);
+        this.budget = budget;
+        this.span = span;
+    }
+}
+
+// Counts executed statements the same way in every language:
+//   assignment, IF, GOTO instruction: one step each
+//   WHILE: one step per condition test (iterations + 1)
+//   LOOP:  one step on entry and one per iteration
+export class ExecutionBudget {
+    public steps: number;
+    private readonly maxSteps: number;
+    private readonly deadline: number | undefined;
+    private readonly timeoutMs: number | undefined;
+    private readonly maxValue: bigint | undefined;
+
+    constructor(options?: EvalOptions) {
+        this.steps = 0;
+        this.maxSteps = options?.maxSteps ?? DEFAULT_MAX_STEPS;
+        this.timeoutMs = options?.timeoutMs;
+        this.deadline = options?.timeoutMs !== undefined ? Date.now() + options.timeoutMs : undefined;
+        this.maxValue = options?.maxValue;
+    }
+
+    public step(span?: SourceSpan): void {
+        if (this.steps >= this.maxSteps) {
+            throw new BudgetExceeded("steps", `Infinite loop detected (safety limit: ${this.maxSteps.toLocaleString("en-US")} steps)`, span);
+        }
+        // Reading the clock is comparatively slow, so only look every 1024 steps
+        if (this.deadline !== undefined && (this.steps & 1023) === 0 && Date.now() > this.deadline) {
+            throw new BudgetExceeded("time", `Time limit exceeded (${this.timeoutMs} ms)`, span);
+        }
+        this.steps++;
+    }
+
+    public checkValue(value: bigint, span?: SourceSpan): void {
+        if (this.maxValue !== undefined && value > this.maxValue) {
+            throw new BudgetExceeded("value", `Value limit exceeded (${value} > ${this.maxValue})`, span);
+        }
+    }
+}
+
+export function exceededOutcome(error: BudgetExceeded, variables: Map<string, bigint>, steps: number): ExecutionOutcome {
+    const outcome: ExecutionOutcome = { status: "budgetExceeded", budget: error.budget, message: error.message, variables, steps };
+    if (error.span) outcome.span = error.span;
+    return outcome;
+}
+
+// Split the legacy `evaluate(program, map)` form from the options object
+export function normalizeOptions(options?: EvalOptions | Map<string, bigint>): EvalOptions {
+    if (options instanceof Map) return { initialVariables: options };
+    return options ?? {};
+}
+
+// The error evaluate() throws when run() stops on a budget
+export function budgetError(outcome: Extract<ExecutionOutcome, { status: "budgetExceeded" }>): SourceError {
+    return new SourceError(outcome.message, outcome.span, outcome.budget === "steps" ? "infinite-loop" : "budget-exceeded");
+}
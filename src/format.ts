@@ -0,0 +1,48 @@
+// Source formatter behind `lang fmt`: parse, then print in canonical layout
+import { parseLoop, parseWhile, parseGoto } from "./parse";
+import type { Language } from "./parse";
+import type { Diagnostic } from "./diagnostics";
+import { countErrors } from "./diagnostics";
+import { printLoopProgram, printWhileProgram, printGotoProgram } from "./printer";
+import type { PrintOptions } from "./printer";
+
+export type FormatResult = {
+    code: string;              // formatted code, or the input unchanged if it has errors
+    diagnostics: Diagnostic[];
+};
+
+export function formatSource(code: string, language: Language, options?: PrintOptions): FormatResult {
+    let printed: string;
+    let diagnostics: Diagnostic[];
+    let empty: boolean;
+
+    switch (language) {
+        case "loop": {
+            const result = parseLoop(code);
+            ({ diagnostics } = result);
+            empty = result.program.statements.length === 0;
+            printed = printLoopProgram(result.program, options);
+            break;
+        }
+        case "while": {
+            const result = parseWhile(code);
+            ({ diagnostics } = result);
+            empty = result.program.statements.length === 0;
+            printed = printWhileProgram(result.program, options);
+            break;
+        }
+        case "goto": {
+            const result = parseGoto(code);
+            ({ diagnostics } = result);
+            empty = result.program.instructions.length === 0;
+            printed = printGotoProgram(result.program, options);
+            break;
+        }
+    }
+
+    // Never rewrite a broken program; an empty one may still hold comments
+    if (countErrors(diagnostics) > 0 || empty) {
+        return { code, diagnostics };
+    }
+    return { code: printed + "\n", diagnostics };
+}
@@ -0,0 +1,210 @@
+// Translator fuzzing: random programs pushed through every translation path, run on random inputs
+// and compared with their translations. A failing program is shrunk to a minimal one.
+import type { Statement as LoopStatement, Expression } from "./loop/ast";
+import type { Statement as WhileStatement } from "./while/ast";
+import type { Instruction } from "./goto/ast";
+import type { Language, TaggedProgram } from "./parse";
+import type { ExecutionOutcome } from "./execution";
+import { TRANSLATION_PATHS, TRANSLATED_STEP_FACTOR, translateProgram } from "./translate";
+import type { TranslationPath } from "./translate";
+import { generateProgram } from "./generate";
+import type { GeneratorOptions } from "./generate";
+import { agree } from "./differential";
+import { programStats } from "./overhead";
+import { makeRandom } from "./random";
+import { runProgram } from "./run";
+
+export type FuzzOptions = GeneratorOptions & {
+    runs?: number;              // programs per source language (default 100)
+    seed?: number;
+    inputs?: number;            // random inputs per program (default 5)
+    maxSteps?: number;          // budget for the original program (default 10,000)
+    maxShrinkAttempts?: number; // candidate programs tried while shrinking (default 2,000)
+    paths?: readonly TranslationPath[];
+    translate?: (source: TaggedProgram, to: Language) => TaggedProgram;
+};
+
+export type FuzzFailure = {
+    path: TranslationPath;
+    generated: TaggedProgram;   // the program as generated
+    program: TaggedProgram;     // shrunk
+    inputs: Map<string, bigint>;
+    original?: ExecutionOutcome;
+    translated?: ExecutionOutcome;
+    error?: string;             // translating or running threw
+};
+
+export type FuzzResult = {
+    programs: number;
+    checks: Map<TranslationPath, number>; // program/input pairs compared per path
+    inconclusive: number;                 // checks skipped: the original exceeded its budget
+    failure?: FuzzFailure;
+};
+
+type Check = { path: TranslationPath; inputs: Map<string, bigint>; maxSteps: number; translate: NonNullable<FuzzOptions["translate"]> };
+type Verdict = Omit<FuzzFailure, "path" | "generated" | "program" | "inputs">;
+
+// Stops at the first failure; every path gets the same programs for its source language
+export function fuzz(options: FuzzOptions = {}): FuzzResult {
+    const paths = options.paths ?? TRANSLATION_PATHS;
+    const runs = options.runs ?? 100;
+    const random = makeRandom(options.seed ?? 1);
+    const maxConstant = options.maxConstant ?? 5;
+    const result: FuzzResult = { programs: 0, checks: new Map(paths.map((path) => [path, 0])), inconclusive: 0 };
+    const languages = Array.from(new Set(paths.map((path) => path.from)));
+
+    for (let run = 0; run < runs; run++) {
+        for (const language of languages) {
+            const program = generateProgram(language, random, options);
+            result.programs++;
+            const variables = Array.from(programStats(program).variables).filter((name) => name !== "x0");
+            const tuples = Array.from({ length: options.inputs ?? 5 }, () =>
+                new Map(variables.filter(() => random.int(1) === 0).map((name) => [name, BigInt(random.int(maxConstant))])));
+
+            for (const path of paths.filter((path) => path.from === language)) {
+                for (const inputs of tuples) {
+                    const check: Check = { path, inputs, maxSteps: options.maxSteps ?? 10_000, translate: options.translate ?? translateProgram };
+                    result.checks.set(path, result.checks.get(path)! + 1);
+                    const verdict = checkProgram(program, check);
+                    if (verdict === "inconclusive") {
+                        result.inconclusive++;
+                    } else if (verdict) {
+                        const failing = (candidate: TaggedProgram) => typeof checkProgram(candidate, check) === "object";
+                        const shrunk = shrink(program, failing, options.maxShrinkAttempts);
+                        const shrunkVerdict = checkProgram(shrunk, check);
+                        result.failure = { path, generated: program, program: shrunk, inputs, ...(typeof shrunkVerdict === "object" ? shrunkVerdict : verdict) };
+                        return result;
+                    }
+                }
+            }
+        }
+    }
+    return result;
+}
+
+// undefined when the program and its translation agree on the program's own variables;
+// "inconclusive" when the original program does not halt within the budget
+function checkProgram(program: TaggedProgram, check: Check): Verdict | "inconclusive" | undefined {
+    try {
+        const translated = check.translate(program, check.path.to);
+        const originalOutcome = runProgram(program, { maxSteps: check.maxSteps, initialVariables: check.inputs });
+        if (originalOutcome.status === "budgetExceeded") return "inconclusive";
+        const translatedOutcome = runProgram(translated, { maxSteps: check.maxSteps * TRANSLATED_STEP_FACTOR, initialVariables: check.inputs });
+        if (agree(originalOutcome, translatedOutcome, programStats(program).variables)) return undefined;
+        return { original: originalOutcome, translated: translatedOutcome };
+    } catch (error: any) {
+        return { error: error.message };
+    }
+}
+
+// Greedy shrinking: take the first smaller candidate that still fails, until none does
+export function shrink(program: TaggedProgram, fails: (candidate: TaggedProgram) => boolean, maxAttempts = 2000): TaggedProgram {
+    let current = program;
+    let attempts = 0;
+    let progress = true;
+    while (progress && attempts < maxAttempts) {
+        progress = false;
+        for (const candidate of candidates(current)) {
+            if (++attempts > maxAttempts) break;
+            if (fails(candidate)) {
+                current = candidate;
+                progress = true;
+                break;
+            }
+        }
+    }
+    return current;
+}
+
+function* candidates(target: TaggedProgram): Generator<TaggedProgram> {
+    switch (target.language) {
+        case "loop":
+            for (const statements of shrinkBlock(target.program.statements)) {
+                yield { language: "loop", program: { ...target.program, statements: statements as LoopStatement[] } };
+            }
+            break;
+        case "while":
+            for (const statements of shrinkBlock(target.program.statements)) {
+                yield { language: "while", program: { ...target.program, statements: statements as WhileStatement[] } };
+            }
+            break;
+        case "goto":
+            for (const instructions of shrinkInstructions(target.program.instructions)) {
+                yield { language: "goto", program: { ...target.program, instructions } };
+            }
+            break;
+    }
+}
+
+type Block = Array<LoopStatement | WhileStatement>;
+
+// Smaller versions of a block: a statement removed, a compound statement replaced by its body,
+// a nested block shrunk, or an assigned expression simplified
+function* shrinkBlock(block: Block): Generator<Block> {
+    for (let i = 0; i < block.length; i++) {
+        const before = block.slice(0, i);
+        const after = block.slice(i + 1);
+        const statement = block[i]!;
+        yield [...before, ...after];
+
+        switch (statement.type) {
+            case "assignment":
+                for (const value of simpler(statement.value)) yield [...before, { ...statement, value }, ...after];
+                break;
+            case "loop":
+            case "while":
+                yield [...before, ...statement.body, ...after];
+                for (const body of shrinkBlock(statement.body)) yield [...before, { ...statement, body } as LoopStatement | WhileStatement, ...after];
+                break;
+            case "if":
+                yield [...before, ...statement.thenBody, ...after];
+                if (statement.elseBody) {
+                    yield [...before, ...statement.elseBody, ...after];
+                    const { elseBody: _dropped, ...withoutElse } = statement;
+                    yield [...before, withoutElse, ...after];
+                    for (const elseBody of shrinkBlock(statement.elseBody)) yield [...before, { ...statement, elseBody: elseBody as WhileStatement[] }, ...after];
+                }
+                for (const thenBody of shrinkBlock(statement.thenBody)) yield [...before, { ...statement, thenBody: thenBody as WhileStatement[] }, ...after];
+                break;
+        }
+    }
+}
+
+// Instructions are removed only where every jump keeps a target: a removed label moves to the
+// next unlabelled instruction, and a label is dropped only when nothing jumps to it
+function* shrinkInstructions(instructions: Instruction[]): Generator<Instruction[]> {
+    const referenced = new Set<string>();
+    for (const { statement } of instructions) {
+        if (statement.type === "goto" || statement.type === "if_goto") referenced.add(statement.label);
+    }
+    for (let i = 0; i < instructions.length; i++) {
+        const before = instructions.slice(0, i);
+        const after = instructions.slice(i + 1);
+        const instr = instructions[i]!;
+
+        if (!instr.label || !referenced.has(instr.label)) {
+            yield [...before, ...after];
+        } else if (after[0] && !after[0].label) {
+            yield [...before, { ...after[0], label: instr.label }, ...after.slice(1)];
+        }
+        if (instr.label && !referenced.has(instr.label)) {
+            yield [...before, { statement: instr.statement }, ...after];
+        }
+
+        const statement = instr.statement;
+        if (statement.type === "assignment") {
+            for (const value of simpler(statement.value)) yield [...before, { ...instr, statement: { ...statement, value } }, ...after];
+        } else if (statement.type === "if_goto") {
+            yield [...before, { ...instr, statement: { type: "goto", label: statement.label } }, ...after];
+        }
+    }
+}
+
+function* simpler(expression: Expression): Generator<Expression> {
+    if (expression.type === "binaryOp") {
+        yield expression.left;
+        yield expression.right;
+    } else if (expression.type === "variable" || expression.value !== 0n) {
+        yield { type: "number", value: 0n };
+    }
+}
@@ -0,0 +1,191 @@
+// Random well-formed LOOP, WHILE and GOTO programs, for fuzzing the translators.
+// Programs only use shapes the concrete syntax can express, so every one can be printed and parsed back.
+import type { Program as LoopProgram, Statement as LoopStatement } from "./loop/ast";
+import type { Program as WhileProgram, Statement as WhileStatement, Expression, Condition } from "./while/ast";
+import type { Program as GotoProgram, Instruction, Statement as GotoStatement } from "./goto/ast";
+import type { Language, TaggedProgram } from "./parse";
+import type { Random } from "./random";
+
+export type GeneratorOptions = {
+    depth?: number;         // deepest nesting of LOOP/WHILE/IF (default 2)
+    variables?: number;     // program variables x0..x(n-1) (default 3)
+    maxConstant?: number;   // constants 0..maxConstant (default 5)
+    statements?: number;    // at most this many statements per block (default 4)
+    terminating?: boolean;  // WHILE/GOTO: only counted loops, so every run ends (default true)
+};
+
+type Settings = Required<GeneratorOptions>;
+
+const OPERATORS = ["=", "!=", "<", ">", "<=", ">="] as const;
+
+function settings(options: GeneratorOptions): Settings {
+    return {
+        depth: options.depth ?? 2,
+        variables: Math.max(1, options.variables ?? 3),
+        maxConstant: options.maxConstant ?? 5,
+        statements: Math.max(1, options.statements ?? 4),
+        terminating: options.terminating ?? true,
+    };
+}
+
+export function generateProgram(language: Language, random: Random, options: GeneratorOptions = {}): TaggedProgram {
+    switch (language) {
+        case "loop": return { language, program: generateLoop(random, options) };
+        case "while": return { language, program: generateWhile(random, options) };
+        case "goto": return { language, program: generateGoto(random, options) };
+    }
+}
+
+// Counted loops use variables above the program's own (x(n), x(n+1), ... by nesting level),
+// which the rest of the program never assigns
+function counter(s: Settings, level: number): string {
+    return `x${s.variables + level}`;
+}
+
+function variable(random: Random, s: Settings): string {
+    return `x${random.int(s.variables - 1)}`;
+}
+
+function primary(random: Random, s: Settings): Expression {
+    return random.int(1) === 0
+        ? { type: "number", value: BigInt(random.int(s.maxConstant)) }
+        : { type: "variable", name: variable(random, s) };
+}
+
+function expression(random: Random, s: Settings): Expression {
+    if (random.int(2) > 0) return primary(random, s);
+    return { type: "binaryOp", operator: random.pick(["+", "-"] as const), left: primary(random, s), right: primary(random, s) };
+}
+
+function condition(random: Random, s: Settings): Condition {
+    return { type: "condition", operator: random.pick(OPERATORS), left: expression(random, s), right: expression(random, s) };
+}
+
+function blockLength(random: Random, s: Settings): number {
+    return 1 + random.int(s.statements - 1);
+}
+
+export function generateLoop(random: Random, options: GeneratorOptions = {}): LoopProgram {
+    const s = settings(options);
+    const block = (depth: number): LoopStatement[] => {
+        const statements: LoopStatement[] = [];
+        for (let i = blockLength(random, s); i > 0; i--) {
+            if (depth < s.depth && random.int(3) === 0) {
+                statements.push({ type: "loop", counter: variable(random, s), body: block(depth + 1) });
+            } else {
+                statements.push({ type: "assignment", variable: variable(random, s), value: expression(random, s) });
+            }
+        }
+        return statements;
+    };
+    return { type: "program", statements: block(0) };
+}
+
+export function generateWhile(random: Random, options: GeneratorOptions = {}): WhileProgram {
+    const s = settings(options);
+    const block = (depth: number): WhileStatement[] => {
+        const statements: WhileStatement[] = [];
+        for (let i = blockLength(random, s); i > 0; i--) {
+            const kind = depth < s.depth ? random.int(5) : 0;
+            if (kind === 1) {
+                if (s.terminating) {
+                    // c := e; WHILE c != 0 DO body; c := c - 1; END
+                    const c = counter(s, depth);
+                    statements.push({ type: "assignment", variable: c, value: primary(random, s) });
+                    statements.push({
+                        type: "while",
+                        condition: { type: "condition", operator: "!=", left: { type: "variable", name: c }, right: { type: "number", value: 0n } },
+                        body: [
+                            ...block(depth + 1),
+                            { type: "assignment", variable: c, value: { type: "binaryOp", operator: "-", left: { type: "variable", name: c }, right: { type: "number", value: 1n } } },
+                        ],
+                    });
+                } else {
+                    statements.push({ type: "while", condition: condition(random, s), body: block(depth + 1) });
+                }
+            } else if (kind === 2) {
+                const ifStatement: WhileStatement = { type: "if", condition: condition(random, s), thenBody: block(depth + 1) };
+                if (random.int(1) === 0) ifStatement.elseBody = block(depth + 1);
+                statements.push(ifStatement);
+            } else {
+                statements.push({ type: "assignment", variable: variable(random, s), value: expression(random, s) });
+            }
+        }
+        return statements;
+    };
+    return { type: "program", statements: block(0) };
+}
+
+export function generateGoto(random: Random, options: GeneratorOptions = {}): GotoProgram {
+    const s = settings(options);
+    const instructions: Instruction[] = [];
+    let labelCount = 0;
+    let pending: string | undefined; // label waiting for the next instruction
+
+    const freshLabel = () => `M${++labelCount}`;
+    const emit = (statement: GotoStatement) => {
+        const instr: Instruction = { statement };
+        if (pending) instr.label = pending;
+        pending = undefined;
+        instructions.push(instr);
+    };
+    const place = (label: string) => {
+        // Two labels on one spot: give the first one a do-nothing instruction
+        if (pending) emit({ type: "assignment", variable: "x0", value: { type: "variable", name: "x0" } });
+        pending = label;
+    };
+    const assignment = () => emit({ type: "assignment", variable: variable(random, s), value: expression(random, s) });
+
+    if (!s.terminating) {
+        // Any jumps at all, forwards and backwards
+        const labels: string[] = [];
+        const count = blockLength(random, s) * (s.depth + 1);
+        const kinds = Array.from({ length: count }, () => random.int(3));
+        for (let i = 0; i < count; i++) {
+            if (random.int(2) === 0) labels.push(`M${i + 1}`);
+        }
+        const target = () => labels.length > 0 ? random.pick(labels) : undefined;
+        for (let i = 0; i < count; i++) {
+            if (labels.includes(`M${i + 1}`)) pending = `M${i + 1}`;
+            const label = target();
+            if (kinds[i] === 1 && label) emit({ type: "goto", label });
+            else if (kinds[i] === 2 && label) emit({ type: "if_goto", condition: condition(random, s), label });
+            else assignment();
+        }
+        emit({ type: "halt" });
+        return { type: "program", instructions };
+    }
+
+    // Forward jumps over blocks, and counted loops as the only backward jumps
+    const block = (depth: number) => {
+        for (let i = blockLength(random, s); i > 0; i--) {
+            const kind = depth < s.depth ? random.int(4) : 0;
+            if (kind === 1) {
+                const skip = freshLabel();
+                emit({ type: "if_goto", condition: condition(random, s), label: skip });
+                block(depth + 1);
+                place(skip);
+            } else if (kind === 2) {
+                const c = counter(s, depth);
+                const head = freshLabel();
+                const end = freshLabel();
+                emit({ type: "assignment", variable: c, value: primary(random, s) });
+                place(head);
+                emit({
+                    type: "if_goto",
+                    condition: { type: "condition", operator: "=", left: { type: "variable", name: c }, right: { type: "number", value: 0n } },
+                    label: end,
+                });
+                block(depth + 1);
+                emit({ type: "assignment", variable: c, value: { type: "binaryOp", operator: "-", left: { type: "variable", name: c }, right: { type: "number", value: 1n } } });
+                emit({ type: "goto", label: head });
+                place(end);
+            } else {
+                assignment();
+            }
+        }
+    };
+    block(0);
+    emit({ type: "halt" });
+    return { type: "program", instructions };
+}
@@ -1,16 +1,22 @@
+import type { SourceSpan } from "../span";
+import type { NodeComments } from "../comments";
+
 // Reuse common types
 export type NumberLiteral = {
     type: "number";
-    value: number;
+    span?: SourceSpan;
+    value: bigint; // natural number, arbitrary precision
 };
 
 export type Variable = {
     type: "variable";
+    span?: SourceSpan;
     name: string;
 };
 
 export type BinaryExpression = {
     type: "binaryOp";
+    span?: SourceSpan;
     operator: "+" | "-";
     left: Expression;
     right: Expression;
@@ -20,6 +26,7 @@ export type Expression = NumberLiteral | Variable | BinaryExpression;
 
 export type Condition = {
     type: "condition";
+    span?: SourceSpan;
     operator: "=" | "!=" | "<" | ">" | "<=" | ">=";
     left: Expression;
     right: Expression;
@@ -28,23 +35,27 @@ export type Condition = {
 // GOTO specific statements
 export type Assignment = {
     type: "assignment";
+    span?: SourceSpan;
     variable: string;
     value: Expression;
 };
 
 export type Goto = {
     type: "goto";
+    span?: SourceSpan;
     label: string;
 };
 
 export type IfGoto = {
     type: "if_goto";
+    span?: SourceSpan;
     condition: Condition;
     label: string;
 };
 
 export type Halt = {
     type: "halt";
+    span?: SourceSpan;
 };
 
 export type Statement = Assignment | Goto | IfGoto | Halt;
@@ -52,9 +63,12 @@ export type Statement = Assignment | Goto | IfGoto | Halt;
 export type Instruction = {
     label?: string; // Optional label (e.g., "M1")
     statement: Statement;
+    span?: SourceSpan; // covers the label too
+    comments?: NodeComments;
 };
 
 export type Program = {
     type: "program";
+    span?: SourceSpan;
     instructions: Instruction[];
 };
@@ -1,45 +1,51 @@
-import type { Program, Instruction, Statement, Expression, Condition, BinaryExpression } from "./ast";
-
-type EvalOptions = {
-    initialVariables?: Map<string, number>;
-    verbose?: boolean;
-};
+import type { Program, Instruction } from "./ast";
+import type { SourceSpan } from "../span";
+import { SourceError } from "../diagnostics";
+import type { EvalOptions, ExecutionOutcome } from "../execution";
+import type { ExecutionEvent, ExecutionObserver } from "../events";
+import { observersFor } from "../events";
+import { ExecutionBudget, BudgetExceeded, normalizeOptions, budgetError, exceededOutcome } from "../execution";
+import { evaluateCondition, evaluateExpression } from "../evaluate";
 
 class GotoInterpreter {
-    private variables: Map<string, number>;
+    private variables: Map<string, bigint>;
     private labelMap: Map<string, number>;
     private lockedVariables: Set<string>;
-    private verbose: boolean;
+    private observers: ExecutionObserver[];
+    private budget: ExecutionBudget;
 
     constructor() {
         this.variables = new Map();
         this.labelMap = new Map();
         this.lockedVariables = new Set();
-        this.verbose = false;
+        this.observers = [];
+        this.budget = new ExecutionBudget();
     }
 
-    public setVariable(name: string, value: number): void {
+    public setVariable(name: string, value: bigint): void {
         this.variables.set(name, value);
     }
 
-    public evaluate(program: Program, options?: EvalOptions | Map<string, number>): Map<string, number> {
+    public getVariables(): Map<string, bigint> {
+        return new Map(this.variables);
+    }
+
+    // Run the program; throws if a budget is exceeded
+    public evaluate(program: Program, options?: EvalOptions | Map<string, bigint>): Map<string, bigint> {
+        const outcome = this.run(program, options);
+        if (outcome.status === "budgetExceeded") throw budgetError(outcome);
+        return outcome.variables;
+    }
+
+    // Run the program and report how it ended instead of throwing on budgets
+    public run(program: Program, options?: EvalOptions | Map<string, bigint>): ExecutionOutcome {
         this.variables.clear();
-        this.labelMap.clear();
         this.lockedVariables.clear();
 
-        let initialVariables: Map<string, number> | undefined;
-        if (options instanceof Map) {
-            initialVariables = options;
-            this.verbose = false;
-        } else if (options) {
-            initialVariables = options.initialVariables;
-            this.verbose = options.verbose ?? false;
-        } else {
-            this.verbose = false;
-        }
+        const evalOptions = normalizeOptions(options);
 
-        if (initialVariables) {
-            for (const [name, value] of initialVariables) {
+        if (evalOptions.initialVariables) {
+            for (const [name, value] of evalOptions.initialVariables) {
                 this.variables.set(name, value);
                 if (name !== "x0") {
                     this.lockedVariables.add(name);
@@ -47,147 +53,106 @@ class GotoInterpreter {
             }
         }
 
+        return this.start(program, evalOptions);
+    }
+
+    // Run the program against the variables left by earlier runs and setVariable() instead of
+    // starting empty, as the REPL does. Nothing is locked: initial variables are plain assignments.
+    public execute(program: Program, options?: EvalOptions): ExecutionOutcome {
+        const evalOptions = normalizeOptions(options);
+        this.lockedVariables.clear();
+        for (const [name, value] of evalOptions.initialVariables ?? []) {
+            this.variables.set(name, value);
+        }
+        return this.start(program, evalOptions);
+    }
+
+    private start(program: Program, evalOptions: EvalOptions): ExecutionOutcome {
+        this.observers = observersFor(evalOptions);
+        this.budget = new ExecutionBudget(evalOptions);
+        this.labelMap.clear();
         program.instructions.forEach((instr, index) => {
             if (instr.label) {
                 if (this.labelMap.has(instr.label)) {
-                    throw new Error(`Duplicate label: ${instr.label}`);
+                    throw new SourceError(`Duplicate label: ${instr.label}`, instr.span, "duplicate-label");
                 }
                 this.labelMap.set(instr.label, index);
             }
         });
 
+        try {
+            this.executeInstructions(program.instructions);
+        } catch (error) {
+            if (!(error instanceof BudgetExceeded)) throw error;
+            return exceededOutcome(error, this.variables, this.budget.steps);
+        }
+        this.emit({ type: "halt", variables: this.variables, steps: this.budget.steps });
+        return { status: "halted", variables: this.variables, steps: this.budget.steps };
+    }
+
+    private emit(event: ExecutionEvent): void {
+        for (const observer of this.observers) observer(event);
+    }
+
+    // Run from the first instruction until HALT or until control falls off the end
+    private executeInstructions(instructions: Instruction[]): void {
         let pc = 0;
-        const instructions = program.instructions;
-        let safetyCounter = 0;
 
         while (pc < instructions.length) {
-            if (safetyCounter++ > 1_000_000) throw new Error("Infinite loop detected (safety limit: 1,000,000 steps)");
-
             const instr = instructions[pc];
             if (!instr) break;
 
-            if (this.verbose) {
-                const label = instr.label ? `${instr.label}: ` : "";
-                console.log(`  [${pc}] ${label}${this.stmtToString(instr.statement)}`);
-            }
+            this.budget.step(instr.span);
+            this.emit({ type: "statement", language: "goto", node: instr, step: this.budget.steps - 1, pc, span: instr.span, variables: this.variables });
 
             let jumped = false;
 
             switch (instr.statement.type) {
                 case "assignment": {
-                    const value = this.evaluateExpression(instr.statement.value);
-                    if (this.lockedVariables.has(instr.statement.variable)) {
-                        this.lockedVariables.delete(instr.statement.variable);
-                        if (this.verbose) {
-                            console.log(`       -> skipped (using CLI value)`);
-                        }
+                    const { variable } = instr.statement;
+                    const value = evaluateExpression(instr.statement.value, this.variables);
+                    if (this.lockedVariables.has(variable)) {
+                        this.lockedVariables.delete(variable);
+                        this.emit({ type: "skippedAssignment", variable, value, span: instr.span });
                     } else {
-                        this.variables.set(instr.statement.variable, value);
-                        if (this.verbose) {
-                            console.log(`       -> ${instr.statement.variable} = ${value}`);
-                        }
+                        this.budget.checkValue(value, instr.span);
+                        const oldValue = this.variables.get(variable) ?? 0n;
+                        this.variables.set(variable, value);
+                        this.emit({ type: "assignment", variable, oldValue, newValue: value, span: instr.span });
                     }
                     break;
                 }
-                case "goto":
-                    pc = this.getLabelIndex(instr.statement.label);
+                case "goto": {
+                    const target = this.getLabelIndex(instr.statement.label, instr.statement.span);
+                    this.emit({ type: "jump", label: instr.statement.label, from: pc, to: target, span: instr.span });
+                    pc = target;
                     jumped = true;
-                    if (this.verbose) {
-                        console.log(`       -> jump to ${instr.statement.label} (pc=${pc})`);
-                    }
                     break;
+                }
                 case "if_goto": {
-                    const condTrue = this.evaluateCondition(instr.statement.condition);
+                    const condTrue = evaluateCondition(instr.statement.condition, this.variables);
+                    this.emit({ type: "condition", condition: instr.statement.condition, result: condTrue, span: instr.statement.condition.span });
                     if (condTrue) {
-                        pc = this.getLabelIndex(instr.statement.label);
+                        const target = this.getLabelIndex(instr.statement.label, instr.statement.span);
+                        this.emit({ type: "jump", label: instr.statement.label, from: pc, to: target, span: instr.span });
+                        pc = target;
                         jumped = true;
-                        if (this.verbose) {
-                            console.log(`       -> true, jump to ${instr.statement.label} (pc=${pc})`);
-                        }
-                    } else {
-                        if (this.verbose) {
-                            console.log(`       -> false, continue`);
-                        }
                     }
                     break;
                 }
                 case "halt":
-                    if (this.verbose) {
-                        console.log(`       -> HALT`);
-                    }
-                    return this.variables;
+                    return;
             }
 
             if (!jumped) pc++;
         }
-
-        return this.variables;
-    }
-
-    private stmtToString(stmt: Statement): string {
-        switch (stmt.type) {
-            case "assignment":
-                return `${stmt.variable} := ${this.exprToString(stmt.value)}`;
-            case "goto":
-                return `GOTO ${stmt.label}`;
-            case "if_goto":
-                return `IF ${this.condToString(stmt.condition)} THEN GOTO ${stmt.label}`;
-            case "halt":
-                return "HALT";
-        }
-    }
-
-    private condToString(cond: Condition): string {
-        return `${this.exprToString(cond.left)} ${cond.operator} ${this.exprToString(cond.right)}`;
-    }
-
-    private exprToString(expr: Expression): string {
-        switch (expr.type) {
-            case "number": return String(expr.value);
-            case "variable": return expr.name;
-            case "binaryOp": return `(${this.exprToString(expr.left)} ${expr.operator} ${this.exprToString(expr.right)})`;
-        }
     }
 
-    private getLabelIndex(label: string): number {
+    private getLabelIndex(label: string, span?: SourceSpan): number {
         const index = this.labelMap.get(label);
-        if (index === undefined) throw new Error(`Undefined label: ${label}`);
+        if (index === undefined) throw new SourceError(`Undefined label: ${label}`, span, "undefined-label");
         return index;
     }
-
-    private evaluateExpression(expression: Expression): number {
-        switch (expression.type) {
-            case "number": return expression.value;
-            case "variable": return this.getVariableValue(expression.name);
-            case "binaryOp": return this.evaluateBinaryExpression(expression);
-        }
-    }
-
-    private evaluateBinaryExpression(expression: BinaryExpression): number {
-        const left = this.evaluateExpression(expression.left);
-        const right = this.evaluateExpression(expression.right);
-        switch (expression.operator) {
-            case "+": return left + right;
-            case "-": return Math.max(0, left - right); // monus: no negative values
-        }
-    }
-
-    private evaluateCondition(condition: Condition): boolean {
-        const left = this.evaluateExpression(condition.left);
-        const right = this.evaluateExpression(condition.right);
-        switch (condition.operator) {
-            case "=": return left === right;
-            case "!=": return left !== right;
-            case "<": return left < right;
-            case ">": return left > right;
-            case "<=": return left <= right;
-            case ">=": return left >= right;
-        }
-    }
-
-    private getVariableValue(name: string): number {
-        return this.variables.get(name) || 0;
-    }
 }
 
 export = GotoInterpreter;
@@ -1,9 +1,15 @@
 import type { Token, TokenType } from "../token";
 import type { Program, Instruction, Statement, Expression, Condition, Assignment, Goto, IfGoto, Halt } from "./ast";
+import type { SourceSpan } from "../span";
+import { joinSpans, pointSpan } from "../span";
+import type { Diagnostic } from "../diagnostics";
+import { SourceError } from "../diagnostics";
+import { attachComments } from "../comments";
 
 class GotoParser {
   private tokens: Token[];
   private position: number;
+  private diagnostics: Diagnostic[] | undefined; // set while recovering
   
   constructor(tokens: Token[]) {
     this.tokens = tokens;
@@ -17,7 +23,7 @@ class GotoParser {
   private advance(): Token {
     const token = this.peek();
     if (!token) {
-      throw new Error("Unexpected end of input");
+      throw new SourceError("Unexpected end of input", this.currentSpan(), "unexpected-end");
     }
     this.position++;
     return token;
@@ -26,66 +32,118 @@ class GotoParser {
   private expect(type: TokenType, errorMessage?: string): Token {
     const token = this.peek();
     if (!token || token.type !== type) {
-      throw new Error(
-        errorMessage || `Expected ${type} but got ${token?.type || "end of input"}`
+      throw new SourceError(
+        errorMessage || `Expected ${type} but got ${token?.type || "end of input"}`,
+        this.currentSpan(),
+        token ? "unexpected-token" : "unexpected-end"
       );
     }
     return this.advance();
   }
+
+  // Span of the next token, or a zero-width span after the last one at end of input
+  private currentSpan(): SourceSpan {
+    const token = this.peek();
+    if (token) return token.span;
+    const last = this.tokens[this.tokens.length - 1];
+    return pointSpan(last ? last.span.end : { line: 1, column: 1, offset: 0 });
+  }
+
+  // Span from `start` up to the end of the most recently consumed token
+  private spanFrom(start: SourceSpan): SourceSpan {
+    const previous = this.tokens[this.position - 1];
+    return previous ? joinSpans(start, previous.span) : start;
+  }
+
+  // Throws in normal mode; records and carries on while recovering
+  private report(error: SourceError): void {
+    if (!this.diagnostics) throw error;
+    this.diagnostics.push(error.toDiagnostic());
+  }
+
+  // Parse one instruction into `instructions`. While recovering, a failed instruction is
+  // reported and the parser skips ahead past the next `;` or up to the next `END`.
+  private parseInstructionInto(instructions: Instruction[]): void {
+    const start = this.position;
+    try {
+      instructions.push(this.parseInstruction());
+    } catch (error) {
+      if (!this.diagnostics || !(error instanceof SourceError)) throw error;
+      this.diagnostics.push(error.toDiagnostic());
+      this.synchronize(start);
+    }
+  }
+
+  private synchronize(start: number): void {
+    while (true) {
+      const token = this.peek();
+      if (!token) return;
+      if (token.type === "keyword" && token.value === "END") {
+        // A stray END where a instruction should start is skipped, so we always make progress
+        if (this.position === start) this.position++;
+        return;
+      }
+      this.position++;
+      if (token.type === "semicolon") return;
+    }
+  }
+
   
   // Reuse expression parsing
   private parsePrimary(): Expression {
     const token = this.peek();
-    if (!token) throw new Error("Expected expression");
+    if (!token) throw new SourceError("Expected expression", this.currentSpan(), "unexpected-end");
     
     if (token.type === "number") {
       this.advance();
-      return { type: "number", value: parseInt(token.value) };
+      return { type: "number", value: BigInt(token.value), span: token.span };
     }
     if (token.type === "identifier") {
       this.advance();
-      return { type: "variable", name: token.value };
+      return { type: "variable", name: token.value, span: token.span };
     }
-    throw new Error(`Expected number or identifier but got ${token.type}`);
+    throw new SourceError(`Expected number or identifier but got ${token.type}`, token.span);
   }
   
   private parseExpression(): Expression {
+    const start = this.currentSpan();
     const left = this.parsePrimary();
     const token = this.peek();
     if (token && token.type === "operator") {
       const operator = this.advance().value as "+" | "-";
       const right = this.parsePrimary();
-      return { type: "binaryOp", operator, left, right };
+      return { type: "binaryOp", operator, left, right, span: this.spanFrom(start) };
     }
     return left;
   }
   
   private parseCondition(): Condition {
+      const start = this.currentSpan();
       const left = this.parseExpression();
       const token = this.peek();
-      if (!token || token.type !== "comparison") throw new Error("Expected comparison operator");
+      if (!token || token.type !== "comparison") throw new SourceError("Expected comparison operator", this.currentSpan());
       const operator = this.advance().value as any;
       const right = this.parseExpression();
-      return { type: "condition", operator, left, right };
+      return { type: "condition", operator, left, right, span: this.spanFrom(start) };
   }
 
   // Parse specific statements
-  private parseAssignment(targetVar: string): Assignment {
+  private parseAssignment(targetToken: Token): Assignment {
       this.expect("assign");
       const value = this.parseExpression();
       this.expect("semicolon");
-      return { type: "assignment", variable: targetVar, value };
+      return { type: "assignment", variable: targetToken.value, value, span: this.spanFrom(targetToken.span) };
   }
 
   private parseGoto(): Goto {
-      this.expect("keyword"); // GOTO
+      const gotoToken = this.expect("keyword"); // GOTO
       const label = this.expect("identifier").value;
       this.expect("semicolon");
-      return { type: "goto", label };
+      return { type: "goto", label, span: this.spanFrom(gotoToken.span) };
   }
 
   private parseIfGoto(): IfGoto {
-      this.expect("keyword"); // IF
+      const ifToken = this.expect("keyword"); // IF
       const condition = this.parseCondition();
       
       const nextToken = this.expect("keyword");
@@ -93,26 +151,28 @@ class GotoParser {
       // Support strict script syntax: IF ... THEN GOTO ...
       if (nextToken.value === "THEN") {
           const gotoToken = this.expect("keyword");
-          if (gotoToken.value !== "GOTO") throw new Error("Expected GOTO after THEN");
+          if (gotoToken.value !== "GOTO") throw new SourceError("Expected GOTO after THEN", gotoToken.span);
       } 
       // Support relaxed syntax: IF ... GOTO ...
       else if (nextToken.value !== "GOTO") {
-          throw new Error("Expected GOTO or THEN after IF condition");
+          throw new SourceError("Expected GOTO or THEN after IF condition", nextToken.span);
       }
       
       const label = this.expect("identifier").value;
       this.expect("semicolon");
-      return { type: "if_goto", condition, label };
+      return { type: "if_goto", condition, label, span: this.spanFrom(ifToken.span) };
   }
 
   private parseHalt(): Halt {
-      this.expect("keyword"); // HALT
+      const haltToken = this.expect("keyword"); // HALT
       this.expect("semicolon");
-      return { type: "halt" };
+      return { type: "halt", span: this.spanFrom(haltToken.span) };
   }
 
   // Parse one line/instruction
   private parseInstruction(): Instruction {
+      const startIndex = this.position;
+      const start = this.currentSpan();
       let label: string | undefined;
       let token = this.peek();
       
@@ -127,12 +187,12 @@ class GotoParser {
           }
       }
 
-      if (!token) throw new Error("Unexpected end of input inside instruction");
+      if (!token) throw new SourceError("Unexpected end of input inside instruction", this.currentSpan(), "unexpected-end");
 
       let statement: Statement;
 
       if (token.type === "identifier") {
-           statement = this.parseAssignment(this.advance().value);
+           statement = this.parseAssignment(this.advance());
       } else if (token.type === "keyword") {
           if (token.value === "GOTO") {
               statement = this.parseGoto();
@@ -141,25 +201,58 @@ class GotoParser {
           } else if (token.value === "HALT") {
               statement = this.parseHalt();
           } else {
-              throw new Error(`Unexpected keyword: ${token.value}`);
+              throw new SourceError(`Unexpected keyword: ${token.value}`, token.span);
           }
       } else {
-          throw new Error(`Unexpected token at start of statement: ${token.type}`);
+          throw new SourceError(`Unexpected token at start of statement: ${token.type}`, token.span);
       }
 
-      if (label !== undefined) {
-        return { label, statement };
-      }
-      return { statement };
+      const span = this.spanFrom(start);
+      const instruction: Instruction = label !== undefined ? { label, statement, span } : { statement, span };
+      attachComments(instruction, "comments", this.tokens, startIndex, this.position);
+      return instruction;
   }
 
   public parse(): Program {
+    const start = this.currentSpan();
     const instructions: Instruction[] = [];
     while (this.peek()) {
-      instructions.push(this.parseInstruction());
+      this.parseInstructionInto(instructions);
+    }
+    return { type: "program", instructions, span: this.spanFrom(start) };
+  }
+
+  // Like parse(), but recovers from syntax errors: returns a partial AST
+  // together with every problem found instead of throwing on the first one.
+  // Also reports duplicate labels and jumps to undefined labels.
+  public parseWithDiagnostics(): { program: Program; diagnostics: Diagnostic[] } {
+    const diagnostics: Diagnostic[] = [];
+    this.diagnostics = diagnostics;
+    try {
+      const program = this.parse();
+      this.checkLabels(program);
+      return { program, diagnostics };
+    } finally {
+      this.diagnostics = undefined;
+    }
+  }
+
+  private checkLabels(program: Program): void {
+    const labels = new Set<string>();
+    for (const instr of program.instructions) {
+      if (instr.label === undefined) continue;
+      if (labels.has(instr.label)) {
+        this.report(new SourceError(`Duplicate label: ${instr.label}`, instr.span, "duplicate-label"));
+      }
+      labels.add(instr.label);
+    }
+    for (const instr of program.instructions) {
+      const stmt = instr.statement;
+      if ((stmt.type === "goto" || stmt.type === "if_goto") && !labels.has(stmt.label)) {
+        this.report(new SourceError(`Undefined label: ${stmt.label}`, stmt.span, "undefined-label"));
+      }
     }
-    return { type: "program", instructions };
   }
 }
 
-export = GotoParser;
\ No newline at end of file
+export = GotoParser;
@@ -0,0 +1,154 @@
+// Autograding: a student submission is run against a reference program (in any of the three
+// languages) on generated inputs and scored by the share of inputs where their results match.
+// The report is plain JSON for a learning management system; values are decimal strings.
+import type { Language, TaggedProgram } from "./parse";
+import { checkSource, parseProgram } from "./parse";
+import { countErrors } from "./diagnostics";
+import type { ExecutionOutcome } from "./execution";
+import { inferInputs } from "./differential";
+import { makeRandom } from "./random";
+import { runProgram } from "./run";
+
+export type GradeOptions = {
+    inputs?: string[];      // input variables (default: inferred from the reference)
+    outputs?: string[];     // variables compared (default: x0)
+    from?: number;          // input domain from..to (default 0..5)
+    to?: number;
+    maxTuples?: number;     // every tuple of the domain up to this many, else random ones (default 1,000)
+    seed?: number;
+    maxSteps?: number;      // budget per run (default 10,000)
+    language?: Language;    // the submission must be written in this language
+};
+
+export type GradeSource = { code: string; language: Language };
+
+export type GradeFailure = {
+    inputs: Record<string, string>;
+    reason: "wrong-result" | "budget-exceeded" | "error";
+    expected: Record<string, string>;
+    actual?: Record<string, string>;
+    message?: string;
+};
+
+export type GradeSyntaxError = { line?: number; column?: number; message: string };
+
+export type GradeReport = {
+    score: number;           // passed / graded, 0..1 (0 when the submission does not parse)
+    passed: number;
+    graded: number;          // inputs on which the reference halted
+    skipped: number;         // inputs on which the reference exceeded the budget
+    language: Language;
+    inputs: string[];
+    outputs: string[];
+    domain: { from: number; to: number; tuples: "all" | "random" };
+    budgetOverruns: number;  // inputs where only the submission exceeded the budget
+    syntaxErrors: GradeSyntaxError[];
+    restriction?: string;    // why the submission's language is not accepted
+    failures: GradeFailure[]; // the first MAX_FAILURES
+};
+
+const MAX_FAILURES = 20;
+
+export function grade(reference: GradeSource, submission: GradeSource, options: GradeOptions = {}): GradeReport {
+    const parsedReference = parseProgram(reference.code, reference.language);
+    if (countErrors(parsedReference.diagnostics) > 0) {
+        throw new Error(`The reference program has syntax errors: ${parsedReference.diagnostics[0]!.message}`);
+    }
+
+    const inputs = options.inputs ?? inferInputs(parsedReference.program);
+    const from = options.from ?? 0;
+    const to = options.to ?? 5;
+    const maxTuples = options.maxTuples ?? 1000;
+    const all = (to - from + 1) ** inputs.length <= maxTuples;
+    const report: GradeReport = {
+        score: 0,
+        passed: 0,
+        graded: 0,
+        skipped: 0,
+        language: submission.language,
+        inputs,
+        outputs: options.outputs ?? ["x0"],
+        domain: { from, to, tuples: all ? "all" : "random" },
+        budgetOverruns: 0,
+        syntaxErrors: [],
+        failures: [],
+    };
+
+    // Parsed with the parser for the submission's own language, so a `.loop` file using WHILE fails here
+    if (options.language && options.language !== submission.language) {
+        report.restriction = `The submission must be a ${options.language.toUpperCase()} program, not ${submission.language.toUpperCase()}.`;
+        return report;
+    }
+    const diagnostics = checkSource(submission.code, submission.language).filter((d) => d.severity === "error");
+    if (diagnostics.length > 0) {
+        report.syntaxErrors = diagnostics.map((d) => d.span
+            ? { line: d.span.start.line, column: d.span.start.column, message: d.message }
+            : { message: d.message });
+        return report;
+    }
+    const parsedSubmission = parseProgram(submission.code, submission.language).program;
+
+    for (const tuple of inputTuples(inputs, from, to, all, maxTuples, options.seed ?? 1)) {
+        gradeInput(parsedReference.program, parsedSubmission, tuple, options.maxSteps ?? 10_000, report);
+    }
+    report.score = report.graded > 0 ? Math.round((report.passed / report.graded) * 1000) / 1000 : 0;
+    return report;
+}
+
+function gradeInput(reference: TaggedProgram, submission: TaggedProgram, tuple: Map<string, bigint>, maxSteps: number, report: GradeReport): void {
+    const expected = runProgram(reference, { maxSteps, initialVariables: tuple });
+    if (expected.status === "budgetExceeded") {
+        report.skipped++;
+        return;
+    }
+    report.graded++;
+
+    const values = (outcome: ExecutionOutcome) =>
+        Object.fromEntries(report.outputs.map((name) => [name, String(outcome.variables.get(name) ?? 0n)]));
+    const failure = (entry: Omit<GradeFailure, "inputs" | "expected">) => {
+        if (report.failures.length < MAX_FAILURES) {
+            report.failures.push({ inputs: Object.fromEntries(Array.from(tuple, ([name, value]) => [name, String(value)])), expected: values(expected), ...entry });
+        }
+    };
+
+    let actual: ExecutionOutcome;
+    try {
+        actual = runProgram(submission, { maxSteps, initialVariables: tuple });
+    } catch (error: any) {
+        failure({ reason: "error", message: error.message });
+        return;
+    }
+    if (actual.status === "budgetExceeded") {
+        report.budgetOverruns++;
+        failure({ reason: "budget-exceeded", message: actual.message });
+        return;
+    }
+    if (report.outputs.some((name) => (actual.variables.get(name) ?? 0n) !== (expected.variables.get(name) ?? 0n))) {
+        failure({ reason: "wrong-result", actual: values(actual) });
+        return;
+    }
+    report.passed++;
+}
+
+// Every tuple of from..to, or `maxTuples` random ones when there are too many
+function* inputTuples(inputs: string[], from: number, to: number, all: boolean, maxTuples: number, seed: number): Generator<Map<string, bigint>> {
+    if (!all) {
+        const random = makeRandom(seed);
+        for (let n = 0; n < maxTuples; n++) {
+            yield new Map(inputs.map((name) => [name, BigInt(from + random.int(to - from))]));
+        }
+        return;
+    }
+    const values = new Array<number>(inputs.length).fill(from);
+    const count = (to - from + 1) ** inputs.length;
+    for (let n = 0; n < count; n++) {
+        yield new Map(inputs.map((name, i) => [name, BigInt(values[i]!)]));
+        for (let i = inputs.length - 1; i >= 0; i--) {
+            if (values[i]! < to) {
+                values[i]!++;
+                break;
+            }
+            values[i] = from;
+        }
+    }
+}
@@ -1,5 +1,8 @@
 // Tokenizes source code into tokens for parsing
-import type { Token } from "./token";
+import type { Token, TokenType, Trivia } from "./token";
+import type { SourcePosition } from "./span";
+import type { Diagnostic } from "./diagnostics";
+import { SourceError } from "./diagnostics";
 
 const isWhitespace = (char: string) => /\s/.test(char);
 const isLetter = (char: string) => /[a-zA-Z]/.test(char);
@@ -8,10 +11,17 @@ const isDigit = (char: string) => /[0-9]/.test(char);
 class Lexer {
     private input: string;
     private position: number;
+    private line: number;
+    private column: number;
+    private pendingTrivia: Trivia[];
+    private diagnostics: Diagnostic[] | undefined; // set while recovering
 
     constructor(input: string) {
         this.input = input;
         this.position = 0;
+        this.line = 1;
+        this.column = 1;
+        this.pendingTrivia = [];
     }
 
     private peek(offset: number = 0): string {
@@ -20,7 +30,27 @@ class Lexer {
     }
 
     private advance(): string {
-        return this.input.charAt(this.position++);
+        const char = this.input.charAt(this.position++);
+        if (char === "\n") {
+            this.line++;
+            this.column = 1;
+        } else {
+            this.column++;
+        }
+        return char;
+    }
+
+    private currentPosition(): SourcePosition {
+        return { line: this.line, column: this.column, offset: this.position };
+    }
+
+    private makeToken(type: TokenType, value: string, start: SourcePosition): Token {
+        const token: Token = { type, value, span: { start, end: this.currentPosition() } };
+        if (this.pendingTrivia.length > 0) {
+            token.leadingTrivia = this.pendingTrivia;
+            this.pendingTrivia = [];
+        }
+        return token;
     }
 
     private skipWhitespace(): void {
@@ -29,15 +59,64 @@ class Lexer {
         }
     }
 
+    private isCommentStart(): boolean {
+        const char = this.peek();
+        return char === '#' || (char === '/' && (this.peek(1) === '/' || this.peek(1) === '*'));
+    }
+
+    // Line comments: // ... or # ... up to the end of the line
+    // Block comments: /* ... */ (not nested)
+    private readComment(): Trivia {
+        const start = this.currentPosition();
+        let text = "";
+
+        if (this.peek() === '/' && this.peek(1) === '*') {
+            text += this.advance() + this.advance();
+            while (!(this.peek() === '*' && this.peek(1) === '/')) {
+                if (this.position >= this.input.length) {
+                    this.report(new SourceError("Unterminated block comment", { start, end: this.currentPosition() }, "unterminated-comment"));
+                    return { kind: "blockComment", text, span: { start, end: this.currentPosition() } };
+                }
+                text += this.advance();
+            }
+            text += this.advance() + this.advance();
+            return { kind: "blockComment", text, span: { start, end: this.currentPosition() } };
+        }
+
+        while (this.position < this.input.length && this.peek() !== '\n' && this.peek() !== '\r') {
+            text += this.advance();
+        }
+        return { kind: "lineComment", text, span: { start, end: this.currentPosition() } };
+    }
+
+    // Skip whitespace and comments. A comment starting on the line where the previous
+    // token ends trails that token; any other comment leads the next token.
+    private skipTrivia(tokens: Token[]): void {
+        while (true) {
+            this.skipWhitespace();
+            if (!this.isCommentStart()) return;
+
+            const comment = this.readComment();
+            const previous = tokens[tokens.length - 1];
+            if (previous && previous.span.end.line === comment.span.start.line && this.pendingTrivia.length === 0) {
+                (previous.trailingTrivia ??= []).push(comment);
+            } else {
+                this.pendingTrivia.push(comment);
+            }
+        }
+    }
+
     private readNumber(): Token {
+        const start = this.currentPosition();
         let value = "";
         while (this.position < this.input.length && isDigit(this.peek())) {
             value += this.advance();
         }
-        return { type: "number", value };
+        return this.makeToken("number", value, start);
     }
 
     private readIdentifier(): Token {
+        const start = this.currentPosition();
         let value = "";
         while (this.position < this.input.length && (isLetter(this.peek()) || isDigit(this.peek()))) {
             value += this.advance();
@@ -45,19 +124,37 @@ class Lexer {
         
         const keywords = ["LOOP", "DO", "END", "WHILE", "IF", "THEN", "ELSE", "GOTO", "HALT"];
         if (keywords.includes(value)) {
-            return { type: "keyword", value };
+            return this.makeToken("keyword", value, start);
+        }
+        return this.makeToken("identifier", value, start);
+    }
+
+    // Throws in normal mode; records and carries on while recovering
+    private report(error: SourceError): void {
+        if (!this.diagnostics) throw error;
+        this.diagnostics.push(error.toDiagnostic());
+    }
+
+    // Like tokenize(), but skips bad characters and collects them as diagnostics
+    public tokenizeWithDiagnostics(): { tokens: Token[]; diagnostics: Diagnostic[] } {
+        const diagnostics: Diagnostic[] = [];
+        this.diagnostics = diagnostics;
+        try {
+            return { tokens: this.tokenize(), diagnostics };
+        } finally {
+            this.diagnostics = undefined;
         }
-        return { type: "identifier", value };
     }
 
     public tokenize(): Token[] {
         const tokens: Token[] = [];
 
         while (this.position < this.input.length) {
-            this.skipWhitespace();
+            this.skipTrivia(tokens);
             if (this.position >= this.input.length) break;
 
             const char = this.peek();
+            const start = this.currentPosition();
 
             if (isLetter(char)) {
                 tokens.push(this.readIdentifier());
@@ -67,48 +164,57 @@ class Lexer {
             }
             else if (char === ':' && this.peek(1) === '=') {
                 this.advance(); this.advance();
-                tokens.push({ type: "assign", value: ":=" });
+                tokens.push(this.makeToken("assign", ":=", start));
             }
             else if (char === ':') {
                 this.advance();
-                tokens.push({ type: "colon", value: ":" });
+                tokens.push(this.makeToken("colon", ":", start));
             }
             else if (char === '+' || char === '-') {
-                tokens.push({ type: "operator", value: this.advance() });
+                const operator = this.advance();
+                tokens.push(this.makeToken("operator", operator, start));
             }
             else if (char === '!' && this.peek(1) === '=') {
                 this.advance(); this.advance();
-                tokens.push({ type: "comparison", value: "!=" });
+                tokens.push(this.makeToken("comparison", "!=", start));
             }
             else if (char === '<' && this.peek(1) === '=') {
                 this.advance(); this.advance();
-                tokens.push({ type: "comparison", value: "<=" });
+                tokens.push(this.makeToken("comparison", "<=", start));
             }
             else if (char === '>' && this.peek(1) === '=') {
                 this.advance(); this.advance();
-                tokens.push({ type: "comparison", value: ">=" });
+                tokens.push(this.makeToken("comparison", ">=", start));
             }
             else if (char === '=') {
                 this.advance();
-                tokens.push({ type: "comparison", value: "=" });
+                tokens.push(this.makeToken("comparison", "=", start));
             }
             else if (char === '<') {
                 this.advance();
-                tokens.push({ type: "comparison", value: "<" });
+                tokens.push(this.makeToken("comparison", "<", start));
             }
             else if (char === '>') {
                 this.advance();
-                tokens.push({ type: "comparison", value: ">" });
+                tokens.push(this.makeToken("comparison", ">", start));
             }
             else if (char === ';') {
                 this.advance();
-                tokens.push({ type: "semicolon", value: ";" });
+                tokens.push(this.makeToken("semicolon", ";", start));
             }
             else {
-                throw new Error(`Unexpected character: ${char} at position ${this.position}`);
+                this.advance();
+                this.report(new SourceError(`Unexpected character: ${char}`, { start, end: this.currentPosition() }, "unexpected-character"));
             }
         }
 
+        // Comments after the last token stay with it
+        const last = tokens[tokens.length - 1];
+        if (last && this.pendingTrivia.length > 0) {
+            (last.trailingTrivia ??= []).push(...this.pendingTrivia);
+            this.pendingTrivia = [];
+        }
+
         return tokens;
     }
 }
@@ -1,16 +1,22 @@
+import type { SourceSpan } from "../span";
+import type { NodeComments } from "../comments";
+
 // Expressions 
 export type NumberLiteral = {
     type: "number";
-    value: number;
+    span?: SourceSpan;
+    value: bigint; // natural number, arbitrary precision
 };
 
 export type Variable = {
     type: "variable";
+    span?: SourceSpan;
     name: string; // things like x0, x1, x2, etc.
 };
 
 export type BinaryExpression = {
     type: "binaryOp";
+    span?: SourceSpan;
     operator: "+" | "-";
     left: Expression;
     right: Expression;
@@ -23,14 +29,19 @@ export type Expression = NumberLiteral | Variable | BinaryExpression; // Union o
 // Statements
 export type Assignment = {
     type: "assignment";
+    span?: SourceSpan;
     variable: string; // things like x0, x1, x2, etc.
     value: Expression;
+    comments?: NodeComments;
 };
 
 export type Loop = {
     type: "loop";
+    span?: SourceSpan;
     counter: string; // things like x0, x1, x2, etc.
     body: Statement[];
+    comments?: NodeComments;    // on the LOOP ... DO line
+    endComments?: NodeComments; // before and on the END line
 };
 
 export type Statement = Assignment | Loop;
@@ -39,5 +50,6 @@ export type Statement = Assignment | Loop;
 // Program
 export type Program = {
     type: "program";
+    span?: SourceSpan;
     statements: Statement[];
 };
@@ -1,46 +1,48 @@
-import type { Program, Statement, Expression, BinaryExpression } from "./ast";
-
-type EvalOptions = {
-    initialVariables?: Map<string, number>;
-    verbose?: boolean;
-};
+import type { Program, Statement } from "./ast";
+import type { EvalOptions, ExecutionOutcome } from "../execution";
+import type { ExecutionEvent, ExecutionObserver } from "../events";
+import { observersFor } from "../events";
+import { ExecutionBudget, BudgetExceeded, normalizeOptions, budgetError, exceededOutcome } from "../execution";
+import { evaluateExpression } from "../evaluate";
 
 class Interpreter {
-    private variables: Map<string, number>;
+    private variables: Map<string, bigint>;
     private lockedVariables: Set<string>;
-    private verbose: boolean;
-    private stepCounter: number;
+    private observers: ExecutionObserver[];
+    private budget: ExecutionBudget;
 
     constructor() {
         this.variables = new Map();
         this.lockedVariables = new Set();
-        this.verbose = false;
-        this.stepCounter = 0;
+        this.observers = [];
+        this.budget = new ExecutionBudget();
     }
 
-    public setVariable(name: string, value: number): void {
+    public setVariable(name: string, value: bigint): void {
         this.variables.set(name, value);
     }
 
-    public evaluate(program: Program, options?: EvalOptions | Map<string, number>): Map<string, number> {
+    public getVariables(): Map<string, bigint> {
+        return new Map(this.variables);
+    }
+
+    // Run the program; throws if a budget is exceeded
+    public evaluate(program: Program, options?: EvalOptions | Map<string, bigint>): Map<string, bigint> {
+        const outcome = this.run(program, options);
+        if (outcome.status === "budgetExceeded") throw budgetError(outcome);
+        return outcome.variables;
+    }
+
+    // Run the program and report how it ended instead of throwing on budgets
+    public run(program: Program, options?: EvalOptions | Map<string, bigint>): ExecutionOutcome {
         this.variables.clear();
         this.lockedVariables.clear();
-        this.stepCounter = 0;
 
         // Support both Map and options object for initial variables
-        let initialVariables: Map<string, number> | undefined;
-        if (options instanceof Map) {
-            initialVariables = options;
-            this.verbose = false;
-        } else if (options) {
-            initialVariables = options.initialVariables;
-            this.verbose = options.verbose ?? false;
-        } else {
-            this.verbose = false;
-        }
+        const evalOptions = normalizeOptions(options);
 
-        if (initialVariables) {
-            for (const [name, value] of initialVariables) {
+        if (evalOptions.initialVariables) {
+            for (const [name, value] of evalOptions.initialVariables) {
                 this.variables.set(name, value);
                 // x0 is the result variable — never lock it
                 if (name !== "x0") {
@@ -49,39 +51,62 @@ class Interpreter {
             }
         }
 
-        for (const statement of program.statements) {
-            this.executeStatement(statement);
+        return this.start(program, evalOptions);
+    }
+
+    // Run the program against the variables left by earlier runs and setVariable() instead of
+    // starting empty, as the REPL does. Nothing is locked: initial variables are plain assignments.
+    public execute(program: Program, options?: EvalOptions): ExecutionOutcome {
+        const evalOptions = normalizeOptions(options);
+        this.lockedVariables.clear();
+        for (const [name, value] of evalOptions.initialVariables ?? []) {
+            this.variables.set(name, value);
+        }
+        return this.start(program, evalOptions);
+    }
+
+    private start(program: Program, evalOptions: EvalOptions): ExecutionOutcome {
+        this.observers = observersFor(evalOptions);
+        this.budget = new ExecutionBudget(evalOptions);
+        try {
+            for (const statement of program.statements) {
+                this.executeStatement(statement);
+            }
+        } catch (error) {
+            if (!(error instanceof BudgetExceeded)) throw error;
+            return exceededOutcome(error, this.variables, this.budget.steps);
         }
-        return this.variables;
+        this.emit({ type: "halt", variables: this.variables, steps: this.budget.steps });
+        return { status: "halted", variables: this.variables, steps: this.budget.steps };
+    }
+
+    private emit(event: ExecutionEvent): void {
+        for (const observer of this.observers) observer(event);
     }
 
     private executeStatement(statement: Statement): void {
+        this.budget.step(statement.span);
+        this.emit({ type: "statement", language: "loop", node: statement, step: this.budget.steps - 1, span: statement.span, variables: this.variables });
         switch (statement.type) {
             case "assignment": {
-                const value = this.evaluateExpression(statement.value);
+                const value = evaluateExpression(statement.value, this.variables);
                 if (this.lockedVariables.has(statement.variable)) {
                     this.lockedVariables.delete(statement.variable);
-                    if (this.verbose) {
-                        console.log(`  [skip] ${statement.variable} := ${value} (using CLI value)`);
-                    }
+                    this.emit({ type: "skippedAssignment", variable: statement.variable, value, span: statement.span });
                 } else {
-                    const oldValue = this.variables.get(statement.variable) ?? 0;
+                    this.budget.checkValue(value, statement.span);
+                    const oldValue = this.variables.get(statement.variable) ?? 0n;
                     this.variables.set(statement.variable, value);
-                    if (this.verbose) {
-                        console.log(`  ${statement.variable} := ${value} (was ${oldValue})`);
-                    }
+                    this.emit({ type: "assignment", variable: statement.variable, oldValue, newValue: value, span: statement.span });
                 }
                 break;
             }
             case "loop": {
                 const iterations = this.getVariableValue(statement.counter);
-                if (this.verbose) {
-                    console.log(`  LOOP ${statement.counter} (${iterations} iterations)`);
-                }
-                for (let i = 0; i < iterations; i++) {
-                    if (this.verbose) {
-                        console.log(`    iteration ${i + 1}/${iterations}`);
-                    }
+                this.emit({ type: "loopEntered", counter: statement.counter, iterations, span: statement.span });
+                for (let i = 0n; i < iterations; i++) {
+                    this.budget.step(statement.span);
+                    this.emit({ type: "loopIteration", iteration: i + 1n, total: iterations, span: statement.span });
                     for (const bodyStatement of statement.body) {
                         this.executeStatement(bodyStatement);
                     }
@@ -91,26 +116,8 @@ class Interpreter {
         }
     }
 
-    private evaluateExpression(expression: Expression): number {
-        switch (expression.type) {
-            case "number": return expression.value;
-            case "variable": return this.getVariableValue(expression.name);
-            case "binaryOp": return this.evaluateBinaryExpression(expression);
-        }
-    }
-
-    private evaluateBinaryExpression(expression: BinaryExpression): number {
-        const left = this.evaluateExpression(expression.left);
-        const right = this.evaluateExpression(expression.right);
-
-        switch (expression.operator) {
-            case "+": return left + right;
-            case "-": return Math.max(0, left - right); // monus: no negative values
-        }
-    }
-
-    private getVariableValue(name: string): number {
-        return this.variables.get(name) || 0;
+    private getVariableValue(name: string): bigint {
+        return this.variables.get(name) ?? 0n;
     }
 }
 
@@ -0,0 +1,84 @@
+// Translations written to files (`-o`, `--out-dir`): only the translated program, under the
+// target language's extension, so the file can be run, formatted or translated like any other.
+// With `ast` the file holds AST JSON instead (`multiply.while.json`).
+import * as fs from 'fs';
+import * as path from 'path';
+import type { Language, TaggedProgram } from "./parse";
+import { parseProgram } from "./parse";
+import { countErrors } from "./diagnostics";
+import { translateProgram } from "./translate";
+import type { TranslateOptions } from "./translate";
+import { printProgram } from "./printer";
+import { astToJson } from "./astJson";
+
+export type OutputOptions = {
+    ast?: boolean;  // write AST JSON instead of source
+    translation?: TranslateOptions;
+};
+
+export type BatchEntry = {
+    source: string;
+    output?: string;   // the file written
+    skipped?: string;  // why no translation was needed
+    error?: string;
+};
+
+const PROGRAM_EXTENSION = /\.(loop|while|goto)(\.json)?$/i;
+const SOURCE_EXTENSION = /\.(loop|while|goto)$/i;
+
+// multiply.loop -> multiply.while, countdown.goto.json -> countdown.while(.json)
+export function translationFileName(file: string, to: Language, options: OutputOptions = {}): string {
+    const base = path.basename(file).replace(PROGRAM_EXTENSION, "");
+    return `${base}.${to}${options.ast ? ".json" : ""}`;
+}
+
+// Contents of a program file: the printed program with a final newline, or AST JSON. Refused
+// when the program has no source form (nested binary operations), as neither would load again.
+export function programFile(target: TaggedProgram, options: OutputOptions = {}): string {
+    const code = printProgram(target);
+    const error = parseProgram(code, target.language).diagnostics.find((diagnostic) => diagnostic.severity === "error");
+    if (error) throw new Error(`The ${target.language.toUpperCase()} program does not parse back from its printed form: ${error.message}`);
+    return options.ast ? astToJson(target) : code + "\n";
+}
+
+// Translate `source` and write it to `file`, whose extension must name the target language
+export function writeTranslation(source: TaggedProgram, to: Language, file: string, options: OutputOptions = {}): TaggedProgram {
+    const extension = `.${to}${options.ast ? ".json" : ""}`;
+    if (!file.toLowerCase().endsWith(extension)) {
+        throw new Error(`${file}: the translation is a ${to.toUpperCase()} program; use a file name ending in ${extension}`);
+    }
+    if (source.language === to) throw new Error(`Already in ${to.toUpperCase()}.`);
+    const translated = translateProgram(source, to, options.translation);
+    const contents = programFile(translated, options);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, contents);
+    return translated;
+}
+
+// Translate every file into `outDir`, keeping their directories relative to `root`.
+// Programs already in the target language are skipped; files are independent, so one
+// failing file does not stop the others.
+export function translateFiles(files: string[], to: Language, outDir: string, root: string, options: OutputOptions = {}): BatchEntry[] {
+    const written = new Map<string, string>();
+    return files.map((source): BatchEntry => {
+        const language = source.toLowerCase().match(SOURCE_EXTENSION)?.[1] as Language | undefined;
+        if (!language) return { source, error: "cannot detect language" };
+        if (language === to) return { source, skipped: `already ${to.toUpperCase()}` };
+
+        const output = path.join(outDir, path.relative(root, path.dirname(source)), translationFileName(source, to, options));
+        const earlier = written.get(output);
+        if (earlier) return { source, error: `${output} is already the translation of ${earlier}` };
+
+        const code = fs.readFileSync(source, 'utf-8');
+        const parsed = parseProgram(code, language);
+        const errors = countErrors(parsed.diagnostics);
+        if (errors > 0) return { source, error: `${errors} syntax error${errors === 1 ? "" : "s"}` };
+        try {
+            writeTranslation(parsed.program, to, output, options);
+        } catch (error: any) {
+            return { source, error: error.message };
+        }
+        written.set(output, source);
+        return { source, output };
+    });
+}
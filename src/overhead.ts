@@ -0,0 +1,105 @@
+// Cost of a translation: static size and fresh names of a program and its translation, and the
+// steps both take to run. Printed by `-verify`; with `--range` also as step growth over many inputs.
+import type { TaggedProgram } from "./parse";
+import type { ExecutionOutcome } from "./execution";
+import { walkProgram } from "./walk";
+
+export type ProgramStats = {
+    size: number;            // statements (LOOP/WHILE, nested ones included) or instructions (GOTO)
+    variables: Set<string>;  // every variable the program mentions
+    labels: Set<string>;     // GOTO labels
+};
+
+export type InputRange = { name: string; from: bigint; to: bigint };
+
+export function programStats(target: TaggedProgram): ProgramStats {
+    const stats: ProgramStats = { size: 0, variables: new Set(), labels: new Set() };
+    const variable = (name: string) => stats.variables.add(name);
+    walkProgram(target, {
+        statement: (node) => {
+            stats.size++;
+            if ("statement" in node && node.label) stats.labels.add(node.label);
+        },
+        read: variable,
+        assign: variable,
+    });
+    return stats;
+}
+
+function sortNames(names: Iterable<string>): string[] {
+    return Array.from(names).sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+}
+
+function ratio(original: number, translated: number): string {
+    return original > 0 ? `${(translated / original).toFixed(2)}x` : "-";
+}
+
+// Names shown in full up to a handful, then abbreviated
+function nameList(names: string[]): string {
+    if (names.length === 0) return "";
+    const shown = names.length > 6 ? [...names.slice(0, 6), "..."] : names;
+    return `(${shown.join(", ")})`;
+}
+
+// Side-by-side table for one run of the original and the translated program
+export function overheadReport(
+    original: TaggedProgram, originalOutcome: ExecutionOutcome,
+    translated: TaggedProgram, translatedOutcome: ExecutionOutcome,
+): string {
+    const before = programStats(original);
+    const after = programStats(translated);
+    const freshVariables = sortNames([...after.variables].filter((name) => !before.variables.has(name)));
+    const freshLabels = sortNames([...after.labels].filter((name) => !before.labels.has(name)));
+
+    const from = original.language.toUpperCase();
+    const to = translated.language.toUpperCase();
+    const rows: [string, string, string, string][] = [
+        ["", from, to, ""],
+        ["steps executed", String(originalOutcome.steps), String(translatedOutcome.steps), ratio(originalOutcome.steps, translatedOutcome.steps)],
+        ["variables touched", String(originalOutcome.variables.size), String(translatedOutcome.variables.size), ""],
+        ["fresh variables", "-", String(freshVariables.length), nameList(freshVariables)],
+        ["fresh labels", "-", String(freshLabels.length), nameList(freshLabels)],
+        ["program size", String(before.size), String(after.size), ratio(before.size, after.size)],
+    ];
+    return formatTable(rows, [false, true, true, false]);
+}
+
+// Every combination of the ranges, on top of the fixed inputs
+export function expandRanges(fixed: Map<string, bigint>, ranges: InputRange[]): Map<string, bigint>[] {
+    let inputs = [new Map(fixed)];
+    for (const range of ranges) {
+        const next: Map<string, bigint>[] = [];
+        for (const input of inputs) {
+            for (let value = range.from; value <= range.to; value++) {
+                next.push(new Map(input).set(range.name, value));
+            }
+        }
+        inputs = next;
+    }
+    return inputs;
+}
+
+export type GrowthRow = { inputs: Map<string, bigint>; original: ExecutionOutcome; translated: ExecutionOutcome };
+
+// Steps of both programs for each input, with the extra steps and the ratio
+export function stepGrowthTable(rows: GrowthRow[], ranges: InputRange[], from: string, to: string): string {
+    const table: string[][] = [[...ranges.map((range) => range.name), from.toUpperCase(), to.toUpperCase(), "extra", "ratio"]];
+    for (const row of rows) {
+        const steps = (outcome: ExecutionOutcome) => outcome.status === "halted" ? String(outcome.steps) : `>${outcome.steps}`;
+        table.push([
+            ...ranges.map((range) => String(row.inputs.get(range.name) ?? 0n)),
+            steps(row.original),
+            steps(row.translated),
+            String(row.translated.steps - row.original.steps),
+            ratio(row.original.steps, row.translated.steps),
+        ]);
+    }
+    return formatTable(table, table[0]!.map(() => true));
+}
+
+function formatTable(rows: string[][], alignRight: boolean[]): string {
+    const widths = rows[0]!.map((_, column) => Math.max(...rows.map((row) => row[column]!.length)));
+    return rows
+        .map((row) => "  " + row.map((cell, column) => alignRight[column] ? cell.padStart(widths[column]!) : cell.padEnd(widths[column]!)).join("   ").trimEnd())
+        .join("\n");
+}
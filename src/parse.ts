@@ -0,0 +1,66 @@
+// Recovering front end: lex + parse a program and collect every diagnostic.
+// Grading scripts can use this to count problems without running anything.
+import Lexer from "./lexer";
+import LoopParser from "./loop/parser";
+import WhileParser from "./while/parser";
+import GotoParser from "./goto/parser";
+import type { Diagnostic } from "./diagnostics";
+import type { Program as LoopProgram } from "./loop/ast";
+import type { Program as WhileProgram } from "./while/ast";
+import type { Program as GotoProgram } from "./goto/ast";
+
+export type Language = "loop" | "while" | "goto";
+
+// A program together with the language it is written in
+export type TaggedProgram =
+    | { language: "loop"; program: LoopProgram }
+    | { language: "while"; program: WhileProgram }
+    | { language: "goto"; program: GotoProgram };
+
+export type ParseResult<P> = {
+    program: P;              // partial if there were errors
+    diagnostics: Diagnostic[];
+};
+
+export function parseLoop(code: string): ParseResult<LoopProgram> {
+    const lexed = new Lexer(code).tokenizeWithDiagnostics();
+    const parsed = new LoopParser(lexed.tokens).parseWithDiagnostics();
+    return { program: parsed.program, diagnostics: [...lexed.diagnostics, ...parsed.diagnostics] };
+}
+
+export function parseWhile(code: string): ParseResult<WhileProgram> {
+    const lexed = new Lexer(code).tokenizeWithDiagnostics();
+    const parsed = new WhileParser(lexed.tokens).parseWithDiagnostics();
+    return { program: parsed.program, diagnostics: [...lexed.diagnostics, ...parsed.diagnostics] };
+}
+
+export function parseGoto(code: string): ParseResult<GotoProgram> {
+    const lexed = new Lexer(code).tokenizeWithDiagnostics();
+    const parsed = new GotoParser(lexed.tokens).parseWithDiagnostics();
+    return { program: parsed.program, diagnostics: [...lexed.diagnostics, ...parsed.diagnostics] };
+}
+
+export function parseProgram(code: string, language: Language): ParseResult<TaggedProgram> {
+    switch (language) {
+        case "loop": {
+            const { program, diagnostics } = parseLoop(code);
+            return { program: { language, program }, diagnostics };
+        }
+        case "while": {
+            const { program, diagnostics } = parseWhile(code);
+            return { program: { language, program }, diagnostics };
+        }
+        case "goto": {
+            const { program, diagnostics } = parseGoto(code);
+            return { program: { language, program }, diagnostics };
+        }
+    }
+}
+
+// All diagnostics for a program, sorted by position
+export function checkSource(code: string, language: Language): Diagnostic[] {
+    const { diagnostics } = language === "loop" ? parseLoop(code)
+        : language === "while" ? parseWhile(code)
+        : parseGoto(code);
+    return diagnostics.sort((a, b) => (a.span?.start.offset ?? 0) - (b.span?.start.offset ?? 0));
+}
@@ -0,0 +1,175 @@
+// Canonical concrete syntax for LOOP, WHILE and GOTO ASTs.
+// For every AST the parsers can produce, parsing the printed code yields the same AST
+// (up to source spans), comments included. Nested binary operations cannot be written in the concrete
+// syntax; they are printed with parentheses for display only.
+import type { Program as LoopProgram, Statement as LoopStatement, Expression as LoopExpression } from "./loop/ast";
+import type { Program as WhileProgram, Statement as WhileStatement, Expression as WhileExpression, Condition as WhileCondition } from "./while/ast";
+import type { Program as GotoProgram, Instruction, Statement as GotoStatement, Expression as GotoExpression, Condition as GotoCondition } from "./goto/ast";
+import type { NodeComments } from "./comments";
+import type { TaggedProgram } from "./parse";
+
+export type PrintOptions = {
+    indent?: number;        // spaces per nesting level in LOOP/WHILE bodies (default 2)
+    alignLabels?: boolean;  // GOTO: pad every instruction to the widest label (default true)
+};
+
+type Expression = LoopExpression | WhileExpression | GotoExpression;
+type Condition = WhileCondition | GotoCondition;
+
+export function printExpression(expr: Expression): string {
+    switch (expr.type) {
+        case "number": return String(expr.value);
+        case "variable": return expr.name;
+        case "binaryOp": return `${printOperand(expr.left)} ${expr.operator} ${printOperand(expr.right)}`;
+    }
+}
+
+function printOperand(expr: Expression): string {
+    return expr.type === "binaryOp" ? `(${printExpression(expr)})` : printExpression(expr);
+}
+
+export function printCondition(cond: Condition): string {
+    return `${printExpression(cond.left)} ${cond.operator} ${printExpression(cond.right)}`;
+}
+
+function indentUnit(options?: PrintOptions): string {
+    return " ".repeat(options?.indent ?? 2);
+}
+
+// Comments
+
+function commentLines(texts: string[] | undefined, indent: string): string[] {
+    return (texts ?? []).map(text => indent + text);
+}
+
+function withTrailing(line: string, comments: NodeComments | undefined): string {
+    const trailing = comments?.trailing;
+    return trailing && trailing.length > 0 ? `${line} ${trailing.join(" ")}` : line;
+}
+
+// Leading comments above the node, trailing ones on its first line, `after` below it
+function decorate(lines: string[], comments: NodeComments | undefined, indent: string): string[] {
+    const [first = "", ...rest] = lines;
+    return [
+        ...commentLines(comments?.leading, indent),
+        withTrailing(first, comments),
+        ...rest,
+        ...commentLines(comments?.after, indent)
+    ];
+}
+
+// Closing keyword of a block (END or ELSE); its leading comments belong to the body above
+function blockKeyword(keyword: string, comments: NodeComments | undefined, indent: string, inner: string): string[] {
+    return [
+        ...commentLines(comments?.leading, inner),
+        withTrailing(indent + keyword, comments),
+        ...commentLines(comments?.after, indent)
+    ];
+}
+
+// LOOP
+
+function loopStatementLines(stmt: LoopStatement, options: PrintOptions | undefined, indent: string): string[] {
+    switch (stmt.type) {
+        case "assignment":
+            return decorate([`${indent}${stmt.variable} := ${printExpression(stmt.value)};`], stmt.comments, indent);
+        case "loop": {
+            const inner = indent + indentUnit(options);
+            return [
+                ...decorate([`${indent}LOOP ${stmt.counter} DO`], stmt.comments, indent),
+                ...stmt.body.flatMap(s => loopStatementLines(s, options, inner)),
+                ...blockKeyword("END", stmt.endComments, indent, inner)
+            ];
+        }
+    }
+}
+
+export function printLoopStatement(stmt: LoopStatement, options?: PrintOptions, indent: string = ""): string {
+    return loopStatementLines(stmt, options, indent).join("\n");
+}
+
+export function printLoopProgram(program: LoopProgram, options?: PrintOptions): string {
+    return program.statements.map(stmt => printLoopStatement(stmt, options)).join("\n");
+}
+
+// WHILE
+
+function whileStatementLines(stmt: WhileStatement, options: PrintOptions | undefined, indent: string): string[] {
+    const inner = indent + indentUnit(options);
+    switch (stmt.type) {
+        case "assignment":
+            return decorate([`${indent}${stmt.variable} := ${printExpression(stmt.value)};`], stmt.comments, indent);
+        case "while":
+            return [
+                ...decorate([`${indent}WHILE ${printCondition(stmt.condition)} DO`], stmt.comments, indent),
+                ...stmt.body.flatMap(s => whileStatementLines(s, options, inner)),
+                ...blockKeyword("END", stmt.endComments, indent, inner)
+            ];
+        case "if": {
+            const lines = [
+                ...decorate([`${indent}IF ${printCondition(stmt.condition)} THEN`], stmt.comments, indent),
+                ...stmt.thenBody.flatMap(s => whileStatementLines(s, options, inner))
+            ];
+            // An empty ELSE is kept so that the printed code parses back to the same AST
+            if (stmt.elseBody) {
+                lines.push(
+                    ...blockKeyword("ELSE", stmt.elseComments, indent, inner),
+                    ...stmt.elseBody.flatMap(s => whileStatementLines(s, options, inner))
+                );
+            }
+            lines.push(...blockKeyword("END", stmt.endComments, indent, inner));
+            return lines;
+        }
+    }
+}
+
+export function printWhileStatement(stmt: WhileStatement, options?: PrintOptions, indent: string = ""): string {
+    return whileStatementLines(stmt, options, indent).join("\n");
+}
+
+export function printWhileProgram(program: WhileProgram, options?: PrintOptions): string {
+    return program.statements.map(stmt => printWhileStatement(stmt, options)).join("\n");
+}
+
+// GOTO
+
+export function printGotoStatement(stmt: GotoStatement): string {
+    switch (stmt.type) {
+        case "assignment": return `${stmt.variable} := ${printExpression(stmt.value)};`;
+        case "goto": return `GOTO ${stmt.label};`;
+        case "if_goto": return `IF ${printCondition(stmt.condition)} THEN GOTO ${stmt.label};`;
+        case "halt": return "HALT;";
+    }
+}
+
+// `labelWidth` is the column where statements start; 0 means no alignment.
+// Comments are not included; use printGotoProgram for full source.
+export function printGotoInstruction(instr: Instruction, labelWidth: number = 0): string {
+    const prefix = instr.label !== undefined ? `${instr.label}: ` : "";
+    return prefix.padEnd(labelWidth) + printGotoStatement(instr.statement);
+}
+
+// Column where statements start when labels are aligned: widest "label: "
+export function gotoLabelWidth(program: GotoProgram): number {
+    let width = 0;
+    for (const instr of program.instructions) {
+        if (instr.label !== undefined) width = Math.max(width, instr.label.length + 2);
+    }
+    return width;
+}
+
+export function printGotoProgram(program: GotoProgram, options?: PrintOptions): string {
+    const width = (options?.alignLabels ?? true) ? gotoLabelWidth(program) : 0;
+    const indent = " ".repeat(width);
+    return program.instructions
+        .flatMap(instr => decorate([printGotoInstruction(instr, width)], instr.comments, indent))
+        .join("\n");
+}
+
+export function printProgram(target: TaggedProgram, options?: PrintOptions): string {
+    switch (target.language) {
+        case "loop": return printLoopProgram(target.program, options);
+        case "while": return printWhileProgram(target.program, options);
+        case "goto": return printGotoProgram(target.program, options);
+    }
+}
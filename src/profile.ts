@@ -0,0 +1,162 @@
+// Per-statement execution profile (`--profile`): hit counts for every statement, the steps
+// each LOOP/WHILE consumed including its body, and the steps spent in each GOTO label region.
+// Works from the AST alone, so translated programs (which have no source) can be profiled too.
+import type { Statement as LoopStatement } from "./loop/ast";
+import type { Statement as WhileStatement } from "./while/ast";
+import type { Instruction } from "./goto/ast";
+import type { TaggedProgram } from "./parse";
+import type { ExecutionObserver, StatementNode } from "./events";
+import { printCondition, printExpression, printGotoInstruction, gotoLabelWidth } from "./printer";
+
+type OpenStatement = { node: StatementNode; depth: number; start: number };
+
+export class Profiler {
+    public readonly observer: ExecutionObserver;
+    public totalSteps: number;
+    private readonly target: TaggedProgram;
+    private readonly depths: Map<StatementNode, number>;
+    private readonly hits: Map<StatementNode, number>;
+    private readonly inclusive: Map<StatementNode, number>;
+    private open: OpenStatement[];
+
+    constructor(target: TaggedProgram) {
+        this.target = target;
+        this.totalSteps = 0;
+        this.depths = new Map();
+        this.hits = new Map();
+        this.inclusive = new Map();
+        this.open = [];
+
+        if (target.language === "goto") {
+            for (const instr of target.program.instructions) this.depths.set(instr, 0);
+        } else {
+            this.indexBody(target.program.statements, 0);
+        }
+
+        this.observer = (event) => {
+            if (event.type !== "statement") return;
+            this.hits.set(event.node, (this.hits.get(event.node) ?? 0) + 1);
+            // A statement at depth d ends every open statement at depth d or deeper
+            const depth = this.depths.get(event.node) ?? 0;
+            this.close(depth, event.step);
+            this.open.push({ node: event.node, depth, start: event.step });
+        };
+    }
+
+    // Close the run; `steps` is the outcome's step count (halted or stopped by a budget)
+    public finish(steps: number): void {
+        this.close(0, steps);
+        this.totalSteps = steps;
+    }
+
+    public hitCount(node: StatementNode): number {
+        return this.hits.get(node) ?? 0;
+    }
+
+    // Steps spent executing `node`, its body included
+    public stepCount(node: StatementNode): number {
+        return this.inclusive.get(node) ?? 0;
+    }
+
+    // Steps per GOTO label region: from a label up to the next labelled instruction.
+    // Instructions before the first label are reported under "(start)".
+    public regions(): Map<string, number> {
+        const regions = new Map<string, number>();
+        if (this.target.language !== "goto") return regions;
+        let region = "(start)";
+        for (const instr of this.target.program.instructions) {
+            if (instr.label) region = instr.label;
+            regions.set(region, (regions.get(region) ?? 0) + this.hitCount(instr));
+        }
+        return regions;
+    }
+
+    // The program with hit counts, and step totals for LOOP/WHILE and label regions, in the gutter
+    public listing(): string {
+        const rows: { hits: string; steps: string; text: string }[] = [];
+        if (this.target.language === "goto") {
+            const width = gotoLabelWidth(this.target.program);
+            const regions = this.regions();
+            this.target.program.instructions.forEach((instr: Instruction, i) => {
+                const regionStart = instr.label !== undefined || i === 0;
+                const region = instr.label ?? "(start)";
+                rows.push({
+                    hits: String(this.hitCount(instr)),
+                    steps: regionStart ? String(regions.get(region) ?? 0) : "",
+                    text: printGotoInstruction(instr, width),
+                });
+            });
+        } else {
+            this.listBody(this.target.program.statements, "", rows);
+        }
+
+        const hitsWidth = Math.max(4, ...rows.map((row) => row.hits.length));
+        const stepsWidth = Math.max(5, ...rows.map((row) => row.steps.length));
+        const stepsLabel = this.target.language === "goto" ? "label region" : "LOOP/WHILE";
+        const lines = [
+            `${"hits".padStart(hitsWidth)} ${"steps".padStart(stepsWidth)} | (${this.totalSteps} steps total; steps column: ${stepsLabel})`,
+        ];
+        for (const row of rows) {
+            lines.push(`${row.hits.padStart(hitsWidth)} ${row.steps.padStart(stepsWidth)} | ${row.text}`.trimEnd());
+        }
+        return lines.join("\n");
+    }
+
+    private close(depth: number, step: number): void {
+        while (this.open.length > 0 && this.open[this.open.length - 1]!.depth >= depth) {
+            const { node, start } = this.open.pop()!;
+            this.inclusive.set(node, (this.inclusive.get(node) ?? 0) + step - start);
+        }
+    }
+
+    private indexBody(statements: Array<LoopStatement | WhileStatement>, depth: number): void {
+        for (const statement of statements) {
+            this.depths.set(statement, depth);
+            switch (statement.type) {
+                case "loop":
+                case "while":
+                    this.indexBody(statement.body, depth + 1);
+                    break;
+                case "if":
+                    this.indexBody(statement.thenBody, depth + 1);
+                    if (statement.elseBody) this.indexBody(statement.elseBody, depth + 1);
+                    break;
+            }
+        }
+    }
+
+    // Same layout as the canonical printer, one row per line (comments are left out)
+    private listBody(statements: Array<LoopStatement | WhileStatement>, indent: string, rows: { hits: string; steps: string; text: string }[]): void {
+        const row = (node: StatementNode | undefined, text: string, steps = false) => rows.push({
+            hits: node ? String(this.hitCount(node)) : "",
+            steps: node && steps ? String(this.stepCount(node)) : "",
+            text: indent + text,
+        });
+        for (const statement of statements) {
+            switch (statement.type) {
+                case "assignment":
+                    row(statement, `${statement.variable} := ${printExpression(statement.value)};`);
+                    break;
+                case "loop":
+                    row(statement, `LOOP ${statement.counter} DO`, true);
+                    this.listBody(statement.body, indent + "  ", rows);
+                    row(undefined, "END");
+                    break;
+                case "while":
+                    row(statement, `WHILE ${printCondition(statement.condition)} DO`, true);
+                    this.listBody(statement.body, indent + "  ", rows);
+                    row(undefined, "END");
+                    break;
+                case "if":
+                    row(statement, `IF ${printCondition(statement.condition)} THEN`);
+                    this.listBody(statement.thenBody, indent + "  ", rows);
+                    if (statement.elseBody) {
+                        row(undefined, "ELSE");
+                        this.listBody(statement.elseBody, indent + "  ", rows);
+                    }
+                    row(undefined, "END");
+                    break;
+            }
+        }
+    }
+}
@@ -0,0 +1,15 @@
+// Small seeded PRNG (mulberry32), so generated inputs and programs are reproducible from a seed
+export function makeRandom(seed: number) {
+    let state = seed | 0;
+    const next = (): number => {
+        state = (state + 0x6D2B79F5) | 0;
+        let t = Math.imul(state ^ (state >>> 15), 1 | state);
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+    const int = (max: number): number => Math.floor(next() * (max + 1)); // 0..max
+    const pick = <T>(items: readonly T[]): T => items[int(items.length - 1)]!;
+    return { next, int, pick };
+}
+
+export type Random = ReturnType<typeof makeRandom>;
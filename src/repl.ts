@@ -0,0 +1,293 @@
+// Interactive sessions (`lang repl --lang while`). LOOP and WHILE statements run as soon as they
+// are complete, against a variable store that persists between inputs; a block such as
+// `WHILE ... DO` is read line by line until the parser no longer reports an unexpected end.
+// GOTO instructions are collected into a program that `:run` executes on the store.
+import * as fs from 'fs';
+import LoopInterpreter from "./loop/interpreter";
+import WhileInterpreter from "./while/interpreter";
+import GotoInterpreter from "./goto/interpreter";
+import type { DebuggerIO } from "./debugger";
+import type { EvalOptions, ExecutionOutcome } from "./execution";
+import type { Language, TaggedProgram } from "./parse";
+import { checkSource, parseProgram } from "./parse";
+import { formatDiagnostic } from "./diagnostics";
+import { printProgram } from "./printer";
+import { translateProgram } from "./translate";
+
+export type ReplIO = DebuggerIO;
+
+const HELP = [
+    "  :vars [x1 ...]       Show variables (all when none given)",
+    "  :set x1=5            Change a variable",
+    "  :reset               Forget all variables and statements",
+    "  :program             Show the statements entered so far",
+    "  :translate <lang>    Show them translated to another language",
+    "  :load <file>         Run a program file on the variables (GOTO: make it the program)",
+    "  :run                 GOTO: run the program on the variables",
+    "  :help                Show this help",
+    "  :quit                Leave (or end the input)",
+    "  An empty line ends an unfinished statement.",
+];
+
+type Interpreter = LoopInterpreter | WhileInterpreter | GotoInterpreter;
+
+export class Repl {
+    private readonly language: Language;
+    private readonly io: ReplIO;
+    private readonly limits: EvalOptions;
+    private interpreter: Interpreter;
+    private program: TaggedProgram; // LOOP/WHILE: the statements that ran; GOTO: the program to run
+    private pending: string[];      // lines of an unfinished statement
+
+    constructor(language: Language, io: ReplIO, limits: EvalOptions = {}) {
+        this.language = language;
+        this.io = io;
+        this.limits = limits;
+        this.interpreter = createInterpreter(language);
+        this.program = emptyProgram(language);
+        this.pending = [];
+    }
+
+    // Read and handle lines until :quit or the end of the input
+    public run(): void {
+        while (true) {
+            const line = this.io.readLine(this.pending.length > 0 ? "... " : `${this.language}> `);
+            if (line === null || !this.input(line)) return;
+        }
+    }
+
+    // Handle one line; false after :quit
+    public input(line: string): boolean {
+        if (this.pending.length === 0) {
+            if (line.trim() === "") return true;
+            if (line.trim().startsWith(":")) return this.command(line.trim());
+        }
+
+        this.pending.push(line);
+        const code = this.pending.join("\n");
+        const parsed = parseProgram(code, this.language);
+        const program = parsed.program;
+        // GOTO jumps may name labels of instructions still to come; :run reports any left undefined
+        const diagnostics = parsed.diagnostics.filter((d) => d.code !== "undefined-label");
+        // An incomplete block waits for more lines; an empty line gives up and shows the error
+        if (line.trim() !== "" && diagnostics.some((d) => d.code === "unexpected-end")) return true;
+        this.pending = [];
+
+        if (diagnostics.length > 0) {
+            for (const diagnostic of diagnostics) this.io.write(formatDiagnostic(diagnostic, code, "input"));
+            return true;
+        }
+        if (program.language === "goto") {
+            this.addInstructions(program);
+        } else {
+            this.execute(program);
+        }
+        return true;
+    }
+
+    public variables(): Map<string, bigint> {
+        return this.interpreter.getVariables();
+    }
+
+    // Run LOOP/WHILE statements and show the variables they changed
+    private execute(target: TaggedProgram): void {
+        const before = this.variables();
+        const outcome = this.runOn(target);
+        if (!outcome) return;
+        if (outcome.status === "budgetExceeded") {
+            this.io.write(`Stopped: ${outcome.message}`);
+        } else {
+            this.append(target);
+        }
+        for (const [name, value] of sorted(outcome.variables)) {
+            if (before.get(name) !== value) this.io.write(`  ${name} = ${value}`);
+        }
+    }
+
+    // Runs `target` on the session's variables; undefined after reporting an error
+    private runOn(target: TaggedProgram): ExecutionOutcome | undefined {
+        const options: EvalOptions = { ...this.limits };
+        try {
+            switch (target.language) {
+                case "loop": return (this.interpreter as LoopInterpreter).execute(target.program, options);
+                case "while": return (this.interpreter as WhileInterpreter).execute(target.program, options);
+                case "goto": return (this.interpreter as GotoInterpreter).execute(target.program, options);
+            }
+        } catch (error: any) {
+            this.io.write(`Error: ${error.message}`);
+            return undefined;
+        }
+    }
+
+    private addInstructions(target: Extract<TaggedProgram, { language: "goto" }>): void {
+        if (this.program.language !== "goto") return;
+        const labels = new Set(this.program.program.instructions.map((instr) => instr.label));
+        const duplicate = target.program.instructions.find((instr) => instr.label && labels.has(instr.label));
+        if (duplicate) {
+            this.io.write(`Label ${duplicate.label} is already used; :program shows the program.`);
+            return;
+        }
+        this.append(target);
+    }
+
+    private append(target: TaggedProgram): void {
+        if (this.program.language === "goto" && target.language === "goto") {
+            this.program.program.instructions.push(...target.program.instructions);
+        } else if (this.program.language === "while" && target.language === "while") {
+            this.program.program.statements.push(...target.program.statements);
+        } else if (this.program.language === "loop" && target.language === "loop") {
+            this.program.program.statements.push(...target.program.statements);
+        }
+    }
+
+    private isEmpty(): boolean {
+        return this.program.language === "goto"
+            ? this.program.program.instructions.length === 0
+            : this.program.program.statements.length === 0;
+    }
+
+    // Run a meta-command; false for :quit
+    private command(line: string): boolean {
+        const [name = "", ...rest] = line.slice(1).split(/\s+/);
+        const argument = rest.join(" ");
+        switch (name) {
+            case "vars":
+            case "v": {
+                const variables = this.variables();
+                const names = rest.length > 0 ? rest : Array.from(sorted(variables).keys());
+                if (names.length === 0) this.io.write("No variables set yet.");
+                for (const variable of names) this.io.write(`  ${variable} = ${variables.get(variable) ?? 0n}`);
+                return true;
+            }
+            case "set": {
+                const match = argument.match(/^([a-zA-Z_][a-zA-Z0-9_]*)\s*=\s*(\d+)$/);
+                if (!match || !match[1] || !match[2]) {
+                    this.io.write("Usage: :set x1=5");
+                } else {
+                    this.interpreter.setVariable(match[1], BigInt(match[2]));
+                    this.io.write(`  ${match[1]} = ${match[2]}`);
+                }
+                return true;
+            }
+            case "reset":
+                this.interpreter = createInterpreter(this.language);
+                this.program = emptyProgram(this.language);
+                this.io.write("Variables and statements cleared.");
+                return true;
+            case "program":
+            case "p":
+                this.io.write(this.isEmpty() ? "No statements yet." : printProgram(this.program));
+                return true;
+            case "translate":
+            case "t":
+                this.translate(argument.toLowerCase());
+                return true;
+            case "load":
+            case "l":
+                this.load(argument);
+                return true;
+            case "run":
+            case "r":
+                if (this.program.language !== "goto") {
+                    this.io.write(`${this.language.toUpperCase()} statements run as they are entered; :run is for GOTO.`);
+                } else if (this.isEmpty()) {
+                    this.io.write("No instructions yet.");
+                } else {
+                    this.runGoto();
+                }
+                return true;
+            case "help":
+            case "h":
+                for (const help of HELP) this.io.write(help);
+                return true;
+            case "quit":
+            case "q":
+                return false;
+            default:
+                this.io.write(`Unknown command :${name}. Type :help for commands.`);
+                return true;
+        }
+    }
+
+    private translate(to: string): void {
+        if (to !== "loop" && to !== "while" && to !== "goto") {
+            this.io.write("Usage: :translate while|goto");
+            return;
+        }
+        if (to === this.language) {
+            this.io.write(`Already in ${to.toUpperCase()}.`);
+            return;
+        }
+        try {
+            this.io.write(printProgram(translateProgram(this.program, to)));
+        } catch (error: any) {
+            this.io.write(`Error: ${error.message}`);
+        }
+    }
+
+    private load(file: string): void {
+        if (!file) {
+            this.io.write("Usage: :load <file>");
+            return;
+        }
+        if (!fs.existsSync(file)) {
+            this.io.write(`${file}: file not found.`);
+            return;
+        }
+        const extension = file.toLowerCase().match(/\.(loop|while|goto)$/)?.[1];
+        if (extension && extension !== this.language) {
+            this.io.write(`${file} is a ${extension.toUpperCase()} program; this is a ${this.language.toUpperCase()} session.`);
+            return;
+        }
+        const code = fs.readFileSync(file, 'utf-8');
+        const { program, diagnostics } = parseProgram(code, this.language);
+        if (diagnostics.length > 0) {
+            for (const diagnostic of diagnostics) this.io.write(formatDiagnostic(diagnostic, code, file));
+            return;
+        }
+        if (program.language === "goto") {
+            this.program = program;
+            this.io.write(`Loaded ${program.program.instructions.length} instructions; :run runs them.`);
+        } else {
+            this.execute(program);
+        }
+    }
+
+    // The collected program, once every jump has a target
+    private runGoto(): void {
+        const code = printProgram(this.program);
+        const undefinedLabels = checkSource(code, "goto").filter((d) => d.code === "undefined-label");
+        if (undefinedLabels.length > 0) {
+            for (const diagnostic of undefinedLabels) this.io.write(formatDiagnostic(diagnostic, code, "program"));
+            return;
+        }
+        this.showOutcome(this.runOn(this.program));
+    }
+
+    private showOutcome(outcome: ExecutionOutcome | undefined): void {
+        if (!outcome) return;
+        if (outcome.status === "budgetExceeded") this.io.write(`Stopped: ${outcome.message}`);
+        for (const [name, value] of sorted(outcome.variables)) this.io.write(`  ${name} = ${value}`);
+        this.io.write(`(${outcome.steps} steps)`);
+    }
+}
+
+function createInterpreter(language: Language): Interpreter {
+    switch (language) {
+        case "loop": return new LoopInterpreter();
+        case "while": return new WhileInterpreter();
+        case "goto": return new GotoInterpreter();
+    }
+}
+
+function emptyProgram(language: Language): TaggedProgram {
+    switch (language) {
+        case "loop": return { language, program: { type: "program", statements: [] } };
+        case "while": return { language, program: { type: "program", statements: [] } };
+        case "goto": return { language, program: { type: "program", instructions: [] } };
+    }
+}
+
+function sorted(variables: Map<string, bigint>): Map<string, bigint> {
+    return new Map(Array.from(variables).sort(([a], [b]) => a.localeCompare(b, undefined, { numeric: true })));
+}
@@ -0,0 +1,168 @@
+// Machine-readable form of a CLI run (`--json`): one object with the program's language and
+// inputs, the final state, the translation, the verification verdict and every error with its
+// position. Values are decimal strings, since they may exceed 2^53.
+import type { Language, TaggedProgram } from "./parse";
+import { checkSource, parseProgram } from "./parse";
+import type { Diagnostic } from "./diagnostics";
+import { SourceError } from "./diagnostics";
+import type { Budget, EvalOptions, ExecutionOutcome } from "./execution";
+import { budgetError } from "./execution";
+import type { DifferentialOptions } from "./differential";
+import { agree, differentialVerify } from "./differential";
+import type { InputRange } from "./overhead";
+import { expandRanges } from "./overhead";
+import { translateProgram, translatedLimits } from "./translate";
+import type { TranslateOptions } from "./translate";
+import { exportAst } from "./astJson";
+import { printProgram } from "./printer";
+import { runProgram } from "./run";
+
+export type JsonState = Record<string, string>;
+
+export type JsonDiagnostic = {
+    code: string;
+    severity: "error" | "warning";
+    message: string;
+    line?: number;       // 1-based, as in the caret output
+    column?: number;
+    endLine?: number;
+    endColumn?: number;  // exclusive
+};
+
+export type JsonOutcome = {
+    status: ExecutionOutcome["status"];
+    steps: number;
+    variables: JsonState;
+    budget?: Budget;
+    message?: string;
+};
+
+export type JsonVerification = {
+    status: "passed" | "failed" | "inconclusive";
+    method: "single" | "range" | "differential";
+    tested: number;          // inputs compared
+    inconclusive: number;    // both runs exceeded the budget
+    counterexample?: { inputs: JsonState; original: JsonOutcome; translated: JsonOutcome };
+};
+
+export type RunReport = {
+    language: Language;
+    inputs: JsonState;
+    result?: JsonOutcome;    // missing when the program did not parse or failed to run
+    translation?: {
+        language: Language;
+        code: string;
+        ast: unknown;         // as in AST files (see astJson.ts)
+        result?: JsonOutcome; // with single-input verification
+    };
+    verification?: JsonVerification;
+    errors: JsonDiagnostic[];
+};
+
+export type ReportOptions = {
+    program?: TaggedProgram | undefined; // already parsed (an imported AST); `code` is then only its printed form
+    inputs?: Map<string, bigint>;
+    translateTo?: Language | null;
+    translation?: TranslateOptions;   // --dispatch
+    verify?: boolean;
+    ranges?: InputRange[];
+    differential?: DifferentialOptions | null;
+    limits?: EvalOptions;    // --max-steps, --timeout
+};
+
+export function jsonState(variables: Map<string, bigint>): JsonState {
+    const names = Array.from(variables.keys()).sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+    return Object.fromEntries(names.map((name) => [name, String(variables.get(name))]));
+}
+
+export function jsonDiagnostic(diagnostic: Diagnostic): JsonDiagnostic {
+    const json: JsonDiagnostic = { code: diagnostic.code, severity: diagnostic.severity, message: diagnostic.message };
+    if (diagnostic.span) {
+        json.line = diagnostic.span.start.line;
+        json.column = diagnostic.span.start.column;
+        json.endLine = diagnostic.span.end.line;
+        json.endColumn = diagnostic.span.end.column;
+    }
+    return json;
+}
+
+export function jsonOutcome(outcome: ExecutionOutcome): JsonOutcome {
+    const json: JsonOutcome = { status: outcome.status, steps: outcome.steps, variables: jsonState(outcome.variables) };
+    if (outcome.status === "budgetExceeded") {
+        json.budget = outcome.budget;
+        json.message = outcome.message;
+    }
+    return json;
+}
+
+// Same work as a text-mode run with the same options, collected instead of printed
+export function runReport(code: string, language: Language, options: ReportOptions = {}): RunReport {
+    const inputs = options.inputs ?? new Map<string, bigint>();
+    const report: RunReport = { language, inputs: jsonState(inputs), errors: [] };
+    fillReport(report, code, language, inputs, options);
+    // Errors last, after whatever did run
+    const { errors, ...rest } = report;
+    return { ...rest, errors };
+}
+
+function fillReport(report: RunReport, code: string, language: Language, inputs: Map<string, bigint>, options: ReportOptions): void {
+    const runOptions = (initialVariables: Map<string, bigint>): EvalOptions => ({ ...options.limits, initialVariables });
+
+    const diagnostics = options.program ? [] : checkSource(code, language);
+    report.errors.push(...diagnostics.map(jsonDiagnostic));
+    if (diagnostics.some((d) => d.severity === "error")) return;
+    const parsed = options.program ?? parseProgram(code, language).program;
+
+    try {
+        const outcome = runProgram(parsed, runOptions(inputs));
+        report.result = jsonOutcome(outcome);
+        if (outcome.status === "budgetExceeded") report.errors.push(jsonDiagnostic(budgetError(outcome).toDiagnostic()));
+
+        const to = options.translateTo;
+        if (!to) return;
+        if (to === language) throw new Error(`Already in ${to.toUpperCase()}.`);
+        const translated = translateProgram(parsed, to, options.translation);
+        report.translation = { language: to, code: printProgram(translated), ast: exportAst(translated).program };
+        if (!options.verify) return;
+
+        if (options.differential) {
+            const maxSteps = options.limits?.maxSteps ?? 100_000;
+            const result = differentialVerify(parsed, translated, { ...options.differential, fixed: inputs, maxSteps });
+            report.verification = {
+                status: result.counterexample ? "failed" : "passed",
+                method: "differential",
+                tested: result.tested,
+                inconclusive: result.inconclusive,
+            };
+            if (result.counterexample) {
+                const { inputs: failing, original, translated: other } = result.counterexample;
+                report.verification.counterexample = { inputs: jsonState(failing), original: jsonOutcome(original), translated: jsonOutcome(other) };
+            }
+        } else {
+            const tuples = options.ranges && options.ranges.length > 0 ? expandRanges(inputs, options.ranges) : [inputs];
+            const verification: JsonVerification = {
+                status: "passed", method: tuples.length > 1 || (options.ranges?.length ?? 0) > 0 ? "range" : "single", tested: 0, inconclusive: 0,
+            };
+            for (const tuple of tuples) {
+                const original = tuple === inputs ? outcome : runProgram(parsed, runOptions(tuple));
+                const other = runProgram(translated, { ...translatedLimits(options.limits ?? {}), initialVariables: tuple });
+                if (verification.method === "single") report.translation.result = jsonOutcome(other);
+                verification.tested++;
+                // Like the text output: every variable of either run is compared
+                const names = new Set([...original.variables.keys(), ...other.variables.keys()]);
+                if (!agree(original, other, names)) {
+                    verification.status = "failed";
+                    verification.counterexample = { inputs: jsonState(tuple), original: jsonOutcome(original), translated: jsonOutcome(other) };
+                    break;
+                }
+                if (original.status === "budgetExceeded") verification.inconclusive++;
+            }
+            if (verification.status === "passed" && verification.inconclusive === verification.tested) verification.status = "inconclusive";
+            report.verification = verification;
+        }
+    } catch (error: any) {
+        report.errors.push(error instanceof SourceError
+            ? jsonDiagnostic(error.toDiagnostic())
+            : { code: "error", severity: "error", message: error.message });
+    }
+}
@@ -0,0 +1,14 @@
+// Run a program of any of the three languages
+import LoopInterpreter from "./loop/interpreter";
+import WhileInterpreter from "./while/interpreter";
+import GotoInterpreter from "./goto/interpreter";
+import type { TaggedProgram } from "./parse";
+import type { EvalOptions, ExecutionOutcome } from "./execution";
+
+export function runProgram(target: TaggedProgram, options?: EvalOptions): ExecutionOutcome {
+    switch (target.language) {
+        case "loop": return new LoopInterpreter().run(target.program, options);
+        case "while": return new WhileInterpreter().run(target.program, options);
+        case "goto": return new GotoInterpreter().run(target.program, options);
+    }
+}
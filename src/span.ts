@@ -0,0 +1,22 @@
+// Source locations shared by tokens, AST nodes and diagnostics
+
+export type SourcePosition = {
+    line: number;   // 1-based
+    column: number; // 1-based
+    offset: number; // 0-based index into the source string
+};
+
+export type SourceSpan = {
+    start: SourcePosition;
+    end: SourcePosition; // exclusive
+};
+
+// Span covering everything from the start of `from` to the end of `to`
+export function joinSpans(from: SourceSpan, to: SourceSpan): SourceSpan {
+    return { start: from.start, end: to.end };
+}
+
+// Zero-width span at a single position (e.g. "end of input")
+export function pointSpan(position: SourcePosition): SourceSpan {
+    return { start: position, end: position };
+}
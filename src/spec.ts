@@ -0,0 +1,183 @@
+// Test specs: a companion file next to a program (`multiply.loop.spec`) with one case per line,
+//
+//   x1=3 x2=4 -> 12               x0 is 12
+//   x1=3 x2=4 -> x0=12 x1=3       these variables have these values
+//   x1=7 x2=2 => x0=3 x1=1 x2=2   the whole final state (every other variable is 0)
+//   x1=1 x2=0 -> diverges         the run exceeds the step budget
+//   max-steps 50000               budget per run (default 10,000)
+//
+// Inputs are passed like CLI values, so the program's first assignment to each is skipped.
+import type { Diagnostic } from "./diagnostics";
+import type { Language, ParseResult, TaggedProgram } from "./parse";
+import { programStats } from "./overhead";
+import { runProgram } from "./run";
+import { TRANSLATION_PATHS, TRANSLATED_STEP_FACTOR, translateProgram } from "./translate";
+
+export const DEFAULT_SPEC_STEPS = 10_000;
+
+export type Expectation =
+    | { kind: "values"; values: Map<string, bigint>; exact: boolean }
+    | { kind: "diverges" };
+
+export type SpecCase = {
+    line: number;
+    inputs: Map<string, bigint>;
+    expect: Expectation;
+};
+
+export type Spec = {
+    maxSteps: number;
+    cases: SpecCase[];
+};
+
+export type CaseResult = {
+    testCase: SpecCase;
+    language: Language;  // language of the program that ran (the original or a translation)
+    passed: boolean;
+    actual: string;      // what the run produced, in the spec's notation
+};
+
+const NAME = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
+
+export function parseSpec(text: string): ParseResult<Spec> {
+    const spec: Spec = { maxSteps: DEFAULT_SPEC_STEPS, cases: [] };
+    const diagnostics: Diagnostic[] = [];
+    let offset = 0;
+
+    text.split("\n").forEach((rawLine, index) => {
+        const line = index + 1;
+        const lineOffset = offset;
+        offset += rawLine.length + 1;
+
+        // Words of the line with their columns, comments left out
+        const words: { text: string; column: number }[] = [];
+        for (const match of rawLine.replace(/#.*$/, "").matchAll(/\S+/g)) {
+            words.push({ text: match[0], column: match.index! + 1 });
+        }
+        if (words.length === 0) return;
+
+        const error = (message: string, from = words[0]!, to = words[words.length - 1]!) => {
+            diagnostics.push({
+                code: "invalid-spec",
+                message,
+                severity: "error",
+                span: {
+                    start: { line, column: from.column, offset: lineOffset + from.column - 1 },
+                    end: { line, column: to.column + to.text.length, offset: lineOffset + to.column - 1 + to.text.length },
+                },
+            });
+        };
+
+        if (words[0]!.text === "max-steps") {
+            if (words.length !== 2 || !/^\d+$/.test(words[1]!.text)) error("Expected 'max-steps <number>'");
+            else spec.maxSteps = parseInt(words[1]!.text);
+            return;
+        }
+
+        const arrow = words.findIndex((word) => word.text === "->" || word.text === "=>");
+        if (arrow < 0) {
+            error("Expected '->' or '=>' between inputs and the expected result");
+            return;
+        }
+        const exact = words[arrow]!.text === "=>";
+        const inputs = assignments(words.slice(0, arrow), error);
+        const expected = words.slice(arrow + 1);
+        if (!inputs) return;
+
+        if (expected.length === 0) {
+            error("Expected a result after the arrow", words[arrow]!, words[arrow]!);
+        } else if (expected.length === 1 && expected[0]!.text === "diverges") {
+            if (exact) error("'diverges' has no final state; use '->'", words[arrow]!, words[arrow]!);
+            else spec.cases.push({ line, inputs, expect: { kind: "diverges" } });
+        } else if (expected.length === 1 && /^\d+$/.test(expected[0]!.text) && !exact) {
+            spec.cases.push({ line, inputs, expect: { kind: "values", values: new Map([["x0", BigInt(expected[0]!.text)]]), exact } });
+        } else {
+            const values = assignments(expected, error);
+            if (values) spec.cases.push({ line, inputs, expect: { kind: "values", values, exact } });
+        }
+    });
+    return { program: spec, diagnostics };
+}
+
+// "x1=3 x2=4", or undefined after reporting the first malformed word
+function assignments(
+    words: { text: string; column: number }[],
+    error: (message: string, from: { text: string; column: number }, to: { text: string; column: number }) => void,
+): Map<string, bigint> | undefined {
+    const values = new Map<string, bigint>();
+    for (const word of words) {
+        const [name = "", value = ""] = word.text.split("=");
+        if (!NAME.test(name) || !/^\d+$/.test(value) || word.text.split("=").length !== 2) {
+            error(`Expected 'name=value', found '${word.text}'`, word, word);
+            return undefined;
+        }
+        values.set(name, BigInt(value));
+    }
+    return values;
+}
+
+// "x0=12", "=> x0=3 x1=1", "diverges"
+export function formatExpectation(expect: Expectation): string {
+    if (expect.kind === "diverges") return "diverges";
+    const values = formatValues(expect.values);
+    return expect.exact ? `=> ${values}` : values;
+}
+
+export function formatValues(values: Map<string, bigint>): string {
+    return Array.from(values, ([name, value]) => `${name}=${value}`).join(" ");
+}
+
+// Run one case. `compared` are the variables an exact expectation covers (the original
+// program's variables; a translation's fresh helpers are not part of the state).
+export function checkCase(target: TaggedProgram, testCase: SpecCase, maxSteps: number, compared: Iterable<string>): CaseResult {
+    const result = (passed: boolean, actual: string): CaseResult => ({ testCase, language: target.language, passed, actual });
+    let outcome;
+    try {
+        outcome = runProgram(target, { maxSteps, initialVariables: testCase.inputs });
+    } catch (error: any) {
+        return result(false, `error: ${error.message}`);
+    }
+
+    const expect = testCase.expect;
+    if (outcome.status === "budgetExceeded") {
+        return result(expect.kind === "diverges", `diverges (stopped after ${outcome.steps} steps)`);
+    }
+    if (expect.kind === "diverges") {
+        return result(false, `halted with x0=${outcome.variables.get("x0") ?? 0n}`);
+    }
+
+    const names = expect.exact
+        ? Array.from(new Set([...compared, ...testCase.inputs.keys(), ...expect.values.keys()]))
+            .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }))
+        : Array.from(expect.values.keys());
+    const actual = new Map(names.map((name) => [name, outcome.variables.get(name) ?? 0n] as const));
+    const passed = names.every((name) => actual.get(name) === (expect.values.get(name) ?? 0n));
+    // Exact failures show the whole state, leaving out zeros the expectation did not mention
+    const shown = expect.exact
+        ? new Map(Array.from(actual).filter(([name, value]) => value !== 0n || expect.values.has(name)))
+        : actual;
+    return result(passed, formatValues(shown));
+}
+
+// Every case on the program, and with `translate` also on each of its translations
+export function runSpec(target: TaggedProgram, spec: Spec, options: { translate?: boolean } = {}): CaseResult[] {
+    const compared = programStats(target).variables;
+    const results = spec.cases.map((testCase) => checkCase(target, testCase, spec.maxSteps, compared));
+    if (!options.translate) return results;
+
+    for (const path of TRANSLATION_PATHS.filter((path) => path.from === target.language)) {
+        let translated: TaggedProgram;
+        try {
+            translated = translateProgram(target, path.to);
+        } catch (error: any) {
+            for (const testCase of spec.cases) {
+                results.push({ testCase, language: path.to, passed: false, actual: `error: ${error.message}` });
+            }
+            continue;
+        }
+        for (const testCase of spec.cases) {
+            results.push(checkCase(translated, testCase, spec.maxSteps * TRANSLATED_STEP_FACTOR, compared));
+        }
+    }
+    return results;
+}
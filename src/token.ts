@@ -1,3 +1,5 @@
+import type { SourceSpan } from "./span";
+
 export type TokenType = 
     | "keyword"
     | "identifier"
@@ -8,7 +10,17 @@ export type TokenType =
     | "semicolon"
     | "colon";     // New: used for labels like M1:
 
+// Comments are not tokens; they ride along on the nearest token as trivia
+export type Trivia = {
+    kind: "lineComment" | "blockComment";
+    text: string; // raw text including the comment markers
+    span: SourceSpan;
+};
+
 export type Token = {
     type: TokenType;
     value: string;
+    span: SourceSpan;
+    leadingTrivia?: Trivia[];  // comments on the lines before this token
+    trailingTrivia?: Trivia[]; // comments after this token on the same line (or at end of file)
 }
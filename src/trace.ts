@@ -0,0 +1,254 @@
+// Time-travel traces: a run recorded as per-step variable diffs, saved as JSON and replayed
+// forwards and backwards without executing the program again.
+import type { Language } from "./parse";
+import type { ExecutionOutcome } from "./execution";
+import type { ExecutionObserver, StatementNode } from "./events";
+import { statementText } from "./events";
+import type { DebuggerIO } from "./debugger";
+
+export const TRACE_VERSION = 1;
+
+// JSON layout of a trace file. Values are decimal strings (they may exceed 2^53).
+export type TraceFile = {
+    version: number;
+    language: Language;
+    initial: Record<string, string>;               // variables before the first step
+    statements: { line?: number; text: string }[]; // referenced by TraceStep.at
+    steps: TraceStep[];
+    outcome: { status: ExecutionOutcome["status"]; steps: number; message?: string };
+};
+
+export type TraceStep = {
+    at: number;                    // index into `statements`
+    pc?: number;                   // GOTO only
+    set?: Record<string, string>;  // variables this step assigned
+};
+
+// Observer that records a run; call finish() with the outcome afterwards
+export class TraceRecorder {
+    public readonly observer: ExecutionObserver;
+    private readonly language: Language;
+    private readonly initial: Map<string, bigint>;
+    private readonly sourceLines: string[];
+    private readonly ids: Map<StatementNode, number>;
+    private readonly statements: TraceFile["statements"];
+    private readonly steps: TraceStep[];
+
+    constructor(language: Language, initial: Map<string, bigint> = new Map(), source?: string) {
+        this.language = language;
+        this.initial = new Map(initial);
+        this.sourceLines = source !== undefined ? source.split("\n") : [];
+        this.ids = new Map();
+        this.statements = [];
+        this.steps = [];
+
+        this.observer = (event) => {
+            switch (event.type) {
+                case "statement": {
+                    const step: TraceStep = { at: this.idOf(event.node) };
+                    if (event.pc !== undefined) step.pc = event.pc;
+                    this.steps.push(step);
+                    break;
+                }
+                case "assignment": {
+                    const step = this.steps[this.steps.length - 1];
+                    if (step) (step.set ??= {})[event.variable] = String(event.newValue);
+                    break;
+                }
+            }
+        };
+    }
+
+    public finish(outcome: ExecutionOutcome): TraceFile {
+        const summary: TraceFile["outcome"] = { status: outcome.status, steps: outcome.steps };
+        if (outcome.status === "budgetExceeded") summary.message = outcome.message;
+        return {
+            version: TRACE_VERSION,
+            language: this.language,
+            initial: Object.fromEntries(Array.from(this.initial, ([name, value]) => [name, String(value)])),
+            statements: this.statements,
+            steps: this.steps,
+            outcome: summary,
+        };
+    }
+
+    private idOf(node: StatementNode): number {
+        let id = this.ids.get(node);
+        if (id === undefined) {
+            id = this.statements.length;
+            this.ids.set(node, id);
+            const text = statementText(this.language, node, this.sourceLines);
+            this.statements.push(node.span ? { line: node.span.start.line, text } : { text });
+        }
+        return id;
+    }
+}
+
+// Every CHECKPOINT steps the full state is kept, so any position is at most that many diffs away
+const CHECKPOINT = 256;
+
+// Random access over a recorded run. Position i is the state before step i;
+// position `length` is the state after the last step.
+export class Trace {
+    public readonly data: TraceFile;
+    private readonly checkpoints: Map<string, bigint>[];
+
+    constructor(data: TraceFile) {
+        this.data = data;
+        this.checkpoints = [];
+
+        let state = new Map(Object.entries(data.initial).map(([name, value]) => [name, BigInt(value)]));
+        data.steps.forEach((step, i) => {
+            if (i % CHECKPOINT === 0) this.checkpoints.push(new Map(state));
+            state = applyStep(state, step);
+        });
+    }
+
+    public static fromJSON(text: string): Trace {
+        const data = JSON.parse(text) as TraceFile;
+        if (data.version !== TRACE_VERSION) {
+            throw new Error(`Unsupported trace version: ${data.version} (expected ${TRACE_VERSION})`);
+        }
+        if (!Array.isArray(data.steps) || !Array.isArray(data.statements)) {
+            throw new Error("Not a trace file");
+        }
+        return new Trace(data);
+    }
+
+    public get length(): number {
+        return this.data.steps.length;
+    }
+
+    public stateAt(position: number): Map<string, bigint> {
+        const index = Math.max(0, Math.min(position, this.length));
+        const checkpoint = Math.min(Math.floor(index / CHECKPOINT), this.checkpoints.length - 1);
+        if (checkpoint < 0) {
+            return new Map(Object.entries(this.data.initial).map(([name, value]) => [name, BigInt(value)]));
+        }
+        let state = new Map(this.checkpoints[checkpoint]);
+        for (let i = checkpoint * CHECKPOINT; i < index; i++) {
+            state = applyStep(state, this.data.steps[i]!);
+        }
+        return state;
+    }
+
+    // Most recent step before `position` that assigned `name`
+    public lastChange(name: string, position: number): number | undefined {
+        for (let i = Math.min(position, this.length) - 1; i >= 0; i--) {
+            if (this.data.steps[i]?.set?.[name] !== undefined) return i;
+        }
+        return undefined;
+    }
+
+    // First step at or after `position` that assigns `name`
+    public nextChange(name: string, position: number): number | undefined {
+        for (let i = Math.max(position, 0); i < this.length; i++) {
+            if (this.data.steps[i]?.set?.[name] !== undefined) return i;
+        }
+        return undefined;
+    }
+
+    // "[step 3/12] line 4 [pc=3]: x1 := x1 - 1;"
+    public describe(position: number): string {
+        if (position >= this.length) {
+            const { outcome } = this.data;
+            return `[end ${this.length}/${this.length}] ${outcome.status === "halted" ? "halted" : `stopped: ${outcome.message}`}`;
+        }
+        const step = this.data.steps[position]!;
+        const statement = this.data.statements[step.at];
+        const line = statement?.line !== undefined ? ` line ${statement.line}` : "";
+        const pc = step.pc !== undefined ? ` [pc=${step.pc}]` : "";
+        return `[step ${position}/${this.length}]${line}${pc}: ${statement?.text ?? "?"}`;
+    }
+}
+
+function applyStep(state: Map<string, bigint>, step: TraceStep): Map<string, bigint> {
+    if (step.set) {
+        for (const [name, value] of Object.entries(step.set)) state.set(name, BigInt(value));
+    }
+    return state;
+}
+
+const REPLAY_HELP = [
+    "  step, s [n]      Forward one (or n) steps",
+    "  back, b [n]      Backward one (or n) steps",
+    "  goto <n>         Jump to step n",
+    "  last x3          Jump back to the last step that changed x3",
+    "  next x3          Jump forward to the next step that changes x3",
+    "  print, p [x1 ...] Show variables at this point",
+    "  where            Show the current step",
+    "  quit, q          Leave the replay",
+];
+
+// Interactive navigation over a recorded trace (`lang replay <trace.json>`)
+export function replay(trace: Trace, io: DebuggerIO): void {
+    let position = 0;
+
+    const show = () => {
+        io.write(trace.describe(position));
+        const changes = trace.data.steps[position]?.set;
+        if (changes) {
+            const before = trace.stateAt(position);
+            for (const [name, value] of Object.entries(changes)) {
+                io.write(`   ${name}: ${before.get(name) ?? 0n} -> ${value}`);
+            }
+        }
+    };
+    const move = (target: number | undefined, missing: string) => {
+        if (target === undefined) {
+            io.write(missing);
+            return;
+        }
+        position = Math.max(0, Math.min(target, trace.length));
+        show();
+    };
+
+    show();
+    while (true) {
+        const line = io.readLine("(replay) ");
+        if (line === null) return;
+        const [name = "", ...rest] = line.trim().split(/\s+/);
+        const count = rest[0] !== undefined && /^\d+$/.test(rest[0]) ? parseInt(rest[0]) : 1;
+        switch (name) {
+            case "":
+            case "s":
+            case "step":
+                move(position + count, "");
+                break;
+            case "b":
+            case "back":
+                move(position - count, "");
+                break;
+            case "goto":
+                move(rest[0] !== undefined && /^\d+$/.test(rest[0]) ? parseInt(rest[0]) : undefined, "Usage: goto <step>");
+                break;
+            case "last":
+                move(rest[0] ? trace.lastChange(rest[0], position) : undefined, `${rest[0] ?? "Variable"} was not changed before this step.`);
+                break;
+            case "next":
+                move(rest[0] ? trace.nextChange(rest[0], position + 1) : position + 1,
+                    `${rest[0] ?? "Variable"} is not changed after this step.`);
+                break;
+            case "p":
+            case "print": {
+                const state = trace.stateAt(position);
+                const names = rest.length > 0 ? rest : Array.from(state.keys()).sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+                if (names.length === 0) io.write("No variables set yet.");
+                for (const variable of names) io.write(`  ${variable} = ${state.get(variable) ?? 0n}`);
+                break;
+            }
+            case "where":
+                show();
+                break;
+            case "q":
+            case "quit":
+                return;
+            case "h":
+            case "help":
+                for (const helpLine of REPLAY_HELP) io.write(helpLine);
+                break;
+            default:
+                io.write(`Unknown command: ${name}. Type 'help' for a list of commands.`);
+        }
+    }
+}
@@ -0,0 +1,51 @@
+// The translation paths between the three languages, as used by `-t2while`/`-t2goto`
+import { LoopToWhileTranslator } from "./translators/loopToWhile";
+import { WhileToGotoTranslator } from "./translators/whileToGoto";
+import { GotoToWhileTranslator } from "./translators/gotoToWhile";
+import { StructuredGotoToWhileTranslator } from "./translators/gotoToWhileStructured";
+import type { Language, TaggedProgram } from "./parse";
+import type { EvalOptions } from "./execution";
+import { DEFAULT_MAX_STEPS } from "./execution";
+
+export type TranslationPath = { from: Language; to: Language };
+
+export const TRANSLATION_PATHS: readonly TranslationPath[] = [
+    { from: "loop", to: "while" },
+    { from: "loop", to: "goto" },   // via WHILE
+    { from: "while", to: "goto" },
+    { from: "goto", to: "while" },
+];
+
+// Translations take more steps than their source (the dispatch GOTO to WHILE translation tests
+// every instruction's IF on each step); runs of a translation get this many times the original's
+// step budget
+export const TRANSLATED_STEP_FACTOR = 100;
+
+// The options for running a translation next to its source: the same, with the scaled step budget
+export function translatedLimits(limits: EvalOptions): EvalOptions {
+    return { ...limits, maxSteps: (limits.maxSteps ?? DEFAULT_MAX_STEPS) * TRANSLATED_STEP_FACTOR };
+}
+
+export type TranslateOptions = {
+    // GOTO to WHILE: "structured" recovers the loops and IFs of the program (the default);
+    // "dispatch" is the one-loop program-counter construction of the Kleene normal form proof
+    gotoToWhile?: "structured" | "dispatch";
+};
+
+export function translateProgram(source: TaggedProgram, to: Language, options: TranslateOptions = {}): TaggedProgram {
+    if (source.language === "loop" && to === "while") {
+        return { language: "while", program: new LoopToWhileTranslator().translate(source.program) };
+    }
+    if (source.language === "loop" && to === "goto") {
+        const whileAst = new LoopToWhileTranslator().translate(source.program);
+        return { language: "goto", program: new WhileToGotoTranslator().translate(whileAst) };
+    }
+    if (source.language === "while" && to === "goto") {
+        return { language: "goto", program: new WhileToGotoTranslator().translate(source.program) };
+    }
+    if (source.language === "goto" && to === "while") {
+        const translator = options.gotoToWhile === "dispatch" ? new GotoToWhileTranslator() : new StructuredGotoToWhileTranslator();
+        return { language: "while", program: translator.translate(source.program) };
+    }
+    throw new Error(`Cannot translate from ${source.language.toUpperCase()} to ${to.toUpperCase()}`);
+}
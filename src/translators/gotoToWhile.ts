@@ -1,44 +1,17 @@
 import type { Program as GotoProgram, Instruction, Expression as GotoExpression, Condition as GotoCondition } from "../goto/ast";
 import type { Program as WhileProgram, Statement as WhileStatement, Expression as WhileExpression, Condition as WhileCondition } from "../while/ast";
+import { buildGotoCfg, maxVariableIndex } from "../cfg";
 
 // PC with x_k := 1; WHILE x_k != 0 DO IF x_k = i THEN ... END END
 export class GotoToWhileTranslator {
     private labelMap: Map<string, number> = new Map();
     private pcVar: string = "x0";
 
-    private findMaxVariableIndex(program: GotoProgram): number {
-        let maxIndex = -1;
-
-        const checkExpr = (expr: GotoExpression): void => {
-            if (expr.type === "variable") {
-                const match = expr.name.match(/^x(\d+)$/);
-                if (match?.[1]) maxIndex = Math.max(maxIndex, parseInt(match[1], 10));
-            } else if (expr.type === "binaryOp") {
-                checkExpr(expr.left);
-                checkExpr(expr.right);
-            }
-        };
-
-        for (const instr of program.instructions) {
-            const stmt = instr.statement;
-            if (stmt.type === "assignment") {
-                const match = stmt.variable.match(/^x(\d+)$/);
-                if (match?.[1]) maxIndex = Math.max(maxIndex, parseInt(match[1], 10));
-                checkExpr(stmt.value);
-            } else if (stmt.type === "if_goto") {
-                checkExpr(stmt.condition.left);
-                checkExpr(stmt.condition.right);
-            }
-        }
-
-        return maxIndex;
-    }
-
     public translate(program: GotoProgram): WhileProgram {
         const instructions = program.instructions;
         
         // Use fresh variable for PC
-        this.pcVar = `x${this.findMaxVariableIndex(program) + 1}`;
+        this.pcVar = `x${maxVariableIndex(buildGotoCfg(program)) + 1}`;
 
         // Build label map (1-based)
         this.labelMap = new Map();
@@ -57,14 +30,14 @@ export class GotoToWhileTranslator {
         return {
             type: "program",
             statements: [
-                { type: "assignment", variable: this.pcVar, value: { type: "number", value: 1 } },
+                { type: "assignment", variable: this.pcVar, value: { type: "number", value: 1n } },
                 {
                     type: "while",
                     condition: {
                         type: "condition",
                         operator: "!=",
                         left: { type: "variable", name: this.pcVar },
-                        right: { type: "number", value: 0 }
+                        right: { type: "number", value: 0n }
                     },
                     body: ifBlocks
                 }
@@ -87,7 +60,7 @@ export class GotoToWhileTranslator {
                 thenBody.push({
                     type: "assignment",
                     variable: this.pcVar,
-                    value: { type: "number", value: nextPcVal }
+                    value: { type: "number", value: BigInt(nextPcVal) }
                 });
                 break;
 
@@ -97,7 +70,7 @@ export class GotoToWhileTranslator {
                 thenBody.push({
                     type: "assignment",
                     variable: this.pcVar,
-                    value: { type: "number", value: targetPc }
+                    value: { type: "number", value: BigInt(targetPc) }
                 });
                 break;
             }
@@ -111,12 +84,12 @@ export class GotoToWhileTranslator {
                     thenBody: [{
                         type: "assignment",
                         variable: this.pcVar,
-                        value: { type: "number", value: targetPc }
+                        value: { type: "number", value: BigInt(targetPc) }
                     }],
                     elseBody: [{
                         type: "assignment",
                         variable: this.pcVar,
-                        value: { type: "number", value: nextPcVal }
+                        value: { type: "number", value: BigInt(nextPcVal) }
                     }]
                 });
                 break;
@@ -126,7 +99,7 @@ export class GotoToWhileTranslator {
                 thenBody.push({
                     type: "assignment",
                     variable: this.pcVar,
-                    value: { type: "number", value: 0 }
+                    value: { type: "number", value: 0n }
                 });
                 break;
         }
@@ -137,7 +110,7 @@ export class GotoToWhileTranslator {
                 type: "condition",
                 operator: "=",
                 left: { type: "variable", name: this.pcVar },
-                right: { type: "number", value: pcValue }
+                right: { type: "number", value: BigInt(pcValue) }
             },
             thenBody
         };
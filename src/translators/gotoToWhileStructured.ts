@@ -0,0 +1,337 @@
+import type { Program as GotoProgram, Expression as GotoExpression, Condition as GotoCondition } from "../goto/ast";
+import type { Program as WhileProgram, Statement as WhileStatement, Expression as WhileExpression, Condition as WhileCondition } from "../while/ast";
+import type { ControlFlowGraph } from "../cfg";
+import { buildGotoCfg, immediateDominators, maxVariableIndex, outgoing, reachableBlocks } from "../cfg";
+import { GotoToWhileTranslator } from "./gotoToWhile";
+
+// Restructures the GOTO control-flow graph (see cfg.ts) instead of simulating the program counter:
+//   M1: IF c THEN GOTO M2; body; GOTO M1; M2: ...   =>  WHILE !c DO body END; ...
+// Loops with one entry become WHILE loops, forward jumps become IF/ELSE joined where the branches
+// meet again. A loop entered at several places (irreducible) keeps a local program counter, as
+// GotoToWhileTranslator does for the whole program.
+
+// A part of the graph structured into one statement list: the program, or the body of a loop.
+// Nodes are the CFG's basic blocks.
+type Region = {
+    nodes: Set<number>;
+    entry: number;
+    header?: number;                        // jumping to the loop header ends the iteration
+    exits: Map<number, WhileStatement[]>;   // what leaving the region to a node outside it does
+};
+
+// One node of a region once its loops are collapsed
+type Item =
+    | { kind: "block"; node: number }
+    | { kind: "loop"; header: number; nodes: Set<number>; exits: number[] }
+    | { kind: "dispatch"; nodes: number[]; exits: number[]; pc: string };
+
+type LoopCode = { statements: WhileStatement[]; selector?: string };  // selector: numbers the exit taken
+
+// Raised when duplicating code for IF/ELSE grows the program too much; the program is then
+// translated with the dispatch scheme
+class TooLarge extends Error {}
+
+export class StructuredGotoToWhileTranslator {
+    private cfg: ControlFlowGraph = buildGotoCfg({ type: "program", instructions: [] });
+    private successors: number[][] = [];    // per block; after an IF, the "true" target comes first
+    private conditions: Array<GotoCondition | undefined> = [];  // the test ending each block, if any
+    private nextFreshVarIndex = 0;
+    private emitted = 0;
+    private maxEmitted = 0;
+    private loopCode: Map<Item, LoopCode> = new Map();   // loops reached on several paths are shared
+
+    private freshVar(): string {
+        return `x${this.nextFreshVarIndex++}`;
+    }
+
+    public translate(program: GotoProgram): WhileProgram {
+        this.cfg = buildGotoCfg(program);
+        const edges = this.cfg.blocks.map((block) => outgoing(this.cfg, block.id));
+        this.successors = edges.map((out) => out.map((edge) => edge.to));
+        this.conditions = edges.map((out) => out[0]?.condition);
+        this.nextFreshVarIndex = maxVariableIndex(this.cfg) + 1;
+        this.emitted = 0;
+        this.maxEmitted = 4 * this.cfg.blocks.length + 20;
+        this.loopCode = new Map();
+
+        const nodes = reachableBlocks(this.cfg);
+        nodes.delete(this.cfg.exit);
+        try {
+            const statements = this.structure({ nodes, entry: this.cfg.entry, exits: new Map([[this.cfg.exit, []]]) });
+            return { type: "program", statements };
+        } catch (error) {
+            if (!(error instanceof TooLarge)) throw error;
+            return new GotoToWhileTranslator().translate(program);
+        }
+    }
+
+    private statements(node: number): WhileStatement[] {
+        return this.cfg.blocks[node]!.statements.map((stmt) => ({ type: "assignment", variable: stmt.variable, value: this.translateExpression(stmt.value) }));
+    }
+
+    // Edges inside a region; jumps to its header or out of it are not part of its graph
+    private regionSuccessors(region: Region, node: number): number[] {
+        return this.successors[node]!.filter((next) => next !== region.header && region.nodes.has(next));
+    }
+
+    private structure(region: Region): WhileStatement[] {
+        const itemOf = this.collapse(region);
+        const items = Array.from(new Set(itemOf.values()));
+        const merge = this.mergePoints(region, items, itemOf);
+
+        const follow = (target: number, stop: Item | undefined): WhileStatement[] => {
+            if (target === region.header) return [];
+            if (!region.nodes.has(target)) return [...region.exits.get(target)!];
+            return enter(target, stop);
+        };
+
+        const enter = (node: number, stop: Item | undefined): WhileStatement[] => {
+            const item = itemOf.get(node)!;
+            const prefix = item.kind === "dispatch" ? [this.assign(item.pc, item.nodes.indexOf(node) + 1)] : [];
+            return item === stop ? prefix : [...prefix, ...generate(item, stop)];
+        };
+
+        // Code from `item` up to (not including) `stop`
+        const generate = (item: Item, stop: Item | undefined): WhileStatement[] => {
+            if (++this.emitted > this.maxEmitted) throw new TooLarge();
+            switch (item.kind) {
+                case "block": {
+                    const [first, second] = this.successors[item.node]!;
+                    const condition = this.conditions[item.node];
+                    if (!condition) return [...this.statements(item.node), ...follow(first!, stop)];
+                    return [...this.statements(item.node),
+                        ...branch(item, [first!, second!], stop, ([jump, fall]) => this.ifElse(this.translateCondition(condition), jump!, fall!))];
+                }
+                case "loop":
+                case "dispatch": {
+                    let code = this.loopCode.get(item);
+                    if (!code) {
+                        code = item.kind === "loop" ? this.loop(item) : this.dispatch(item);
+                        this.loopCode.set(item, code);
+                    }
+                    const selector = code.selector;
+                    if (item.exits.length === 0) return code.statements;
+                    if (item.exits.length === 1 || !selector) return [...code.statements, ...follow(item.exits[0]!, stop)];
+                    return [...code.statements, ...branch(item, item.exits, stop, (parts) => this.select(selector, parts))];
+                }
+            }
+        };
+
+        // A choice between `targets`, continued after the point where they meet again
+        const branch = (item: Item, targets: number[], stop: Item | undefined, choose: (parts: WhileStatement[][]) => WhileStatement[]): WhileStatement[] => {
+            const join = merge.get(item);
+            const parts = targets.map((target) => follow(target, join ?? stop));
+            const code = choose(parts);
+            if (!join || join === stop) return code;
+            return [...code, ...generate(join, stop)];
+        };
+
+        return enter(region.entry, undefined);
+    }
+
+    // Groups the region's strongly connected components: each becomes a loop when it has a single
+    // entry, and a dispatch loop otherwise
+    private collapse(region: Region): Map<number, Item> {
+        const itemOf = new Map<number, Item>();
+        for (const component of this.components(region)) {
+            const first = component[0]!;
+            if (component.length === 1 && !this.regionSuccessors(region, first).includes(first)) {
+                itemOf.set(first, { kind: "block", node: first });
+                continue;
+            }
+            const nodes = new Set(component);
+            const entries = component.filter((node) => node === region.entry
+                || Array.from(region.nodes).some((other) => !nodes.has(other) && this.regionSuccessors(region, other).includes(node)));
+            const exits = Array.from(new Set(component.flatMap((node) => this.successors[node]!.filter((next) => !nodes.has(next)))))
+                .sort((a, b) => a - b);
+            const item: Item = entries.length === 1
+                ? { kind: "loop", header: entries[0]!, nodes, exits }
+                : { kind: "dispatch", nodes: [...component].sort((a, b) => a - b), exits, pc: this.freshVar() };
+            for (const node of component) itemOf.set(node, item);
+        }
+        return itemOf;
+    }
+
+    // Tarjan's algorithm on the region's graph
+    private components(region: Region): number[][] {
+        const index = new Map<number, number>();
+        const lowLink = new Map<number, number>();
+        const stack: number[] = [];
+        const onStack = new Set<number>();
+        const result: number[][] = [];
+
+        const visit = (node: number): void => {
+            index.set(node, index.size);
+            lowLink.set(node, index.get(node)!);
+            stack.push(node);
+            onStack.add(node);
+            for (const next of this.regionSuccessors(region, node)) {
+                if (!index.has(next)) {
+                    visit(next);
+                    lowLink.set(node, Math.min(lowLink.get(node)!, lowLink.get(next)!));
+                } else if (onStack.has(next)) {
+                    lowLink.set(node, Math.min(lowLink.get(node)!, index.get(next)!));
+                }
+            }
+            if (lowLink.get(node) === index.get(node)) {
+                const component: number[] = [];
+                let member: number;
+                do {
+                    member = stack.pop()!;
+                    onStack.delete(member);
+                    component.push(member);
+                } while (member !== node);
+                result.push(component.sort((a, b) => a - b));
+            }
+        };
+
+        for (const node of Array.from(region.nodes).sort((a, b) => a - b)) {
+            if (!index.has(node)) visit(node);
+        }
+        return result;
+    }
+
+    // Where the branches of each item meet again: its immediate post-dominator among the items.
+    // Items whose branches only meet when leaving the region (or never) have none.
+    private mergePoints(region: Region, items: Item[], itemOf: Map<number, Item>): Map<Item, Item> {
+        // Graph nodes: the items, one per place to leave the region (header or exit target), and
+        // a sink after all of them
+        const leaving = new Map<number, number>();
+        const nodeOf = (target: number): number => {
+            if (target !== region.header && region.nodes.has(target)) return items.indexOf(itemOf.get(target)!);
+            if (!leaving.has(target)) leaving.set(target, items.length + leaving.size);
+            return leaving.get(target)!;
+        };
+        const successors: number[][] = items.map((item) => {
+            const targets = item.kind === "block" ? this.successors[item.node]! : item.exits;
+            return targets.map(nodeOf);
+        });
+        for (let i = 0; i < leaving.size; i++) successors.push([]);
+        const sink = successors.length;
+        for (let i = items.length; i < sink; i++) successors[i]!.push(sink);
+        successors.push([]);
+
+        const predecessors: number[][] = successors.map(() => []);
+        successors.forEach((nexts, node) => nexts.forEach((next) => predecessors[next]!.push(node)));
+        const postDominators = immediateDominators(successors.length, sink, (node) => predecessors[node]!);
+
+        const merge = new Map<Item, Item>();
+        items.forEach((item, i) => {
+            const join = postDominators[i];
+            if (join !== undefined && join < items.length) merge.set(item, items[join]!);
+        });
+        return merge;
+    }
+
+    // WHILE loop for a loop with a single entry. When the header is an IF that alone leaves the
+    // loop it becomes the condition; otherwise a flag records that (and where) the loop was left.
+    // Like the dispatch program counter, flags end as 0.
+    private loop(item: Extract<Item, { kind: "loop" }>): LoopCode {
+        const test = this.conditions[item.header];
+        const leavesLoop = (node: number) => this.successors[node]!.some((next) => !item.nodes.has(next));
+        const onlyExit = item.exits.length === 1 && Array.from(item.nodes).every((node) => node === item.header || !leavesLoop(node));
+        if (test && this.cfg.blocks[item.header]!.statements.length === 0 && onlyExit) {
+            const [jump, fall] = this.successors[item.header]!;
+            const stay = item.nodes.has(jump!) ? jump! : fall!;
+            const condition = this.translateCondition(test);
+            const nodes = new Set(Array.from(item.nodes).filter((node) => node !== item.header));
+            const body = stay === item.header ? [] : this.structure({ nodes, entry: stay, header: item.header, exits: new Map() });
+            return { statements: [{ type: "while", condition: stay === jump ? condition : negate(condition), body }] };
+        }
+
+        // One way out: f := 1; WHILE f != 0 DO ... f := 0 ... END
+        // Several: f := 0; WHILE f = 0 DO ... f := <exit> ... END, then a choice on f
+        const flag = this.freshVar();
+        const single = item.exits.length <= 1;
+        const exits = new Map(item.exits.map((target, i) => [target, [this.assign(flag, single ? 0 : i + 1)]]));
+        const body = this.structure({ nodes: item.nodes, entry: item.header, header: item.header, exits });
+        const statements: WhileStatement[] = [
+            this.assign(flag, single ? 1 : 0),
+            { type: "while", condition: this.compare(flag, single ? "!=" : "=", 0), body },
+        ];
+        return single ? { statements } : { statements, selector: flag };
+    }
+
+    // An irreducible loop: pc := <entry>; WHILE pc != 0 DO IF pc = i THEN ... END ... END
+    private dispatch(item: Extract<Item, { kind: "dispatch" }>): LoopCode {
+        const selector = item.exits.length > 1 ? this.freshVar() : undefined;
+        const jump = (target: number): WhileStatement[] => {
+            const local = item.nodes.indexOf(target);
+            if (local >= 0) return [this.assign(item.pc, local + 1)];
+            if (!selector) return [this.assign(item.pc, 0)];
+            return [this.assign(item.pc, 0), this.assign(selector, item.exits.indexOf(target) + 1)];
+        };
+
+        const blocks: WhileStatement[] = item.nodes.map((node, i) => {
+            const [first, second] = this.successors[node]!;
+            const condition = this.conditions[node];
+            const thenBody = [...this.statements(node),
+                ...(condition ? this.ifElse(this.translateCondition(condition), jump(first!), jump(second!)) : jump(first!))];
+            return { type: "if", condition: this.compare(item.pc, "=", i + 1), thenBody };
+        });
+
+        const statements: WhileStatement[] = [{ type: "while", condition: this.compare(item.pc, "!=", 0), body: blocks }];
+        return selector ? { statements, selector } : { statements };
+    }
+
+    // IF c THEN a ELSE b END, without empty branches
+    private ifElse(condition: WhileCondition, thenBody: WhileStatement[], elseBody: WhileStatement[]): WhileStatement[] {
+        if (thenBody.length === 0 && elseBody.length === 0) return [];
+        if (thenBody.length === 0) return [{ type: "if", condition: negate(condition), thenBody: elseBody }];
+        if (elseBody.length === 0) return [{ type: "if", condition, thenBody }];
+        return [{ type: "if", condition, thenBody, elseBody }];
+    }
+
+    // IF s = 1 THEN s := 0; ... ELSE IF s = 2 THEN ... END END for the ways a loop was left
+    private select(selector: string, parts: WhileStatement[][]): WhileStatement[] {
+        const reset = (part: WhileStatement[]) => [this.assign(selector, 0), ...part];
+        let code = reset(parts[parts.length - 1]!);
+        for (let i = parts.length - 2; i >= 0; i--) {
+            code = this.ifElse(this.compare(selector, "=", i + 1), reset(parts[i]!), code);
+        }
+        return code;
+    }
+
+    private assign(variable: string, value: number): WhileStatement {
+        return { type: "assignment", variable, value: { type: "number", value: BigInt(value) } };
+    }
+
+    private compare(variable: string, operator: "=" | "!=", value: number): WhileCondition {
+        return {
+            type: "condition",
+            operator,
+            left: { type: "variable", name: variable },
+            right: { type: "number", value: BigInt(value) }
+        };
+    }
+
+    private translateCondition(cond: GotoCondition): WhileCondition {
+        return {
+            type: "condition",
+            operator: cond.operator,
+            left: this.translateExpression(cond.left),
+            right: this.translateExpression(cond.right)
+        };
+    }
+
+    private translateExpression(expr: GotoExpression): WhileExpression {
+        switch (expr.type) {
+            case "number": return { type: "number", value: expr.value };
+            case "variable": return { type: "variable", name: expr.name };
+            case "binaryOp": return {
+                type: "binaryOp",
+                operator: expr.operator,
+                left: this.translateExpression(expr.left),
+                right: this.translateExpression(expr.right)
+            };
+        }
+    }
+}
+
+const NEGATED: Record<WhileCondition["operator"], WhileCondition["operator"]> = {
+    "=": "!=", "!=": "=", "<": ">=", ">=": "<", ">": "<=", "<=": ">",
+};
+
+function negate(condition: WhileCondition): WhileCondition {
+    return { ...condition, operator: NEGATED[condition.operator] };
+}
@@ -79,7 +79,7 @@ export class LoopToWhileTranslator {
                 type: "binaryOp",
                 operator: "-",
                 left: { type: "variable", name: tempVar },
-                right: { type: "number", value: 1 }
+                right: { type: "number", value: 1n }
             }
         };
 
@@ -89,7 +89,7 @@ export class LoopToWhileTranslator {
                 type: "condition",
                 operator: "!=",
                 left: { type: "variable", name: tempVar },
-                right: { type: "number", value: 0 }
+                right: { type: "number", value: 0n }
             },
             body: [...this.translateStatements(stmt.body), decrementTemp]
         };
@@ -1,45 +1,12 @@
 import type { Program as WhileProgram, Statement as WhileStatement, Expression as WhileExpression, Condition as WhileCondition } from "../while/ast";
 import type { Program as GotoProgram, Instruction, Statement as GotoStatement, Expression as GotoExpression, Condition as GotoCondition } from "../goto/ast";
+import { buildWhileCfg, maxVariableIndex } from "../cfg";
 
 // WHILE cond DO body END  =>  M_i: IF NOT cond THEN GOTO M_j; body; GOTO M_i; M_j: ...
 export class WhileToGotoTranslator {
     private labelCounter = 0;
     private nextFreshVarIndex = 0;
 
-    private findMaxVariableIndex(program: WhileProgram): number {
-        let maxIndex = -1;
-
-        const checkExpr = (expr: WhileExpression): void => {
-            if (expr.type === "variable") {
-                const match = expr.name.match(/^x(\d+)$/);
-                if (match?.[1]) maxIndex = Math.max(maxIndex, parseInt(match[1], 10));
-            } else if (expr.type === "binaryOp") {
-                checkExpr(expr.left);
-                checkExpr(expr.right);
-            }
-        };
-
-        const checkStmt = (stmt: WhileStatement): void => {
-            if (stmt.type === "assignment") {
-                const match = stmt.variable.match(/^x(\d+)$/);
-                if (match?.[1]) maxIndex = Math.max(maxIndex, parseInt(match[1], 10));
-                checkExpr(stmt.value);
-            } else if (stmt.type === "while") {
-                checkExpr(stmt.condition.left);
-                checkExpr(stmt.condition.right);
-                stmt.body.forEach(checkStmt);
-            } else if (stmt.type === "if") {
-                checkExpr(stmt.condition.left);
-                checkExpr(stmt.condition.right);
-                stmt.thenBody.forEach(checkStmt);
-                stmt.elseBody?.forEach(checkStmt);
-            }
-        };
-
-        program.statements.forEach(checkStmt);
-        return maxIndex;
-    }
-
     private freshLabel(): string {
         return `M${this.labelCounter++}`;
     }
@@ -50,7 +17,7 @@ export class WhileToGotoTranslator {
 
     public translate(program: WhileProgram): GotoProgram {
         this.labelCounter = 0;
-        this.nextFreshVarIndex = this.findMaxVariableIndex(program) + 1;
+        this.nextFreshVarIndex = maxVariableIndex(buildWhileCfg(program)) + 1;
         
         const instructions = this.translateStatements(program.statements);
         instructions.push({ statement: { type: "halt" } });
@@ -70,7 +37,7 @@ export class WhileToGotoTranslator {
         return {
             type: "assignment",
             variable: this.freshVar(),
-            value: { type: "number", value: 0 }
+            value: { type: "number", value: 0n }
         };
     }
 
@@ -121,11 +88,12 @@ export class WhileToGotoTranslator {
             instructions.push({ statement: { type: "goto", label: labelEnd } });
 
             const elseInstructions = this.translateStatements(stmt.elseBody);
-            if (elseInstructions.length > 0) {
+            // A first instruction that already has a label (a WHILE's loop head) keeps it
+            if (elseInstructions.length > 0 && elseInstructions[0]!.label === undefined) {
                 elseInstructions[0] = { label: labelElse, statement: elseInstructions[0]!.statement };
                 instructions.push(...elseInstructions);
             } else {
-                instructions.push({ label: labelElse, statement: this.createNoop() });
+                instructions.push({ label: labelElse, statement: this.createNoop() }, ...elseInstructions);
             }
             instructions.push({ label: labelEnd, statement: this.createNoop() });
         } else {
@@ -0,0 +1,179 @@
+// `--html=FILE`: a recorded run as one static page to step through with a slider, the current
+// statement highlighted in the source next to the variables. Everything is inlined, so the file
+// works offline; with -t2... the translation's run is shown beside the original's.
+import type { Language, TaggedProgram } from "./parse";
+import { parseProgram } from "./parse";
+import { printProgram } from "./printer";
+import { runProgram } from "./run";
+import type { EvalOptions } from "./execution";
+import type { TraceFile } from "./trace";
+import { TraceRecorder } from "./trace";
+import { translatedLimits } from "./translate";
+
+// Runs longer than this (translations: TRANSLATED_STEP_FACTOR times) are cut off unless --max-steps
+// asks for more; every step ends up in the page
+export const HTML_MAX_STEPS = 10_000;
+
+export type RecordedRun = {
+    title: string;
+    language: Language;
+    source: string;
+    trace: TraceFile;
+};
+
+// Runs `target` on the inputs and records it. `source` is the code `target` was parsed from;
+// without it (translations, imported ASTs) the program is printed and parsed again, so that
+// every statement has a line to highlight. A `translation` runs on TRANSLATED_STEP_FACTOR times
+// the budget, as under -verify, so it is not cut short where its source completes.
+export function recordRun(title: string, target: TaggedProgram, inputs: Map<string, bigint>,
+    options: { source?: string; limits?: EvalOptions; translation?: boolean } = {}): RecordedRun {
+    let source = options.source;
+    if (source === undefined) {
+        source = printProgram(target);
+        target = parseProgram(source, target.language).program;
+    }
+    const recorder = new TraceRecorder(target.language, inputs, source);
+    const budget = { ...options.limits, maxSteps: options.limits?.maxSteps ?? HTML_MAX_STEPS };
+    const limits = options.translation ? translatedLimits(budget) : budget;
+    const outcome = runProgram(target, {
+        ...limits,
+        initialVariables: new Map(inputs),
+        observers: [...(limits.observers ?? []), recorder.observer],
+    });
+    return { title, language: target.language, source, trace: recorder.finish(outcome) };
+}
+
+// The page for one or more runs (side by side), each with its own slider
+export function visualizationHtml(runs: RecordedRun[], inputs: Map<string, bigint>): string {
+    const title = runs.map((run) => run.title).join(" / ")
+        + (inputs.size > 0 ? ` (${Array.from(inputs, ([name, value]) => `${name}=${value}`).join(", ")})` : "");
+    // "<" escaped so that no "</script>" in a program's comments can end the data block
+    const data = JSON.stringify(runs).replace(/</g, "\\u003c");
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>${STYLE}</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<div id="runs"></div>
+<script type="application/json" id="data">${data}</script>
+<script>${SCRIPT}</script>
+</body>
+</html>
+`;
+}
+
+function escapeHtml(text: string): string {
+    return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+const STYLE = `
+body { font-family: sans-serif; margin: 1em; color: #222; }
+h1 { font-size: 1.2em; }
+h2 { font-size: 1em; margin: 0 0 .5em; }
+#runs { display: flex; gap: 2em; align-items: flex-start; flex-wrap: wrap; }
+.run { flex: 1; min-width: 22em; }
+.controls { display: flex; gap: .3em; align-items: center; margin-bottom: .5em; }
+.controls input[type=range] { flex: 1; }
+.status { font-family: monospace; margin-bottom: .5em; min-height: 1.2em; }
+pre { background: #f6f6f6; padding: .5em 0; margin: 0 0 1em; overflow-x: auto; }
+pre div { padding: 0 .5em; white-space: pre; }
+pre div.current { background: #ffe58a; }
+pre span.number { display: inline-block; width: 3em; color: #999; user-select: none; }
+table { border-collapse: collapse; font-family: monospace; }
+td, th { border: 1px solid #ccc; padding: .2em .6em; text-align: left; }
+tr.changed td { background: #d7f5d0; }
+`;
+
+// Position i is the state before step i, the last position the state after the run (as in
+// `lang replay`); the variables the previous step changed are marked.
+const SCRIPT = `
+"use strict";
+var runs = JSON.parse(document.getElementById("data").textContent);
+runs.forEach(function (run) {
+    var trace = run.trace;
+    var states = [Object.assign({}, trace.initial)];
+    trace.steps.forEach(function (step) {
+        states.push(Object.assign({}, states[states.length - 1], step.set || {}));
+    });
+
+    var pane = element("div", "run", document.getElementById("runs"));
+    element("h2", "", pane).textContent = run.title + " [" + run.language.toUpperCase() + "]";
+    var controls = element("div", "controls", pane);
+    var buttons = ["|<", "<", ">", ">|"].map(function (label) {
+        var button = element("button", "", controls);
+        button.textContent = label;
+        return button;
+    });
+    var slider = element("input", "", controls);
+    slider.type = "range";
+    slider.min = 0;
+    slider.max = trace.steps.length;
+    slider.value = 0;
+    var status = element("div", "status", pane);
+    var listing = element("pre", "", pane);
+    var lines = run.source.split("\\n").map(function (text, i) {
+        var line = element("div", "", listing);
+        element("span", "number", line).textContent = String(i + 1);
+        line.appendChild(document.createTextNode(text));
+        return line;
+    });
+    var table = element("table", "", pane);
+
+    function show(position) {
+        position = Math.max(0, Math.min(trace.steps.length, position));
+        slider.value = position;
+        var step = trace.steps[position];
+        var statement = step ? trace.statements[step.at] : null;
+        lines.forEach(function (line, i) {
+            line.className = statement && statement.line === i + 1 ? "current" : "";
+        });
+        if (step) {
+            status.textContent = "step " + (position + 1) + " of " + trace.steps.length
+                + (step.pc !== undefined ? ", pc = " + step.pc : "") + ": " + statement.text;
+        } else {
+            status.textContent = "after " + trace.steps.length + " steps: "
+                + (trace.outcome.status === "halted" ? "halted" : trace.outcome.message || trace.outcome.status);
+        }
+        var changed = (position > 0 && trace.steps[position - 1].set) || {};
+        var state = states[position];
+        table.textContent = "";
+        var header = element("tr", "", table);
+        element("th", "", header).textContent = "variable";
+        element("th", "", header).textContent = "value";
+        Object.keys(state).sort(byIndex).forEach(function (name) {
+            var row = element("tr", name in changed ? "changed" : "", table);
+            element("td", "", row).textContent = name;
+            element("td", "", row).textContent = state[name];
+        });
+    }
+
+    var moves = [
+        function () { return 0; },
+        function () { return Number(slider.value) - 1; },
+        function () { return Number(slider.value) + 1; },
+        function () { return trace.steps.length; },
+    ];
+    buttons.forEach(function (button, i) {
+        button.addEventListener("click", function () { show(moves[i]()); });
+    });
+    slider.addEventListener("input", function () { show(Number(slider.value)); });
+    show(0);
+});
+
+function element(tag, className, parent) {
+    var node = document.createElement(tag);
+    if (className) node.className = className;
+    parent.appendChild(node);
+    return node;
+}
+
+// x2 before x10
+function byIndex(a, b) {
+    var na = Number(a.replace(/^x/, "")), nb = Number(b.replace(/^x/, ""));
+    return isNaN(na) || isNaN(nb) ? (a < b ? -1 : a > b ? 1 : 0) : na - nb;
+}
+`;
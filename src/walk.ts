@@ -0,0 +1,68 @@
+// One traversal of LOOP, WHILE and GOTO programs in program order, for the analyses that only
+// need which statements there are and which variables they read and assign.
+import type { Statement as LoopStatement } from "./loop/ast";
+import type { Statement as WhileStatement, Expression, Condition } from "./while/ast";
+import type { StatementNode } from "./events";
+import type { TaggedProgram } from "./parse";
+
+export type ProgramVisitor = {
+    statement?: (node: StatementNode) => void; // every statement (GOTO: instruction), before its parts
+    read?: (name: string) => void;             // variables of expressions and conditions, LOOP counters
+    assign?: (name: string) => void;           // after the variables of the assigned value were read
+};
+
+export function walkProgram(target: TaggedProgram, visitor: ProgramVisitor): void {
+    const expression = (expr: Expression): void => {
+        switch (expr.type) {
+            case "variable":
+                visitor.read?.(expr.name);
+                break;
+            case "binaryOp":
+                expression(expr.left);
+                expression(expr.right);
+                break;
+        }
+    };
+    const condition = (cond: Condition): void => {
+        expression(cond.left);
+        expression(cond.right);
+    };
+    const assignment = (variable: string, value: Expression): void => {
+        expression(value);
+        visitor.assign?.(variable);
+    };
+    const statements = (body: Array<LoopStatement | WhileStatement>): void => {
+        for (const stmt of body) {
+            visitor.statement?.(stmt);
+            switch (stmt.type) {
+                case "assignment":
+                    assignment(stmt.variable, stmt.value);
+                    break;
+                case "loop":
+                    visitor.read?.(stmt.counter);
+                    statements(stmt.body);
+                    break;
+                case "while":
+                    condition(stmt.condition);
+                    statements(stmt.body);
+                    break;
+                case "if":
+                    condition(stmt.condition);
+                    statements(stmt.thenBody);
+                    if (stmt.elseBody) statements(stmt.elseBody);
+                    break;
+            }
+        }
+    };
+
+    if (target.language === "goto") {
+        for (const instr of target.program.instructions) {
+            visitor.statement?.(instr);
+            const stmt = instr.statement;
+            if (stmt.type === "assignment") assignment(stmt.variable, stmt.value);
+            else if (stmt.type === "if_goto") condition(stmt.condition);
+        }
+    } else {
+        statements(target.program.statements);
+    }
+}
@@ -0,0 +1,46 @@
+// Watch mode (`--watch`): the CLI runs a program again whenever its file is saved and shows how the
+// final state differs from the previous run's.
+import * as fs from 'fs';
+
+export type StateChange = {
+    name: string;
+    before?: bigint;  // missing when the variable was not set in the previous run
+    after?: bigint;   // missing when it is no longer set
+};
+
+// Variables whose final values differ between two runs, in numeric order (x2 before x10)
+export function stateChanges(previous: Map<string, bigint>, current: Map<string, bigint>): StateChange[] {
+    const names = Array.from(new Set([...previous.keys(), ...current.keys()]))
+        .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+    const changes: StateChange[] = [];
+    for (const name of names) {
+        const before = previous.get(name);
+        const after = current.get(name);
+        if (before === after) continue;
+        const change: StateChange = { name };
+        if (before !== undefined) change.before = before;
+        if (after !== undefined) change.after = after;
+        changes.push(change);
+    }
+    return changes;
+}
+
+// "  x0: 12 -> 15", "  x3: (unset) -> 0"
+export function formatStateChanges(changes: StateChange[]): string[] {
+    if (changes.length === 0) return ["  (final state unchanged)"];
+    const width = Math.max(...changes.map((change) => change.name.length));
+    return changes.map(({ name, before, after }) =>
+        `  ${`${name}:`.padEnd(width + 1)} ${before ?? "(unset)"} -> ${after ?? "(unset)"}`);
+}
+
+// Call `onChange` after each save of `file` until the returned function is called. Polls the
+// file's modification time, which keeps working when editors save by replacing the file.
+export function watchFile(file: string, onChange: () => void, intervalMs = 250): () => void {
+    const listener = (current: fs.Stats, previous: fs.Stats) => {
+        // A zero mtime means the file is gone for the moment (mid-save); wait for it to return
+        if (current.mtimeMs === 0 || current.mtimeMs === previous.mtimeMs) return;
+        onChange();
+    };
+    fs.watchFile(file, { interval: intervalMs }, listener);
+    return () => fs.unwatchFile(file, listener);
+}
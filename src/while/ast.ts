@@ -1,16 +1,22 @@
+import type { SourceSpan } from "../span";
+import type { NodeComments } from "../comments";
+
 // Expressions (Same as LOOP)
 export type NumberLiteral = {
     type: "number";
-    value: number;
+    span?: SourceSpan;
+    value: bigint; // natural number, arbitrary precision
 };
 
 export type Variable = {
     type: "variable";
+    span?: SourceSpan;
     name: string;
 };
 
 export type BinaryExpression = {
     type: "binaryOp";
+    span?: SourceSpan;
     operator: "+" | "-";
     left: Expression;
     right: Expression;
@@ -21,6 +27,7 @@ export type Expression = NumberLiteral | Variable | BinaryExpression;
 // Conditions
 export type Condition = {
     type: "condition";
+    span?: SourceSpan;
     operator: "=" | "!=" | "<" | ">" | "<=" | ">=";
     left: Expression;
     right: Expression;
@@ -29,21 +36,30 @@ export type Condition = {
 // Statements
 export type Assignment = {
     type: "assignment";
+    span?: SourceSpan;
     variable: string;
     value: Expression;
+    comments?: NodeComments;
 };
 
 export type WhileLoop = {
     type: "while";
+    span?: SourceSpan;
     condition: Condition;
     body: Statement[];
+    comments?: NodeComments;    // on the WHILE ... DO line
+    endComments?: NodeComments; // before and on the END line
 };
 
 export type IfStatement = {
     type: "if";
+    span?: SourceSpan;
     condition: Condition;
     thenBody: Statement[];
     elseBody?: Statement[];
+    comments?: NodeComments;     // on the IF ... THEN line
+    elseComments?: NodeComments; // before and on the ELSE line
+    endComments?: NodeComments;  // before and on the END line
 };
 
 export type Statement = Assignment | WhileLoop | IfStatement;
@@ -51,5 +67,6 @@ export type Statement = Assignment | WhileLoop | IfStatement;
 // Program
 export type Program = {
     type: "program";
+    span?: SourceSpan;
     statements: Statement[];
 };
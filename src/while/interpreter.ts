@@ -1,42 +1,47 @@
-import type { Program, Statement, Expression, BinaryExpression, Condition } from "./ast";
-
-type EvalOptions = {
-    initialVariables?: Map<string, number>;
-    verbose?: boolean;
-};
+import type { Program, Statement, Condition } from "./ast";
+import type { EvalOptions, ExecutionOutcome } from "../execution";
+import type { ExecutionEvent, ExecutionObserver } from "../events";
+import { observersFor } from "../events";
+import { ExecutionBudget, BudgetExceeded, normalizeOptions, budgetError, exceededOutcome } from "../execution";
+import { evaluateCondition, evaluateExpression } from "../evaluate";
 
 class WhileInterpreter {
-    private variables: Map<string, number>;
+    private variables: Map<string, bigint>;
     private lockedVariables: Set<string>;
-    private verbose: boolean;
+    private observers: ExecutionObserver[];
+    private budget: ExecutionBudget;
 
     constructor() {
         this.variables = new Map();
         this.lockedVariables = new Set();
-        this.verbose = false;
+        this.observers = [];
+        this.budget = new ExecutionBudget();
     }
 
-    public setVariable(name: string, value: number): void {
+    public setVariable(name: string, value: bigint): void {
         this.variables.set(name, value);
     }
 
-    public evaluate(program: Program, options?: EvalOptions | Map<string, number>): Map<string, number> {
+    public getVariables(): Map<string, bigint> {
+        return new Map(this.variables);
+    }
+
+    // Run the program; throws if a budget is exceeded
+    public evaluate(program: Program, options?: EvalOptions | Map<string, bigint>): Map<string, bigint> {
+        const outcome = this.run(program, options);
+        if (outcome.status === "budgetExceeded") throw budgetError(outcome);
+        return outcome.variables;
+    }
+
+    // Run the program and report how it ended instead of throwing on budgets
+    public run(program: Program, options?: EvalOptions | Map<string, bigint>): ExecutionOutcome {
         this.variables.clear();
         this.lockedVariables.clear();
 
-        let initialVariables: Map<string, number> | undefined;
-        if (options instanceof Map) {
-            initialVariables = options;
-            this.verbose = false;
-        } else if (options) {
-            initialVariables = options.initialVariables;
-            this.verbose = options.verbose ?? false;
-        } else {
-            this.verbose = false;
-        }
+        const evalOptions = normalizeOptions(options);
 
-        if (initialVariables) {
-            for (const [name, value] of initialVariables) {
+        if (evalOptions.initialVariables) {
+            for (const [name, value] of evalOptions.initialVariables) {
                 this.variables.set(name, value);
                 if (name !== "x0") {
                     this.lockedVariables.add(name);
@@ -44,57 +49,70 @@ class WhileInterpreter {
             }
         }
 
-        for (const statement of program.statements) {
-            this.executeStatement(statement);
+        return this.start(program, evalOptions);
+    }
+
+    // Run the program against the variables left by earlier runs and setVariable() instead of
+    // starting empty, as the REPL does. Nothing is locked: initial variables are plain assignments.
+    public execute(program: Program, options?: EvalOptions): ExecutionOutcome {
+        const evalOptions = normalizeOptions(options);
+        this.lockedVariables.clear();
+        for (const [name, value] of evalOptions.initialVariables ?? []) {
+            this.variables.set(name, value);
         }
-        return this.variables;
+        return this.start(program, evalOptions);
+    }
+
+    private start(program: Program, evalOptions: EvalOptions): ExecutionOutcome {
+        this.observers = observersFor(evalOptions);
+        this.budget = new ExecutionBudget(evalOptions);
+        try {
+            for (const statement of program.statements) {
+                this.executeStatement(statement);
+            }
+        } catch (error) {
+            if (!(error instanceof BudgetExceeded)) throw error;
+            return exceededOutcome(error, this.variables, this.budget.steps);
+        }
+        this.emit({ type: "halt", variables: this.variables, steps: this.budget.steps });
+        return { status: "halted", variables: this.variables, steps: this.budget.steps };
+    }
+
+    private emit(event: ExecutionEvent): void {
+        for (const observer of this.observers) observer(event);
     }
 
     private executeStatement(statement: Statement): void {
+        this.budget.step(statement.span);
+        this.emit({ type: "statement", language: "while", node: statement, step: this.budget.steps - 1, span: statement.span, variables: this.variables });
         switch (statement.type) {
             case "assignment": {
-                const value = this.evaluateExpression(statement.value);
+                const value = evaluateExpression(statement.value, this.variables);
                 if (this.lockedVariables.has(statement.variable)) {
                     this.lockedVariables.delete(statement.variable);
-                    if (this.verbose) {
-                        console.log(`  [skip] ${statement.variable} := ${value} (using CLI value)`);
-                    }
+                    this.emit({ type: "skippedAssignment", variable: statement.variable, value, span: statement.span });
                 } else {
-                    const oldValue = this.variables.get(statement.variable) ?? 0;
+                    this.budget.checkValue(value, statement.span);
+                    const oldValue = this.variables.get(statement.variable) ?? 0n;
                     this.variables.set(statement.variable, value);
-                    if (this.verbose) {
-                        console.log(`  ${statement.variable} := ${value} (was ${oldValue})`);
-                    }
+                    this.emit({ type: "assignment", variable: statement.variable, oldValue, newValue: value, span: statement.span });
                 }
                 break;
             }
             case "while": {
-                let safetyCounter = 0;
-                let iteration = 0;
-                if (this.verbose) {
-                    console.log(`  WHILE ${this.conditionToString(statement.condition)}`);
-                }
-                while (this.evaluateCondition(statement.condition)) {
-                    if (safetyCounter++ > 1_000_000) throw new Error("Infinite loop detected (safety limit: 1,000,000 iterations)");
+                let iteration = 0n;
+                while (this.testCondition(statement.condition)) {
                     iteration++;
-                    if (this.verbose) {
-                        console.log(`    iteration ${iteration}`);
-                    }
+                    this.emit({ type: "loopIteration", iteration, span: statement.span });
                     for (const bodyStatement of statement.body) {
                         this.executeStatement(bodyStatement);
                     }
-                }
-                if (this.verbose && iteration === 0) {
-                    console.log(`    (condition false, skipped)`);
+                    this.budget.step(statement.span); // next condition test
                 }
                 break;
             }
             case "if": {
-                const condTrue = this.evaluateCondition(statement.condition);
-                if (this.verbose) {
-                    console.log(`  IF ${this.conditionToString(statement.condition)} -> ${condTrue}`);
-                }
-                if (condTrue) {
+                if (this.testCondition(statement.condition)) {
                     for (const stmt of statement.thenBody) {
                         this.executeStatement(stmt);
                     }
@@ -108,54 +126,11 @@ class WhileInterpreter {
         }
     }
 
-    private conditionToString(cond: Condition): string {
-        const left = this.exprToString(cond.left);
-        const right = this.exprToString(cond.right);
-        return `${left} ${cond.operator} ${right}`;
-    }
-
-    private exprToString(expr: Expression): string {
-        switch (expr.type) {
-            case "number": return String(expr.value);
-            case "variable": return expr.name;
-            case "binaryOp": return `(${this.exprToString(expr.left)} ${expr.operator} ${this.exprToString(expr.right)})`;
-        }
-    }
-
-    private evaluateExpression(expression: Expression): number {
-        switch (expression.type) {
-            case "number": return expression.value;
-            case "variable": return this.getVariableValue(expression.name);
-            case "binaryOp": return this.evaluateBinaryExpression(expression);
-        }
-    }
-
-    private evaluateBinaryExpression(expression: BinaryExpression): number {
-        const left = this.evaluateExpression(expression.left);
-        const right = this.evaluateExpression(expression.right);
-
-        switch (expression.operator) {
-            case "+": return left + right;
-            case "-": return Math.max(0, left - right); // monus: no negative values
-        }
-    }
-
-    private evaluateCondition(condition: Condition): boolean {
-        const left = this.evaluateExpression(condition.left);
-        const right = this.evaluateExpression(condition.right);
-
-        switch (condition.operator) {
-            case "=": return left === right;
-            case "!=": return left !== right;
-            case "<": return left < right;
-            case ">": return left > right;
-            case "<=": return left <= right;
-            case ">=": return left >= right;
-        }
-    }
-
-    private getVariableValue(name: string): number {
-        return this.variables.get(name) || 0;
+    // Evaluate a WHILE/IF condition and report the result
+    private testCondition(condition: Condition): boolean {
+        const result = evaluateCondition(condition, this.variables);
+        this.emit({ type: "condition", condition, result, span: condition.span });
+        return result;
     }
 }
 
@@ -1,9 +1,15 @@
 import type { Token, TokenType } from "../token";
 import type { Program, Statement, Expression, Assignment, WhileLoop, IfStatement, Condition } from "./ast";
+import type { SourceSpan } from "../span";
+import { joinSpans, pointSpan } from "../span";
+import type { Diagnostic } from "../diagnostics";
+import { SourceError } from "../diagnostics";
+import { attachComments } from "../comments";
 
 class WhileParser {
   private tokens: Token[];
   private position: number;
+  private diagnostics: Diagnostic[] | undefined; // set while recovering
   
   constructor(tokens: Token[]) {
     this.tokens = tokens;
@@ -17,7 +23,7 @@ class WhileParser {
   private advance(): Token {
     const token = this.peek();
     if (!token) {
-      throw new Error("Unexpected end of input");
+      throw new SourceError("Unexpected end of input", this.currentSpan(), "unexpected-end");
     }
     this.position++;
     return token;
@@ -26,26 +32,77 @@ class WhileParser {
   private expect(type: TokenType, errorMessage?: string): Token {
     const token = this.peek();
     if (!token || token.type !== type) {
-      throw new Error(
-        errorMessage || `Expected ${type} but got ${token?.type || "end of input"}`
+      throw new SourceError(
+        errorMessage || `Expected ${type} but got ${token?.type || "end of input"}`,
+        this.currentSpan(),
+        token ? "unexpected-token" : "unexpected-end"
       );
     }
     return this.advance();
   }
+
+  // Span of the next token, or a zero-width span after the last one at end of input
+  private currentSpan(): SourceSpan {
+    const token = this.peek();
+    if (token) return token.span;
+    const last = this.tokens[this.tokens.length - 1];
+    return pointSpan(last ? last.span.end : { line: 1, column: 1, offset: 0 });
+  }
+
+  // Span from `start` up to the end of the most recently consumed token
+  private spanFrom(start: SourceSpan): SourceSpan {
+    const previous = this.tokens[this.position - 1];
+    return previous ? joinSpans(start, previous.span) : start;
+  }
+
+  // Throws in normal mode; records and carries on while recovering
+  private report(error: SourceError): void {
+    if (!this.diagnostics) throw error;
+    this.diagnostics.push(error.toDiagnostic());
+  }
+
+  // Parse one statement into `statements`. While recovering, a failed statement is
+  // reported and the parser skips ahead past the next `;` or up to the next `END`/`ELSE`.
+  private parseStatementInto(statements: Statement[]): void {
+    const start = this.position;
+    try {
+      statements.push(this.parseStatement());
+    } catch (error) {
+      if (!this.diagnostics || !(error instanceof SourceError)) throw error;
+      this.diagnostics.push(error.toDiagnostic());
+      this.synchronize(start);
+    }
+  }
+
+  private synchronize(start: number): void {
+    while (true) {
+      const token = this.peek();
+      if (!token) return;
+      if (token.type === "keyword" && (token.value === "END" || token.value === "ELSE")) {
+        // A stray END/ELSE where a statement should start is skipped, so we always make progress
+        if (this.position === start) this.position++;
+        return;
+      }
+      this.position++;
+      if (token.type === "semicolon") return;
+    }
+  }
+
   
   // Parse a primary expression (number or variable)
   private parsePrimary(): Expression {
     const token = this.peek();
     
     if (!token) {
-      throw new Error("Expected expression but got end of input");
+      throw new SourceError("Expected expression but got end of input", this.currentSpan(), "unexpected-end");
     }
     
     if (token.type === "number") {
       this.advance();
       return {
         type: "number",
-        value: parseInt(token.value)
+        value: BigInt(token.value),
+        span: token.span
       };
     }
     
@@ -53,15 +110,17 @@ class WhileParser {
       this.advance();
       return {
         type: "variable",
-        name: token.value
+        name: token.value,
+        span: token.span
       };
     }
     
-    throw new Error(`Expected number or identifier but got ${token.type}`);
+    throw new SourceError(`Expected number or identifier but got ${token.type}`, token.span);
   }
   
   // Parse an expression (primary or binary operation)
   private parseExpression(): Expression {
+    const start = this.currentSpan();
     const left = this.parsePrimary();
     
     const token = this.peek();
@@ -73,7 +132,8 @@ class WhileParser {
         type: "binaryOp",
         operator: operator,
         left: left,
-        right: right
+        right: right,
+        span: this.spanFrom(start)
       };
     }
     
@@ -82,11 +142,12 @@ class WhileParser {
 
   // Parse a condition: expr op expr
   private parseCondition(): Condition {
+      const start = this.currentSpan();
       const left = this.parseExpression();
       
       const token = this.peek();
       if (!token || token.type !== "comparison") {
-          throw new Error("Expected comparison operator");
+          throw new SourceError("Expected comparison operator", this.currentSpan());
       }
       
       const operator = this.advance().value as "=" | "!=" | "<" | ">" | "<=" | ">=";
@@ -96,107 +157,132 @@ class WhileParser {
           type: "condition",
           operator: operator,
           left: left,
-          right: right
+          right: right,
+          span: this.spanFrom(start)
       };
   }
   
   // Parse an assignment: x0 := 5;
   private parseAssignment(): Assignment {
+    const start = this.position;
     const varToken = this.expect("identifier");
     this.expect("assign");
     const value = this.parseExpression();
     this.expect("semicolon");
     
-    return {
+    const assignment: Assignment = {
       type: "assignment",
       variable: varToken.value,
-      value: value
+      value: value,
+      span: this.spanFrom(varToken.span)
     };
+    attachComments(assignment, "comments", this.tokens, start, this.position);
+    return assignment;
   }
   
   // Parse a loop: WHILE cond DO ... END
   private parseWhile(): WhileLoop {
-    this.expect("keyword"); // WHILE (caller checks value)
+    const start = this.position;
+    const whileToken = this.expect("keyword"); // WHILE (caller checks value)
     const condition = this.parseCondition();
     
     const doToken = this.expect("keyword");
     if (doToken.value !== "DO") {
-        throw new Error("Expected DO after WHILE condition");
+        throw new SourceError("Expected DO after WHILE condition", doToken.span);
     }
+    const headerEnd = this.position;
     
     const body: Statement[] = [];
+    let endIndex: number | undefined;
     while (true) {
       const token = this.peek();
       if (!token) {
-        throw new Error("Expected END but got end of input");
+        this.report(new SourceError("Expected END but got end of input", this.currentSpan(), "unexpected-end"));
+        break;
       }
       if (token.type === "keyword" && token.value === "END") {
+        endIndex = this.position;
         this.advance();
         break;
       }
-      body.push(this.parseStatement());
+      this.parseStatementInto(body);
     }
     
-    return {
+    const loop: WhileLoop = {
       type: "while",
       condition: condition,
-      body: body
+      body: body,
+      span: this.spanFrom(whileToken.span)
     };
+    attachComments(loop, "comments", this.tokens, start, headerEnd);
+    if (endIndex !== undefined) attachComments(loop, "endComments", this.tokens, endIndex, endIndex + 1);
+    return loop;
   }
 
   // Parse IF: IF cond THEN ... END
   private parseIf(): IfStatement {
-      this.expect("keyword"); // IF
+      const start = this.position;
+      const ifToken = this.expect("keyword"); // IF
       const condition = this.parseCondition();
       
       const thenToken = this.expect("keyword");
       if (thenToken.value !== "THEN") {
-          throw new Error("Expected THEN after IF condition");
+          throw new SourceError("Expected THEN after IF condition", thenToken.span);
       }
+      const headerEnd = this.position;
 
       const thenBody: Statement[] = [];
       let elseBody: Statement[] | undefined = undefined;
+      let elseIndex: number | undefined;
+      let endIndex: number | undefined;
 
       while (true) {
           const token = this.peek();
-          if (!token) throw new Error("Expected END or ELSE but got end of input");
+          if (!token) {
+              this.report(new SourceError("Expected END or ELSE but got end of input", this.currentSpan(), "unexpected-end"));
+              break;
+          }
           
           if (token.type === "keyword") {
               if (token.value === "END") {
+                  endIndex = this.position;
                   this.advance();
                   break;
               }
               if (token.value === "ELSE") {
+                  elseIndex = this.position;
                   this.advance();
                   elseBody = [];
                   while(true) {
                       const elseToken = this.peek();
-                      if (!elseToken) throw new Error("Expected END after ELSE");
+                      if (!elseToken) {
+                          this.report(new SourceError("Expected END after ELSE", this.currentSpan(), "unexpected-end"));
+                          break;
+                      }
                       if (elseToken.type === "keyword" && elseToken.value === "END") {
+                          endIndex = this.position;
                           this.advance();
                           break;
                       }
-                      elseBody.push(this.parseStatement());
+                      this.parseStatementInto(elseBody);
                   }
                   break; // Exit main loop after processing else block
               }
           }
-          thenBody.push(this.parseStatement());
+          this.parseStatementInto(thenBody);
       }
 
-      if (elseBody) {
-        return {
-            type: "if",
-            condition: condition,
-            thenBody: thenBody,
-            elseBody: elseBody
-        };
-      }
-      return {
+      const ifStatement: IfStatement = {
           type: "if",
           condition: condition,
-          thenBody: thenBody
+          thenBody: thenBody,
+          span: this.spanFrom(ifToken.span)
       };
+      if (elseBody) ifStatement.elseBody = elseBody;
+      attachComments(ifStatement, "comments", this.tokens, start, headerEnd);
+      if (elseIndex !== undefined) attachComments(ifStatement, "elseComments", this.tokens, elseIndex, elseIndex + 1);
+      if (endIndex !== undefined) attachComments(ifStatement, "endComments", this.tokens, endIndex, endIndex + 1);
+      return ifStatement;
   }
   
   // Parse a statement (assignment or while or if)
@@ -204,7 +290,7 @@ class WhileParser {
     const token = this.peek();
     
     if (!token) {
-      throw new Error("Expected statement but got end of input");
+      throw new SourceError("Expected statement but got end of input", this.currentSpan(), "unexpected-end");
     }
     
     if (token.type === "keyword") {
@@ -216,22 +302,36 @@ class WhileParser {
       return this.parseAssignment();
     }
     
-    throw new Error(`Unexpected token: ${token.type}`);
+    throw new SourceError(`Unexpected token: ${token.type}`, token.span);
   }
   
   // Parse entire program
   public parse(): Program {
+    const start = this.currentSpan();
     const statements: Statement[] = [];
     
     while (this.peek()) {
-      statements.push(this.parseStatement());
+      this.parseStatementInto(statements);
     }
     
     return {
       type: "program",
-      statements: statements
+      statements: statements,
+      span: this.spanFrom(start)
     };
   }
+
+  // Like parse(), but recovers from syntax errors: returns a partial AST
+  // together with every problem found instead of throwing on the first one
+  public parseWithDiagnostics(): { program: Program; diagnostics: Diagnostic[] } {
+    const diagnostics: Diagnostic[] = [];
+    this.diagnostics = diagnostics;
+    try {
+      return { program: this.parse(), diagnostics };
+    } finally {
+      this.diagnostics = undefined;
+    }
+  }
 }
 
-export = WhileParser;
\ No newline at end of file
+export = WhileParser;
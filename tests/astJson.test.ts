@@ -0,0 +1,91 @@
+/// <reference types="vitest/globals" />
+import { parseLoop, parseWhile, parseGoto } from "../src/parse";
+import { printLoopProgram, printWhileProgram } from "../src/printer";
+import { exportAst, astToJson, importAst, AST_JSON_VERSION } from "../src/astJson";
+import { translateProgram } from "../src/translate";
+
+const multiply = parseLoop(`
+    x0 := 0; # result
+    LOOP x1 DO
+        LOOP x2 DO x0 := x0 + 1; END
+    END
+`).program;
+
+describe("AST JSON export", () => {
+    test("versioned, with numbers as strings and without spans", () => {
+        const file = exportAst({ language: "loop", program: multiply });
+
+        expect(file.version).toBe(AST_JSON_VERSION);
+        expect(file.language).toBe("loop");
+        expect(JSON.stringify(file)).not.toContain("span");
+        expect((file.program as any).statements[0]).toEqual({
+            type: "assignment", variable: "x0", value: { type: "number", value: "0" }, comments: { trailing: ["# result"] },
+        });
+    });
+
+    test("import gives back the same program, comments included", () => {
+        const imported = importAst(astToJson({ language: "loop", program: multiply }));
+
+        expect(imported.language).toBe("loop");
+        if (imported.language === "loop") expect(printLoopProgram(imported.program)).toBe(printLoopProgram(multiply));
+    });
+
+    test("translator output snapshot", () => {
+        const whileAst = translateProgram({ language: "loop", program: multiply }, "while");
+        const gotoAst = translateProgram(whileAst, "goto");
+        expect(astToJson(gotoAst)).toMatchSnapshot();
+    });
+});
+
+describe("AST JSON import", () => {
+    const file = (language: string, program: unknown) => JSON.stringify({ version: 1, language, program });
+
+    test("accepts JSON numbers for values and nested expressions", () => {
+        const imported = importAst(file("while", {
+            type: "program",
+            statements: [{
+                type: "if",
+                condition: { type: "condition", operator: ">", left: { type: "variable", name: "x1" }, right: { type: "number", value: 2 } },
+                thenBody: [{ type: "assignment", variable: "x0", value: { type: "binaryOp", operator: "+", left: { type: "variable", name: "x1" }, right: { type: "number", value: "1" } } }],
+                elseBody: [],
+            }],
+        }), "while");
+
+        expect(imported.language).toBe("while");
+        if (imported.language === "while") {
+            expect(printWhileProgram(imported.program)).toBe(printWhileProgram(parseWhile("IF x1 > 2 THEN x0 := x1 + 1; ELSE END").program));
+        }
+    });
+
+    test("errors name the offending node", () => {
+        const loop = (statement: unknown) => file("loop", { type: "program", statements: [statement] });
+
+        expect(() => importAst(loop({ type: "loop", counter: "x1", body: [{ type: "assignment", variable: "x0", value: { type: "binaryOp", operator: "*", left: { type: "number", value: "1" }, right: { type: "number", value: "2" } } }] })))
+            .toThrow("program.statements[0].body[0].value.operator: expected one of +, -");
+        expect(() => importAst(loop({ type: "while", condition: {}, body: [] })))
+            .toThrow("program.statements[0].type: expected one of assignment, loop");
+        expect(() => importAst(loop({ type: "assignment", variable: "LOOP", value: { type: "number", value: "1" } })))
+            .toThrow("program.statements[0].variable: expected a name");
+        expect(() => importAst(loop({ type: "assignment", variable: "x0", value: { type: "number", value: "-1" } })))
+            .toThrow("program.statements[0].value.value: expected a natural number");
+        expect(() => importAst(loop({ type: "assignment", variable: "x0", value: { type: "number", value: "1" }, extra: true })))
+            .toThrow('program.statements[0]: unknown property "extra"');
+        // x0 := (x1 + 1) + x2 has no source form
+        const nested = { type: "binaryOp", operator: "+", left: { type: "variable", name: "x1" }, right: { type: "number", value: "1" } };
+        expect(() => importAst(loop({ type: "assignment", variable: "x0", value: { type: "binaryOp", operator: "+", left: nested, right: { type: "variable", name: "x2" } } })))
+            .toThrow("program.statements[0].value.left.type: expected one of number, variable (binary operations cannot be nested)");
+    });
+
+    test("version, language and GOTO labels are checked", () => {
+        const countdown = exportAst({ language: "goto", program: parseGoto("M1: IF x1 = 0 THEN GOTO M2;\n    x1 := x1 - 1;\n    GOTO M1;\nM2: HALT;").program });
+
+        expect(() => importAst(JSON.stringify({ ...countdown, version: 2 }))).toThrow("Unsupported AST version: 2 (expected 1)");
+        expect(() => importAst(JSON.stringify(countdown), "while")).toThrow("language: the file holds a GOTO program, expected WHILE");
+
+        const program = countdown.program as { instructions: { label?: string }[] };
+        program.instructions[3]!.label = "M3";
+        expect(() => importAst(JSON.stringify(countdown))).toThrow("program.instructions[0].statement.label: undefined label M2");
+        program.instructions[3]!.label = "M1";
+        expect(() => importAst(JSON.stringify(countdown))).toThrow("program.instructions[3].label: duplicate label M1");
+    });
+});
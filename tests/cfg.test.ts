@@ -0,0 +1,105 @@
+/// <reference types="vitest/globals" />
+import * as fs from "fs";
+import * as path from "path";
+import { parseGoto, parseWhile } from "../src/parse";
+import { buildGotoCfg, buildWhileCfg, dominates, dominatorTree, maxVariableIndex, naturalLoops, outgoing, reachableBlocks } from "../src/cfg";
+import type { ControlFlowGraph } from "../src/cfg";
+import { WhileToGotoTranslator } from "../src/translators/whileToGoto";
+
+const examples = path.join(__dirname, "../examples");
+
+function gotoCfg(code: string): ControlFlowGraph {
+    return buildGotoCfg(parseGoto(code).program!);
+}
+
+function whileCfg(code: string): ControlFlowGraph {
+    return buildWhileCfg(parseWhile(code).program!);
+}
+
+// "from->to" per edge, with the edge kind unless it is "always"
+function edgeList(cfg: ControlFlowGraph): string[] {
+    return cfg.edges.map((edge) => `${edge.from}->${edge.to}${edge.kind === "always" ? "" : ` ${edge.kind}`}`);
+}
+
+describe("Control-flow graphs of GOTO programs", () => {
+    const countdown = fs.readFileSync(path.join(examples, "countdown.goto"), "utf-8");
+
+    test("blocks start at labels and after jumps", () => {
+        const cfg = gotoCfg(countdown);
+
+        expect(cfg.blocks.map((block) => block.instructions)).toEqual([undefined, [0, 1], [2], [3, 4, 5], [6], undefined]);
+        expect(cfg.blocks.map((block) => block.label)).toEqual([undefined, undefined, "M1", undefined, "M2", undefined]);
+        expect(cfg.blocks[3]!.statements.map((stmt) => stmt.variable)).toEqual(["x1", "x0"]);
+        expect([cfg.entry, cfg.exit]).toEqual([0, 5]);
+        expect(edgeList(cfg)).toEqual(["0->1", "1->2", "2->4 true", "2->3 false", "3->2", "4->5"]);
+        expect(outgoing(cfg, 2)[0]!.condition).toMatchObject({ operator: "=", left: { name: "x1" } });
+    });
+
+    test("the loop, its header's dominance and the blocks after it", () => {
+        const cfg = gotoCfg(countdown);
+        const idom = dominatorTree(cfg);
+
+        expect(idom).toEqual([undefined, 0, 1, 2, 2, 4]);
+        expect(dominates(idom, 2, 3)).toBe(true);
+        expect(dominates(idom, 3, 4)).toBe(false);
+        expect(naturalLoops(cfg)).toEqual([{ header: 2, blocks: [2, 3], latches: [3] }]);
+    });
+
+    test("dead code is not reachable but its variables still count", () => {
+        const cfg = gotoCfg("x0 := 1; GOTO M1; x7 := 2; M1: HALT;");
+
+        expect(Array.from(reachableBlocks(cfg)).sort()).toEqual([0, 1, 3, 4]);
+        expect(maxVariableIndex(cfg)).toBe(7);
+        expect(maxVariableIndex(gotoCfg("M1: IF x4 > x0 THEN GOTO M1; HALT;"))).toBe(4);
+        expect(maxVariableIndex(gotoCfg("HALT;"))).toBe(-1);
+    });
+
+    test("a cycle entered in two places is not a natural loop", () => {
+        const cfg = gotoCfg(`
+                IF x1 = 0 THEN GOTO M2;
+            M1: x2 := x2 + 1;
+                IF x2 > 5 THEN GOTO M3;
+            M2: x0 := x0 + x2;
+                GOTO M1;
+            M3: HALT;
+        `);
+        expect(naturalLoops(cfg)).toEqual([]);
+    });
+
+    test("unknown labels are reported", () => {
+        expect(() => buildGotoCfg({ type: "program", instructions: [{ statement: { type: "goto", label: "M9" } }] }))
+            .toThrow("Unknown label: M9");
+    });
+});
+
+describe("Control-flow graphs of WHILE programs", () => {
+    test("a WHILE loop's test has a block of its own and a back edge", () => {
+        const cfg = whileCfg(fs.readFileSync(path.join(examples, "divide.while"), "utf-8"));
+
+        expect(edgeList(cfg)).toEqual(["0->1", "1->2", "2->3 true", "3->2", "2->4 false", "4->5"]);
+        expect(cfg.blocks[3]!.statements).toHaveLength(2);
+        expect(naturalLoops(cfg)).toEqual([{ header: 2, blocks: [2, 3], latches: [3] }]);
+    });
+
+    test("IF branches meet in a new block", () => {
+        const cfg = whileCfg("IF x1 = 0 THEN x0 := 1; ELSE x0 := 2; END x2 := x0;");
+
+        expect(edgeList(cfg)).toEqual(["0->1", "1->2 true", "1->3 false", "2->4", "3->4", "4->5"]);
+        expect(cfg.blocks[4]!.statements.map((stmt) => stmt.variable)).toEqual(["x2"]);
+        expect(dominatorTree(cfg)[4]).toBe(1);
+        expect(edgeList(whileCfg("IF x1 = 0 THEN x0 := 1; END"))).toEqual(["0->1", "1->2 true", "2->3", "1->3 false", "3->4"]);
+    });
+
+    test("translating to GOTO keeps the nested loops", () => {
+        const program = parseWhile("WHILE x1 > 0 DO x2 := x1; WHILE x2 > 0 DO x2 := x2 - 1; END x1 := x1 - 1; END").program!;
+        // The inner loop's blocks are part of the outer loop
+        const nested = (cfg: ControlFlowGraph) => {
+            const [outer, inner] = naturalLoops(cfg);
+            return naturalLoops(cfg).length === 2 && inner!.blocks.every((block) => outer!.blocks.includes(block));
+        };
+
+        expect(nested(buildWhileCfg(program))).toBe(true);
+        expect(nested(buildGotoCfg(new WhileToGotoTranslator().translate(program)))).toBe(true);
+        expect(maxVariableIndex(buildWhileCfg(program))).toBe(2);
+    });
+});
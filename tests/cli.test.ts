@@ -0,0 +1,63 @@
+/// <reference types="vitest/globals" />
+import * as fs from "fs";
+import * as path from "path";
+import { parseArgs, runFile, watchConflict } from "../src/cli";
+import { runReport } from "../src/report";
+
+const countdown = path.join(__dirname, "../examples/countdown.goto");
+
+// Runs the CLI's text output for countdown.goto; returns the exit code and what was printed
+function run(args: string[]): { code: number; output: string } {
+    const lines: string[] = [];
+    const log = vi.spyOn(console, "log").mockImplementation((...parts: unknown[]) => { lines.push(parts.join(" ")); });
+    const error = vi.spyOn(console, "error").mockImplementation((...parts: unknown[]) => { lines.push(parts.join(" ")); });
+    try {
+        const code = runFile(countdown, "goto", undefined, parseArgs([countdown, ...args]));
+        return { code, output: lines.join("\n") };
+    } finally {
+        log.mockRestore();
+        error.mockRestore();
+    }
+}
+
+describe("CLI verification", () => {
+    // x1 = 10 takes the GOTO program 44 steps and its dispatch translation 167
+    const budget = ["-t2while", "--dispatch", "-verify", "--max-steps=100"];
+
+    test("a translation that needs more steps than the original's budget still verifies", () => {
+        const single = run(["-x1=10", ...budget]);
+        expect(single.output).toContain("Verification: PASSED");
+        expect(single.code).toBe(0);
+
+        const range = run([...budget, "--range=x1=9..10"]);
+        expect(range.output).toContain("Verification: PASSED");
+        expect(range.code).toBe(0);
+    });
+
+    test("text and JSON give the same verdict when the translation needs more steps", () => {
+        const options = parseArgs([countdown, ...budget, "--range=x1=9..10"]);
+        const report = runReport(fs.readFileSync(countdown, "utf-8"), "goto", {
+            inputs: options.variables, translateTo: "while", translation: options.translation, verify: true, ranges: options.ranges, limits: options.limits,
+        });
+
+        expect(report.verification?.status).toBe("passed");
+        expect(run([...budget, "--range=x1=9..10"]).output).toContain("Verification: PASSED");
+    });
+});
+
+describe("--watch", () => {
+    const conflict = (...args: string[]) => watchConflict(parseArgs([countdown, "--watch", ...args]));
+
+    test("is allowed where a run leaves one final state to compare", () => {
+        expect(conflict("-x1=3")).toBeNull();
+        expect(conflict("-x1=3", "-t2while", "-verify")).toBeNull();
+        expect(conflict("-x1=3", "-t2while", "--profile")).toBeNull();
+    });
+
+    test("is refused for many inputs, for a translation that is not run and for other outputs", () => {
+        expect(conflict("-t2while", "-verify", "--range=x1=0..5")).toContain("--range and --differential run many inputs");
+        expect(conflict("-t2while", "-verify", "--differential")).toContain("--range and --differential run many inputs");
+        expect(conflict("-t2while")).toContain("a translation alone does not run the program");
+        expect(conflict("--json")).toContain("cannot be combined with --json");
+    });
+});
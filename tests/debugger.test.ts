@@ -0,0 +1,111 @@
+/// <reference types="vitest/globals" />
+import { Debugger } from "../src/debugger";
+import { parseProgram } from "../src/parse";
+import type { Language } from "../src/parse";
+
+// Run a program under the debugger with scripted commands; returns the outcome and the transcript
+function debug(code: string, language: Language, commands: string[], initial?: Map<string, bigint>) {
+    const output: string[] = [];
+    const script = [...commands];
+    const { program } = parseProgram(code, language);
+    const session = new Debugger(program, {
+        readLine: () => script.shift() ?? null,
+        write: (line) => output.push(line),
+    }, code);
+    const outcome = session.run(initial ? { initialVariables: initial } : {});
+    return { outcome, output, locations: output.filter((line) => line.startsWith("->")) };
+}
+
+const multiply = `x0 := 0;
+x1 := 0;
+x2 := 0;
+LOOP x1 DO
+  LOOP x2 DO
+    x0 := x0 + 1;
+  END
+END
+x3 := x0;`;
+
+const countdown = `    x0 := 0;
+    x1 := 0;
+M1: IF x1 = 0 THEN GOTO M2;
+    x1 := x1 - 1;
+    x0 := x0 + 1;
+    GOTO M1;
+M2: HALT;`;
+
+describe("Debugger", () => {
+    test("pauses at the first statement and steps into LOOP bodies", () => {
+        const inputs = new Map([["x1", 1n], ["x2", 1n]]);
+        const { locations, output } = debug(multiply, "loop", ["s", "s", "s", "s", "s", "s", "c"], inputs);
+
+        expect(locations).toEqual([
+            "-> line 1: x0 := 0;",
+            "-> line 2: x1 := 0;",
+            "-> line 3: x2 := 0;",
+            "-> line 4: LOOP x1 DO",
+            "-> line 5: LOOP x2 DO",
+            "-> line 6: x0 := x0 + 1;",
+            "-> line 9: x3 := x0;",
+        ]);
+        expect(output).toContain("   in LOOP x2 (iteration 1/1)");
+    });
+
+    test("next steps over a whole loop", () => {
+        const inputs = new Map([["x1", 2n], ["x2", 3n]]);
+        const { locations, outcome } = debug(multiply, "loop", ["n", "n", "n", "n", "c"], inputs);
+
+        expect(locations.map((line) => line.slice(0, 10))).toEqual([
+            "-> line 1:", "-> line 2:", "-> line 3:", "-> line 4:", "-> line 9:",
+        ]);
+        expect(outcome?.variables.get("x3")).toBe(6n);
+    });
+
+    test("line breakpoints report the iteration of every enclosing loop", () => {
+        const inputs = new Map([["x1", 2n], ["x2", 2n]]);
+        const { output } = debug(multiply, "loop", ["b 6", "c", "c", "c", "q"], inputs);
+
+        expect(output.filter((line) => line.startsWith("   in"))).toEqual([
+            "   in LOOP x1 (iteration 1/2)", "   in LOOP x2 (iteration 1/2)",
+            "   in LOOP x1 (iteration 1/2)", "   in LOOP x2 (iteration 2/2)",
+            "   in LOOP x1 (iteration 2/2)", "   in LOOP x2 (iteration 1/2)",
+        ]);
+    });
+
+    test("GOTO label breakpoints show pc; print and set change live state", () => {
+        const { output, outcome } = debug(countdown, "goto", ["break M1", "c", "p x1", "set x1=0", "c"], new Map([["x1", 5n]]));
+
+        expect(output).toContain("-> line 3 [pc=2]: M1: IF x1 = 0 THEN GOTO M2;");
+        expect(output).toContain("  x1 = 5");
+        expect(outcome?.status).toBe("halted");
+        expect(outcome?.variables.get("x0")).toBe(0n);
+    });
+
+    test("watch pauses when a condition changes value", () => {
+        const { output } = debug(countdown, "goto", ["watch x0 >= 2", "c", "p x0", "q"], new Map([["x1", 5n]]));
+
+        expect(output).toContain("Watch x0 >= 2: false -> true");
+        expect(output).toContain("  x0 = 2");
+    });
+
+    test("WHILE iterations and invalid commands", () => {
+        const code = `x0 := 2;
+WHILE x0 != 0 DO
+  x0 := x0 - 1;
+END`;
+        const { output, outcome } = debug(code, "while", ["b 9", "b 3", "watch x0 +", "c", "c", "c"]);
+
+        expect(output).toContain("No statement starts on line 9.");
+        expect(output.some((line) => line.startsWith("Not a condition"))).toBe(true);
+        expect(output.filter((line) => line.startsWith("   in"))).toEqual([
+            "   in WHILE x0 != 0 (iteration 1)",
+            "   in WHILE x0 != 0 (iteration 2)",
+        ]);
+        expect(outcome?.status).toBe("halted");
+    });
+
+    test("quitting or running out of input stops the program", () => {
+        expect(debug(multiply, "loop", ["q"]).outcome).toBeNull();
+        expect(debug(multiply, "loop", []).outcome).toBeNull();
+    });
+});
@@ -0,0 +1,153 @@
+/// <reference types="vitest/globals" />
+import Lexer from "../src/lexer";
+import LoopParser from "../src/loop/parser";
+import WhileParser from "../src/while/parser";
+import GotoParser from "../src/goto/parser";
+import GotoInterpreter from "../src/goto/interpreter";
+import { SourceError, formatDiagnostic } from "../src/diagnostics";
+import { parseLoop, parseWhile, parseGoto, checkSource } from "../src/parse";
+
+function catchError(fn: () => unknown): SourceError {
+    try {
+        fn();
+    } catch (error) {
+        if (error instanceof SourceError) return error;
+        throw error;
+    }
+    throw new Error("Expected a SourceError");
+}
+
+describe("Source positions", () => {
+    test("tokens carry line, column and offset", () => {
+        const tokens = new Lexer("x0 := 0;\n  x1 := x0 + 1;").tokenize();
+        const x1 = tokens[4]!;
+        expect(x1.value).toBe("x1");
+        expect(x1.span.start).toEqual({ line: 2, column: 3, offset: 11 });
+        expect(x1.span.end).toEqual({ line: 2, column: 5, offset: 13 });
+    });
+
+    test("AST nodes span their source text", () => {
+        const code = "x0 := 0;\nLOOP x1 DO\n  x0 := x0 + 1;\nEND";
+        const program = new LoopParser(new Lexer(code).tokenize()).parse();
+        const loop = program.statements[1]!;
+        expect(loop.span?.start.line).toBe(2);
+        expect(loop.span?.end.line).toBe(4);
+        if (loop.type !== "loop") throw new Error("expected loop");
+        const body = loop.body[0]!;
+        expect(code.slice(body.span!.start.offset, body.span!.end.offset)).toBe("x0 := x0 + 1;");
+    });
+
+    test("GOTO instruction span includes its label", () => {
+        const code = "x0 := 0;\nM1: HALT;";
+        const program = new GotoParser(new Lexer(code).tokenize()).parse();
+        const instr = program.instructions[1]!;
+        expect(code.slice(instr.span!.start.offset, instr.span!.end.offset)).toBe("M1: HALT;");
+        expect(instr.statement.span?.start.column).toBe(5);
+    });
+});
+
+describe("Diagnostics", () => {
+    test("lexer error points at the unexpected character", () => {
+        const error = catchError(() => new Lexer("x0 := 1 $ 2;").tokenize());
+        expect(error.message).toContain("Unexpected character");
+        expect(error.span?.start).toEqual({ line: 1, column: 9, offset: 8 });
+    });
+
+    test("parser error points at the offending token", () => {
+        const code = "x0 := 0;\nWHILE x0 != 0 THEN\n  x0 := 0;\nEND";
+        const error = catchError(() => new WhileParser(new Lexer(code).tokenize()).parse());
+        expect(error.message).toBe("Expected DO after WHILE condition");
+        expect(error.span?.start).toMatchObject({ line: 2, column: 15 });
+    });
+
+    test("missing END reports the end of input", () => {
+        const code = "LOOP x1 DO\n  x0 := 1;";
+        const error = catchError(() => new LoopParser(new Lexer(code).tokenize()).parse());
+        expect(error.span?.start).toMatchObject({ line: 2, column: 11 });
+    });
+
+    test("runtime error carries the statement span", () => {
+        const code = "x0 := 0;\n    GOTO M9;";
+        const program = new GotoParser(new Lexer(code).tokenize()).parse();
+        const error = catchError(() => new GotoInterpreter().evaluate(program));
+        expect(error.message).toBe("Undefined label: M9");
+        expect(error.span?.start).toMatchObject({ line: 2, column: 5 });
+    });
+
+    test("formatted error shows file:line:col and a caret", () => {
+        const code = "x0 := 0;\nM1: IF x1 = 0 THEN GOTO M2\nHALT;";
+        const error = catchError(() => new GotoParser(new Lexer(code).tokenize()).parse());
+        const output = formatDiagnostic(error.toDiagnostic(), code, "bad.goto");
+        expect(output.split("\n")).toEqual([
+            "bad.goto:3:1: error: Expected semicolon but got keyword",
+            " 3 | HALT;",
+            "   | ^^^^"
+        ]);
+    });
+});
+
+describe("Recovering parse", () => {
+    test("collects every error and keeps the valid statements", () => {
+        const code = [
+            "x0 := 0;",
+            "x1 := ;",
+            "LOOP x1 DO",
+            "  x0 := x0 + ;",
+            "  x2 := 1;",
+            "END",
+            "x3 := 4 4;",
+            "x4 := 5;"
+        ].join("\n");
+        const { program, diagnostics } = parseLoop(code);
+        expect(diagnostics.map(d => [d.code, d.span?.start.line])).toEqual([
+            ["unexpected-token", 2],
+            ["unexpected-token", 4],
+            ["unexpected-token", 7]
+        ]);
+        expect(diagnostics.every(d => d.severity === "error")).toBe(true);
+        expect(program.statements.map(s => s.type)).toEqual(["assignment", "loop", "assignment"]);
+        const loop = program.statements[1]!;
+        if (loop.type !== "loop") throw new Error("expected loop");
+        expect(loop.body).toHaveLength(1);
+    });
+
+    test("missing END still returns the partial block", () => {
+        const { program, diagnostics } = parseWhile("WHILE x1 != 0 DO\n  x1 := x1 - 1;");
+        expect(diagnostics.map(d => d.code)).toEqual(["unexpected-end"]);
+        const loop = program.statements[0]!;
+        if (loop.type !== "while") throw new Error("expected while");
+        expect(loop.body).toHaveLength(1);
+    });
+
+    test("ELSE resynchronizes an IF branch", () => {
+        const { program, diagnostics } = parseWhile("IF x1 > 2 THEN x0 := 1 ELSE x0 := 2; END");
+        expect(diagnostics).toHaveLength(1);
+        const stmt = program.statements[0]!;
+        if (stmt.type !== "if") throw new Error("expected if");
+        expect(stmt.elseBody).toHaveLength(1);
+    });
+
+    test("stray END is reported once and skipped", () => {
+        const { program, diagnostics } = parseLoop("x0 := 1;\nEND\nx1 := 2;");
+        expect(diagnostics).toHaveLength(1);
+        expect(program.statements).toHaveLength(2);
+    });
+
+    test("lexer errors are collected too", () => {
+        const diagnostics = checkSource("x0 := 1 $;\nx1 := 2 @;", "loop");
+        expect(diagnostics.map(d => d.code)).toEqual(["unexpected-character", "unexpected-character"]);
+    });
+
+    test("GOTO labels are checked", () => {
+        const { diagnostics } = parseGoto("M1: x0 := 1;\nM1: GOTO M2;\nHALT;");
+        expect(diagnostics.map(d => d.code)).toEqual(["duplicate-label", "undefined-label"]);
+    });
+
+    test("valid programs have no diagnostics", () => {
+        expect(checkSource("x0 := 0;\nM1: IF x1 = 0 THEN GOTO M2;\nGOTO M1;\nM2: HALT;", "goto")).toEqual([]);
+    });
+
+    test("plain parse() still throws on the first error", () => {
+        expect(() => new LoopParser(new Lexer("x0 := ;\nx1 := ;").tokenize()).parse()).toThrow(SourceError);
+    });
+});
@@ -0,0 +1,119 @@
+/// <reference types="vitest/globals" />
+import { LoopToWhileTranslator } from "../src/translators/loopToWhile";
+import { parseLoop, parseWhile, parseGoto } from "../src/parse";
+import { inferInputs, differentialVerify } from "../src/differential";
+
+describe("Input inference", () => {
+    test("defaults in the leading block and variables read before assignment", () => {
+        const { program } = parseLoop(`
+            x0 := 0;
+            x1 := 0;
+            x3 := x2 + 1;
+            LOOP x3 DO x4 := x4 + x1; END
+        `);
+        expect(inferInputs({ language: "loop", program })).toEqual(["x1", "x2", "x4"]);
+    });
+
+    test("temporaries assigned before use are not inputs", () => {
+        const { program } = parseGoto(`
+                x0 := 0;
+                x5 := x1;
+            M1: IF x5 = 0 THEN GOTO M2;
+                x5 := x5 - 1;
+                GOTO M1;
+            M2: HALT;
+        `);
+        expect(inferInputs({ language: "goto", program })).toEqual(["x1"]);
+    });
+});
+
+describe("Differential verification", () => {
+    const multiply = parseLoop(`
+        x0 := 0;
+        x1 := 0;
+        x2 := 0;
+        LOOP x1 DO LOOP x2 DO x0 := x0 + 1; END END
+    `).program;
+
+    test("a correct translation agrees on the box and random samples", () => {
+        const translated = new LoopToWhileTranslator().translate(multiply);
+        const result = differentialVerify({ language: "loop", program: multiply }, { language: "while", program: translated }, { box: 4, samples: 20 });
+
+        expect(result.inputs).toEqual(["x1", "x2"]);
+        expect(result.exhaustive).toBe(25);
+        expect(result.tested).toBe(45);
+        expect(result.counterexample).toBeUndefined();
+    });
+
+    test("the translation's budget is scaled: needing more steps than the original is no counterexample", () => {
+        const translated = parseGoto(`
+                x0 := 0;
+                x1 := 0;
+                x2 := 0;
+                x3 := x1;
+            M1: IF x3 = 0 THEN GOTO M4;
+                x4 := x2;
+            M2: IF x4 = 0 THEN GOTO M3;
+                x0 := x0 + 1;
+                x4 := x4 - 1;
+                GOTO M2;
+            M3: x3 := x3 - 1;
+                GOTO M1;
+            M4: HALT;
+        `).program;
+        // 4 * 4 takes the LOOP program 44 steps and the GOTO program 90
+        const result = differentialVerify({ language: "loop", program: multiply }, { language: "goto", program: translated }, {
+            box: 4, samples: 0, maxSteps: 50,
+        });
+
+        expect(result.tested).toBe(25);
+        expect(result.counterexample).toBeUndefined();
+        expect(result.inconclusive).toBe(0);
+    });
+
+    test("the first (smallest) counterexample is reported with both states", () => {
+        // wrong on x1 = 2 only
+        const wrong = parseWhile(`
+            x0 := 0;
+            x1 := 0;
+            x2 := 0;
+            x3 := x1;
+            WHILE x3 != 0 DO
+                x4 := x2;
+                WHILE x4 != 0 DO x0 := x0 + 1; x4 := x4 - 1; END
+                x3 := x3 - 1;
+            END
+            IF x1 = 2 THEN x0 := x0 + 1; END
+        `).program;
+        const result = differentialVerify({ language: "loop", program: multiply }, { language: "while", program: wrong });
+
+        expect(result.counterexample?.inputs).toEqual(new Map([["x1", 2n], ["x2", 0n]]));
+        expect(result.counterexample?.original.variables.get("x0")).toBe(0n);
+        expect(result.counterexample?.translated.variables.get("x0")).toBe(1n);
+    });
+
+    test("non-termination agrees only when both runs exceed the budget", () => {
+        const loops = parseWhile("x0 := 0; x1 := 0; WHILE x1 != 3 DO x0 := x0 + 1; END").program;
+        const alsoLoops = parseGoto("x0 := 0; x1 := 0; M1: IF x1 = 3 THEN GOTO M2; GOTO M1; M2: HALT;").program;
+        const halts = parseGoto("x0 := 0; x1 := 0; HALT;").program;
+        const options = { box: 5, samples: 0, maxSteps: 1000 };
+
+        const both = differentialVerify({ language: "while", program: loops }, { language: "goto", program: alsoLoops }, options);
+        expect(both.counterexample).toBeUndefined();
+        expect(both.inconclusive).toBe(5);
+
+        const one = differentialVerify({ language: "while", program: loops }, { language: "goto", program: halts }, options);
+        expect(one.counterexample?.inputs.get("x1")).toBe(0n);
+        expect(one.counterexample?.original.status).toBe("budgetExceeded");
+    });
+
+    test("fixed inputs are not varied, and the box shrinks for many inputs", () => {
+        const many = parseLoop("x0 := x1 + x2; x0 := x0 + x3; x0 := x0 + x4; x0 := x0 + x5;").program;
+        const result = differentialVerify({ language: "loop", program: many }, { language: "loop", program: many }, {
+            fixed: new Map([["x5", 1n]]), samples: 0,
+        });
+        expect(result.inputs).toEqual(["x1", "x2", "x3", "x4"]);
+        expect(result.box).toBe(5); // 6^4 = 1296 <= 2000 < 7^4
+        expect(result.tested).toBe(1296);
+    });
+});
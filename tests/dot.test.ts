@@ -0,0 +1,69 @@
+/// <reference types="vitest/globals" />
+import * as fs from "fs";
+import * as path from "path";
+import { parseProgram } from "../src/parse";
+import type { Language, TaggedProgram } from "../src/parse";
+import { astToDot, cfgToDot } from "../src/dot";
+import { translateProgram } from "../src/translate";
+
+const examples = path.join(__dirname, "../examples");
+
+function load(name: string): TaggedProgram {
+    const language = path.extname(name).slice(1) as Language;
+    return parseProgram(fs.readFileSync(path.join(examples, name), "utf-8"), language).program;
+}
+
+function cfgDot(target: TaggedProgram): string {
+    if (target.language === "loop") throw new Error("LOOP has no control-flow graph");
+    return cfgToDot(target);
+}
+
+describe("DOT export", () => {
+    test("GOTO blocks show their instructions; tests branch true and false; the jump back is dashed", () => {
+        const dot = cfgDot(load("countdown.goto"));
+
+        expect(dot.startsWith("digraph cfg {\n")).toBe(true);
+        expect(dot).toContain('b2 [label="M1: IF x1 = 0 THEN GOTO M2;\\l"];');
+        expect(dot).toContain('b3 [label="x1 := x1 - 1;\\lx0 := x0 + 1;\\lGOTO M1;\\l"];');
+        expect(dot).toContain('b2 -> b4 [label="true"];');
+        expect(dot).toContain('b2 -> b3 [label="false"];');
+        expect(dot).toContain("b3 -> b2 [style=dashed];");
+        expect(dot.match(/style=dashed/g)).toHaveLength(1);
+    });
+
+    test("a WHILE loop and its GOTO translation have the same back edge", () => {
+        const original = load("divide.while");
+        const whileDot = cfgDot(original);
+        const gotoDot = cfgDot(translateProgram(original, "goto"));
+
+        expect(whileDot).toContain('b2 [label="WHILE x1 >= x2\\l"];');
+        expect(whileDot).toContain("b3 -> b2 [style=dashed];");
+        expect(gotoDot).toContain('b2 [label="M0: IF x1 < x2 THEN GOTO M1;\\l"];');
+        expect(gotoDot).toContain("b3 -> b2 [style=dashed];");
+    });
+
+    test("code that can never run is grey", () => {
+        const target = parseProgram("x0 := 1; GOTO M1; x0 := 2; M1: HALT;", "goto").program;
+        expect(cfgDot(target)).toContain('b2 [label="x0 := 2;\\l", color=gray, fontcolor=gray];');
+    });
+
+    test("the AST as a tree with labelled bodies", () => {
+        const dot = astToDot(load("multiply.loop"));
+
+        expect(dot.startsWith("digraph ast {\n")).toBe(true);
+        expect(dot).toContain('n0 [label="LOOP program", shape=box];');
+        expect(dot).toMatch(/n\d+ \[label="LOOP x1", shape=box\];/);
+        expect(dot).toMatch(/-> n\d+ \[label="body"\];/);
+        expect(dot).toMatch(/\[label="\+", shape=oval\];/);
+        const nodes = dot.match(/^ {2}n\d+ \[/gm)!.length;
+        const edges = dot.match(/ -> /g)!.length;
+        expect(edges).toBe(nodes - 1);
+    });
+
+    test("GOTO instructions hang off the program with their conditions", () => {
+        const dot = astToDot(load("countdown.goto"));
+        expect(dot).toContain('[label="M1: IF ... GOTO M2", shape=box];');
+        expect(dot).toMatch(/\[label="=", shape=diamond\];/);
+        expect(dot).toContain('[label="M2: HALT", shape=box];');
+    });
+});
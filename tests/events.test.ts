@@ -0,0 +1,138 @@
+/// <reference types="vitest/globals" />
+import LoopInterpreter from "../src/loop/interpreter";
+import WhileInterpreter from "../src/while/interpreter";
+import GotoInterpreter from "../src/goto/interpreter";
+import { parseLoop, parseWhile, parseGoto } from "../src/parse";
+import { consoleTracer } from "../src/events";
+import type { ExecutionEvent } from "../src/events";
+
+// Event types in order, with the interesting payload
+function summarize(events: ExecutionEvent[]): string[] {
+    return events.map((event) => {
+        switch (event.type) {
+            case "statement": return `statement@${event.step}${event.pc !== undefined ? ` pc=${event.pc}` : ""}`;
+            case "assignment": return `${event.variable}: ${event.oldValue} -> ${event.newValue}`;
+            case "skippedAssignment": return `skip ${event.variable} := ${event.value}`;
+            case "loopEntered": return `loop ${event.counter} x${event.iterations}`;
+            case "loopIteration": return `iteration ${event.iteration}`;
+            case "condition": return `condition ${event.result}`;
+            case "jump": return `jump ${event.from} -> ${event.to}`;
+            case "halt": return `halt after ${event.steps}`;
+        }
+    });
+}
+
+describe("Execution events", () => {
+    test("LOOP: assignments, skipped input, iterations and halt", () => {
+        const { program } = parseLoop(`
+            x1 := 0;
+            LOOP x1 DO
+                x0 := x0 + 1;
+            END
+        `);
+        const events: ExecutionEvent[] = [];
+        new LoopInterpreter().run(program, { initialVariables: new Map([["x1", 2n]]), observers: [(e) => events.push(e)] });
+
+        expect(summarize(events)).toEqual([
+            "statement@0", "skip x1 := 0",
+            "statement@1", "loop x1 x2",
+            "iteration 1", "statement@3", "x0: 0 -> 1",
+            "iteration 2", "statement@5", "x0: 1 -> 2",
+            "halt after 6",
+        ]);
+    });
+
+    test("WHILE: one condition event per test", () => {
+        const { program } = parseWhile(`
+            x0 := 1;
+            WHILE x0 != 0 DO
+                x0 := x0 - 1;
+            END
+            IF x0 = 0 THEN x1 := 7; END
+        `);
+        const events: ExecutionEvent[] = [];
+        new WhileInterpreter().run(program, { observers: [(e) => events.push(e)] });
+
+        expect(summarize(events)).toEqual([
+            "statement@0", "x0: 0 -> 1",
+            "statement@1", "condition true", "iteration 1", "statement@2", "x0: 1 -> 0", "condition false",
+            "statement@4", "condition true", "statement@5", "x1: 0 -> 7",
+            "halt after 6",
+        ]);
+    });
+
+    test("GOTO: conditions and jumps carry program counters", () => {
+        const { program } = parseGoto(`
+                x1 := 1;
+            M1: IF x1 = 0 THEN GOTO M2;
+                x1 := x1 - 1;
+                GOTO M1;
+            M2: HALT;
+        `);
+        const events: ExecutionEvent[] = [];
+        new GotoInterpreter().run(program, { observers: [(e) => events.push(e)] });
+
+        expect(summarize(events)).toEqual([
+            "statement@0 pc=0", "x1: 0 -> 1",
+            "statement@1 pc=1", "condition false",
+            "statement@2 pc=2", "x1: 1 -> 0",
+            "statement@3 pc=3", "jump 3 -> 1",
+            "statement@4 pc=1", "condition true", "jump 1 -> 4",
+            "statement@5 pc=4",
+            "halt after 6",
+        ]);
+    });
+
+    test("statement events expose the live state", () => {
+        const { program } = parseLoop("x1 := 3; x2 := x1;");
+        const seen: Array<bigint | undefined> = [];
+        new LoopInterpreter().run(program, {
+            observers: [(e) => { if (e.type === "statement") seen.push(e.variables.get("x1")); }],
+        });
+        expect(seen).toEqual([undefined, 3n]);
+    });
+
+    test("no halt event when the budget runs out", () => {
+        const { program } = parseWhile("x0 := 1; WHILE x0 != 0 DO x0 := 1; END");
+        const events: ExecutionEvent[] = [];
+        new WhileInterpreter().run(program, { maxSteps: 20, observers: [(e) => events.push(e)] });
+        expect(events.some((e) => e.type === "halt")).toBe(false);
+    });
+});
+
+describe("Console trace", () => {
+    test("LOOP and WHILE trace lines", () => {
+        const lines: string[] = [];
+        const { program } = parseWhile(`
+            x0 := 0;
+            WHILE x0 != 0 DO x0 := 0; END
+            IF x0 = 0 THEN x1 := 1; END
+        `);
+        new WhileInterpreter().run(program, { observers: [consoleTracer((line) => lines.push(line))] });
+
+        expect(lines).toEqual([
+            "  x0 := 0 (was 0)",
+            "  WHILE x0 != 0",
+            "    (condition false, skipped)",
+            "  IF x0 = 0 -> true",
+            "  x1 := 1 (was 0)",
+        ]);
+    });
+
+    test("GOTO trace lines", () => {
+        const lines: string[] = [];
+        const { program } = parseGoto(`
+            M1: IF x1 = 0 THEN GOTO M2;
+                GOTO M1;
+            M2: HALT;
+        `);
+        new GotoInterpreter().run(program, { observers: [consoleTracer((line) => lines.push(line))] });
+
+        expect(lines).toEqual([
+            "  [0] M1: IF x1 = 0 THEN GOTO M2;",
+            "       -> true, jump to M2 (pc=2)",
+            "  [2] M2: HALT;",
+            "       -> HALT",
+        ]);
+    });
+});
@@ -0,0 +1,116 @@
+/// <reference types="vitest/globals" />
+import LoopInterpreter from "../src/loop/interpreter";
+import WhileInterpreter from "../src/while/interpreter";
+import GotoInterpreter from "../src/goto/interpreter";
+import { parseLoop, parseWhile, parseGoto } from "../src/parse";
+import { SourceError } from "../src/diagnostics";
+
+describe("Execution budgets", () => {
+    test("halted outcome reports final state and steps", () => {
+        const { program } = parseLoop(`
+            x0 := 2;
+            LOOP x0 DO
+                x1 := x1 + 1;
+            END
+        `);
+        const outcome = new LoopInterpreter().run(program);
+
+        expect(outcome.status).toBe("halted");
+        expect(outcome.variables.get("x1")).toBe(2n);
+        // assignment, LOOP entry, 2 iterations, 2 body assignments
+        expect(outcome.steps).toBe(6);
+    });
+
+    test("step budget stops a LOOP program with a huge counter", () => {
+        const { program } = parseLoop(`
+            x0 := 1000000000000;
+            LOOP x0 DO
+                x1 := x1 + 1;
+            END
+        `);
+        const outcome = new LoopInterpreter().run(program, { maxSteps: 100 });
+
+        expect(outcome.status).toBe("budgetExceeded");
+        if (outcome.status !== "budgetExceeded") return;
+        expect(outcome.budget).toBe("steps");
+        expect(outcome.steps).toBe(100);
+        expect(outcome.variables.get("x1")).toBeGreaterThan(0n);
+    });
+
+    test("partial state and span of the statement that ran out", () => {
+        const { program } = parseWhile(`x0 := 1;
+WHILE x0 != 0 DO
+    x1 := x1 + 1;
+END`);
+        const outcome = new WhileInterpreter().run(program, { maxSteps: 10 });
+
+        expect(outcome.status).toBe("budgetExceeded");
+        if (outcome.status !== "budgetExceeded") return;
+        expect(outcome.variables.get("x0")).toBe(1n);
+        expect(outcome.variables.get("x1")).toBe(4n);
+        expect(outcome.span?.start.line).toBe(3);
+    });
+
+    test("value budget", () => {
+        const { program } = parseGoto(`
+            x0 := 1;
+            M1: x0 := x0 + x0;
+            GOTO M1;
+        `);
+        const outcome = new GotoInterpreter().run(program, { maxValue: 1000n });
+
+        expect(outcome.status).toBe("budgetExceeded");
+        if (outcome.status !== "budgetExceeded") return;
+        expect(outcome.budget).toBe("value");
+        expect(outcome.variables.get("x0")).toBe(512n);
+    });
+
+    test("wall-clock budget", () => {
+        const { program } = parseGoto(`
+            M1: x1 := x1 + 1;
+            GOTO M1;
+        `);
+        const outcome = new GotoInterpreter().run(program, { maxSteps: Infinity, timeoutMs: 20 });
+
+        expect(outcome.status).toBe("budgetExceeded");
+        if (outcome.status !== "budgetExceeded") return;
+        expect(outcome.budget).toBe("time");
+    });
+
+    test("evaluate() still throws when the budget runs out", () => {
+        const { program } = parseWhile(`
+            x0 := 1;
+            WHILE x0 != 0 DO
+                x0 := 1;
+            END
+        `);
+        expect(() => new WhileInterpreter().evaluate(program, { maxSteps: 50 })).toThrow(SourceError);
+        expect(() => new WhileInterpreter().evaluate(program, { maxSteps: 50 })).toThrow("Infinite loop detected");
+    });
+});
+
+describe("Executing against existing state", () => {
+    test("execute() keeps the variables of earlier runs and setVariable()", () => {
+        const interpreter = new WhileInterpreter();
+        interpreter.setVariable("x1", 3n);
+        interpreter.execute(parseWhile("x0 := x1 + 1;").program);
+        const outcome = interpreter.execute(parseWhile("WHILE x1 > 0 DO x0 := x0 + 1; x1 := x1 - 1; END").program);
+
+        expect(outcome.status).toBe("halted");
+        expect(interpreter.getVariables()).toEqual(new Map([["x1", 0n], ["x0", 7n]]));
+        // Steps are counted per call: 3 iterations of 2 assignments and 4 condition tests
+        expect(outcome.steps).toBe(10);
+    });
+
+    test("initial variables are not locked, unlike run()", () => {
+        const { program } = parseLoop("x1 := 0; x0 := x1;");
+        expect(new LoopInterpreter().run(program, { initialVariables: new Map([["x1", 5n]]) }).variables.get("x0")).toBe(5n);
+        expect(new LoopInterpreter().execute(program, { initialVariables: new Map([["x1", 5n]]) }).variables.get("x0")).toBe(0n);
+    });
+
+    test("run() still starts from an empty store", () => {
+        const interpreter = new GotoInterpreter();
+        interpreter.execute(parseGoto("x2 := 4;").program);
+        expect(interpreter.run(parseGoto("x0 := x2;").program).variables).toEqual(new Map([["x0", 0n]]));
+    });
+});
@@ -0,0 +1,116 @@
+/// <reference types="vitest/globals" />
+import { parseLoop, parseWhile, parseGoto } from "../src/parse";
+import { printLoopProgram, printWhileProgram, printGotoProgram } from "../src/printer";
+import { generateProgram } from "../src/generate";
+import { fuzz, shrink } from "../src/fuzz";
+import { translateProgram } from "../src/translate";
+import { makeRandom } from "../src/random";
+import { runProgram } from "../src/run";
+import type { TaggedProgram } from "../src/parse";
+
+// Print and parse back; a well-formed program comes back unchanged
+function reparse(target: TaggedProgram): string {
+    switch (target.language) {
+        case "loop": {
+            const code = printLoopProgram(target.program);
+            return printLoopProgram(parseLoop(code).program!);
+        }
+        case "while": {
+            const code = printWhileProgram(target.program);
+            return printWhileProgram(parseWhile(code).program!);
+        }
+        case "goto": {
+            const code = printGotoProgram(target.program);
+            return printGotoProgram(parseGoto(code).program!);
+        }
+    }
+}
+
+function printed(target: TaggedProgram): string {
+    switch (target.language) {
+        case "loop": return printLoopProgram(target.program);
+        case "while": return printWhileProgram(target.program);
+        case "goto": return printGotoProgram(target.program);
+    }
+}
+
+describe("Program generator", () => {
+    test("generated programs survive a print/parse round trip", () => {
+        const random = makeRandom(7);
+        for (const language of ["loop", "while", "goto"] as const) {
+            for (let i = 0; i < 20; i++) {
+                const program = generateProgram(language, random, { depth: 3 });
+                expect(reparse(program)).toBe(printed(program));
+            }
+        }
+    });
+
+    test("terminating WHILE and GOTO programs halt", () => {
+        const random = makeRandom(11);
+        for (const language of ["while", "goto"] as const) {
+            for (let i = 0; i < 30; i++) {
+                const outcome = runProgram(generateProgram(language, random, { depth: 2, maxConstant: 3 }), { maxSteps: 1_000_000 });
+                expect(outcome.status).toBe("halted");
+            }
+        }
+    });
+
+    test("the same seed gives the same program", () => {
+        const a = generateProgram("goto", makeRandom(3), { terminating: false });
+        const b = generateProgram("goto", makeRandom(3), { terminating: false });
+        expect(printed(a)).toBe(printed(b));
+    });
+});
+
+describe("Translator fuzzing", () => {
+    test("every translation path agrees on random programs", () => {
+        const result = fuzz({ runs: 20, seed: 5 });
+        expect(result.failure).toBeUndefined();
+        expect(result.programs).toBe(60);
+        for (const checks of result.checks.values()) expect(checks).toBe(100);
+    });
+
+    test.each(["structured", "dispatch"] as const)("GOTO -> WHILE (%s) agrees on programs with arbitrary jumps", (scheme) => {
+        const result = fuzz({
+            runs: 40, seed: 9, terminating: false, paths: [{ from: "goto", to: "while" }],
+            translate: (source, to) => translateProgram(source, to, { gotoToWhile: scheme }),
+        });
+        expect(result.failure).toBeUndefined();
+    });
+
+    test("a broken translator is caught and the program shrunk", () => {
+        // Drops the last statement of every LOOP -> WHILE translation
+        const broken = (source: TaggedProgram, to: "loop" | "while" | "goto") => {
+            const target = translateProgram(source, to);
+            if (target.language === "while") target.program.statements.pop();
+            return target;
+        };
+        const result = fuzz({ runs: 20, paths: [{ from: "loop", to: "while" }], translate: broken, depth: 3 });
+
+        const failure = result.failure!;
+        expect(failure).toBeDefined();
+        expect(failure.program.language).toBe("loop");
+        if (failure.program.language === "loop") {
+            expect(failure.program.program.statements).toHaveLength(1);
+            expect(failure.program.program.statements[0]!.type).toBe("assignment");
+        }
+    });
+
+    test("shrinking keeps every GOTO label a jump refers to", () => {
+        const { program } = parseGoto(`
+                x1 := 3;
+            M1: IF x1 = 0 THEN GOTO M2;
+                x2 := x2 + 1;
+                x1 := x1 - 1;
+                GOTO M1;
+            M2: x0 := x2;
+                HALT;
+        `);
+        // Fails while x0 still ends up non-zero; a candidate with a dangling jump would throw here
+        const shrunk = shrink({ language: "goto", program: program! }, (candidate) => {
+            const outcome = runProgram(candidate, { maxSteps: 1000 });
+            return outcome.status === "halted" && (outcome.variables.get("x0") ?? 0n) !== 0n;
+        });
+        expect(printed(shrunk)).toBe("x2 := 1;\nx0 := x2;");
+    });
+});
@@ -17,7 +17,7 @@ describe("GOTO Interpreter", () => {
         const interpreter = new GotoInterpreter();
         const result = interpreter.evaluate(parser.parse());
         
-        expect(result.get("x0")).toBe(0);
+        expect(result.get("x0")).toBe(0n);
     });
 
     test("backward jump loop", () => {
@@ -35,8 +35,8 @@ describe("GOTO Interpreter", () => {
         const interpreter = new GotoInterpreter();
         const result = interpreter.evaluate(parser.parse());
         
-        expect(result.get("x1")).toBe(3);
-        expect(result.get("x0")).toBe(0);
+        expect(result.get("x1")).toBe(3n);
+        expect(result.get("x0")).toBe(0n);
     });
 
     test("unconditional GOTO", () => {
@@ -51,7 +51,7 @@ describe("GOTO Interpreter", () => {
         const interpreter = new GotoInterpreter();
         const result = interpreter.evaluate(parser.parse());
         
-        expect(result.get("x0")).toBe(1);
+        expect(result.get("x0")).toBe(1n);
     });
 
     test("forward jump skips code", () => {
@@ -68,7 +68,7 @@ describe("GOTO Interpreter", () => {
         const interpreter = new GotoInterpreter();
         const result = interpreter.evaluate(parser.parse());
         
-        expect(result.get("x0")).toBe(11);
+        expect(result.get("x0")).toBe(11n);
     });
 
     test("complex control flow", () => {
@@ -87,7 +87,7 @@ describe("GOTO Interpreter", () => {
         const interpreter = new GotoInterpreter();
         const result = interpreter.evaluate(parser.parse());
         
-        expect(result.get("x0")).toBe(8);
+        expect(result.get("x0")).toBe(8n);
     });
 
     test("HALT stops execution", () => {
@@ -101,7 +101,7 @@ describe("GOTO Interpreter", () => {
         const interpreter = new GotoInterpreter();
         const result = interpreter.evaluate(parser.parse());
         
-        expect(result.get("x0")).toBe(1);
+        expect(result.get("x0")).toBe(1n);
     });
 });
 
@@ -118,10 +118,10 @@ describe("GOTO with initial variables", () => {
         const parser = new GotoParser(lexer.tokenize());
         const interpreter = new GotoInterpreter();
         
-        const initialVars = new Map([["x0", 3]]);
+        const initialVars = new Map([["x0", 3n]]);
         const result = interpreter.evaluate(parser.parse(), { initialVariables: initialVars });
         
-        expect(result.get("x0")).toBe(0);
+        expect(result.get("x0")).toBe(0n);
     });
 
     test("initial var overridden by program assignment", () => {
@@ -138,12 +138,12 @@ describe("GOTO with initial variables", () => {
         const parser = new GotoParser(lexer.tokenize());
         const interpreter = new GotoInterpreter();
 
-        const initialVars = new Map([["x0", 2]]);
+        const initialVars = new Map([["x0", 2n]]);
         const result = interpreter.evaluate(parser.parse(), { initialVariables: initialVars });
 
         // x0 := 10 overwrites initial value, so 10 iterations
-        expect(result.get("x0")).toBe(0);
-        expect(result.get("x1")).toBe(10);
+        expect(result.get("x0")).toBe(0n);
+        expect(result.get("x1")).toBe(10n);
     });
 
     test("IF condition uses program value not initial var", () => {
@@ -160,10 +160,10 @@ describe("GOTO with initial variables", () => {
         const parser = new GotoParser(lexer.tokenize());
         const interpreter = new GotoInterpreter();
 
-        const initialVars = new Map([["x0", 5]]);
+        const initialVars = new Map([["x0", 5n]]);
         const result = interpreter.evaluate(parser.parse(), { initialVariables: initialVars });
 
         // x0 := 0 overwrites initial value, so IF x0=5 is false
-        expect(result.get("x1")).toBe(1);
+        expect(result.get("x1")).toBe(1n);
     });
 });
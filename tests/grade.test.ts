@@ -0,0 +1,70 @@
+/// <reference types="vitest/globals" />
+import { grade } from "../src/grade";
+
+const multiply = {
+    language: "loop" as const,
+    code: `
+        x0 := 0;
+        x1 := 0;
+        x2 := 0;
+        LOOP x1 DO LOOP x2 DO x0 := x0 + 1; END END
+    `,
+};
+
+describe("Autograder", () => {
+    test("a correct submission in another language scores 1", () => {
+        const submission = {
+            language: "while" as const,
+            code: `
+                x3 := x1;
+                WHILE x3 != 0 DO
+                    x0 := x0 + x2;
+                    x3 := x3 - 1;
+                END
+            `,
+        };
+        const report = grade(multiply, submission, { to: 3 });
+
+        expect(report.inputs).toEqual(["x1", "x2"]);
+        expect(report.domain).toEqual({ from: 0, to: 3, tuples: "all" });
+        expect([report.score, report.passed, report.graded]).toEqual([1, 16, 16]);
+        expect(report.failures).toEqual([]);
+    });
+
+    test("wrong results and budget overruns are listed with their inputs", () => {
+        const submission = {
+            language: "while" as const,
+            code: `
+                x3 := x1;
+                WHILE x3 != 1 DO
+                    x0 := x0 + x2;
+                    x3 := x3 - 1;
+                END
+            `,
+        };
+        const report = grade(multiply, submission, { to: 2, maxSteps: 500 });
+
+        expect(report.graded).toBe(9);
+        expect(report.budgetOverruns).toBe(3); // x1 = 0 never reaches 1
+        expect(report.score).toBe(0.222); // only x2 = 0 with x1 = 1 or 2
+        expect(report.failures[0]).toEqual({ inputs: { x1: "0", x2: "0" }, expected: { x0: "0" }, reason: "budget-exceeded", message: expect.any(String) });
+        expect(report.failures[3]).toEqual({ inputs: { x1: "1", x2: "1" }, expected: { x0: "1" }, reason: "wrong-result", actual: { x0: "0" } });
+    });
+
+    test("syntax errors come from the parser for the submission's language", () => {
+        const submission = { language: "loop" as const, code: "x0 := 0;\nWHILE x1 != 0 DO x1 := x1 - 1; END\n" };
+        const report = grade(multiply, submission);
+
+        expect(report.score).toBe(0);
+        expect(report.graded).toBe(0);
+        expect(report.syntaxErrors[0]).toEqual({ line: 2, column: 1, message: "Unexpected token: keyword" });
+    });
+
+    test("a language restriction rejects other languages", () => {
+        const submission = { language: "goto" as const, code: "x0 := x1;\nHALT;\n" };
+        const report = grade(multiply, submission, { language: "loop" });
+
+        expect(report.restriction).toBe("The submission must be a LOOP program, not GOTO.");
+        expect(report.score).toBe(0);
+    });
+});
@@ -0,0 +1,95 @@
+/// <reference types="vitest/globals" />
+import Lexer from "../src/lexer";
+import LoopParser from "../src/loop/parser";
+import WhileParser from "../src/while/parser";
+import GotoParser from "../src/goto/parser";
+import LoopInterpreter from "../src/loop/interpreter";
+import WhileInterpreter from "../src/while/interpreter";
+import GotoInterpreter from "../src/goto/interpreter";
+
+describe("Lexer comments", () => {
+    test("line comments with // and # are skipped", () => {
+        const tokens = new Lexer("x0 := 1; // one\n# whole line\nx1 := 2;").tokenize();
+        expect(tokens.map(t => t.value)).toEqual(["x0", ":=", "1", ";", "x1", ":=", "2", ";"]);
+    });
+
+    test("block comments may span lines", () => {
+        const tokens = new Lexer("x0 := /* a\nmulti-line\ncomment */ 1;").tokenize();
+        expect(tokens.map(t => t.value)).toEqual(["x0", ":=", "1", ";"]);
+        expect(tokens[2]!.span.start.line).toBe(3);
+    });
+
+    test("comment on the same line trails the previous token", () => {
+        const tokens = new Lexer("x0 := 1; // set result\nx1 := 2;").tokenize();
+        expect(tokens[3]!.trailingTrivia).toEqual([
+            expect.objectContaining({ kind: "lineComment", text: "// set result" })
+        ]);
+        expect(tokens[4]!.leadingTrivia).toBeUndefined();
+    });
+
+    test("comment on its own line leads the next token", () => {
+        const tokens = new Lexer("x0 := 1;\n/* input */\n# default\nx1 := 2;").tokenize();
+        expect(tokens[4]!.leadingTrivia?.map(t => t.text)).toEqual(["/* input */", "# default"]);
+        expect(tokens[3]!.trailingTrivia).toBeUndefined();
+    });
+
+    test("comments at end of file stay with the last token", () => {
+        const tokens = new Lexer("HALT;\n// the end\n").tokenize();
+        expect(tokens[1]!.trailingTrivia?.map(t => t.text)).toEqual(["// the end"]);
+    });
+
+    test("unterminated block comment is an error", () => {
+        expect(() => new Lexer("x0 := 1; /* oops").tokenize()).toThrow("Unterminated block comment");
+    });
+
+    test("single slash is still an unexpected character", () => {
+        expect(() => new Lexer("x0 := 4 / 2;").tokenize()).toThrow("Unexpected character");
+    });
+});
+
+describe("Commented programs run in all three languages", () => {
+    test("LOOP", () => {
+        const code = `
+            // multiply x1 by x2
+            x0 := 0;
+            LOOP x1 DO   # outer
+                LOOP x2 DO /* inner */
+                    x0 := x0 + 1;
+                END
+            END
+        `;
+        const program = new LoopParser(new Lexer(code).tokenize()).parse();
+        const result = new LoopInterpreter().evaluate(program, new Map([["x1", 3n], ["x2", 4n]]));
+        expect(result.get("x0")).toBe(12n);
+    });
+
+    test("WHILE", () => {
+        const code = `
+            /* integer division */
+            x0 := 0;
+            x1 := 0; x2 := 0; // defaults, replaced by inputs
+            WHILE x1 >= x2 DO // until remainder < divisor
+                x1 := x1 - x2;
+                x0 := x0 + 1;
+            END
+        `;
+        const program = new WhileParser(new Lexer(code).tokenize()).parse();
+        const result = new WhileInterpreter().evaluate(program, new Map([["x1", 10n], ["x2", 3n]]));
+        expect(result.get("x0")).toBe(3n);
+    });
+
+    test("GOTO", () => {
+        const code = `
+            x0 := 0;
+            x1 := 0; # default, replaced by input
+            M1: IF x1 = 0 THEN GOTO M2; # loop test
+                x1 := x1 - 1;
+                x0 := x0 + 1;
+                GOTO M1;
+            M2: HALT; // done
+        `;
+        const program = new GotoParser(new Lexer(code).tokenize()).parse();
+        const result = new GotoInterpreter().evaluate(program, new Map([["x1", 5n]]));
+        expect(result.get("x0")).toBe(5n);
+    });
+});
@@ -17,7 +17,7 @@ describe("LOOP Interpreter", () => {
         const interpreter = new LoopInterpreter();
         const result = interpreter.evaluate(parser.parse());
         
-        expect(result.get("x1")).toBe(5);
+        expect(result.get("x1")).toBe(5n);
     });
 
     test("monus subtraction (no negatives)", () => {
@@ -31,7 +31,7 @@ describe("LOOP Interpreter", () => {
         const interpreter = new LoopInterpreter();
         const result = interpreter.evaluate(parser.parse());
         
-        expect(result.get("x2")).toBe(0);
+        expect(result.get("x2")).toBe(0n);
     });
 
     test("nested loops (multiplication)", () => {
@@ -50,7 +50,7 @@ describe("LOOP Interpreter", () => {
         const interpreter = new LoopInterpreter();
         const result = interpreter.evaluate(parser.parse());
         
-        expect(result.get("x2")).toBe(12);
+        expect(result.get("x2")).toBe(12n);
     });
 
     test("loop count captured before execution", () => {
@@ -67,8 +67,8 @@ describe("LOOP Interpreter", () => {
         const interpreter = new LoopInterpreter();
         const result = interpreter.evaluate(parser.parse());
         
-        expect(result.get("x1")).toBe(5);
-        expect(result.get("x0")).toBe(0);
+        expect(result.get("x1")).toBe(5n);
+        expect(result.get("x0")).toBe(0n);
     });
 
     test("zero iterations", () => {
@@ -84,7 +84,7 @@ describe("LOOP Interpreter", () => {
         const interpreter = new LoopInterpreter();
         const result = interpreter.evaluate(parser.parse());
         
-        expect(result.get("x1")).toBe(10);
+        expect(result.get("x1")).toBe(10n);
     });
 
     test("sequential loops", () => {
@@ -104,7 +104,7 @@ describe("LOOP Interpreter", () => {
         const interpreter = new LoopInterpreter();
         const result = interpreter.evaluate(parser.parse());
         
-        expect(result.get("x1")).toBe(5);
+        expect(result.get("x1")).toBe(5n);
     });
 
     test("addition", () => {
@@ -118,7 +118,7 @@ describe("LOOP Interpreter", () => {
         const interpreter = new LoopInterpreter();
         const result = interpreter.evaluate(parser.parse());
         
-        expect(result.get("x2")).toBe(8);
+        expect(result.get("x2")).toBe(8n);
     });
 });
 
@@ -138,14 +138,14 @@ describe("LOOP with initial variables", () => {
         const parser = new LoopParser(lexer.tokenize());
         const interpreter = new LoopInterpreter();
 
-        const initialVars = new Map([["x0", 5], ["x1", 6]]);
+        const initialVars = new Map([["x0", 5n], ["x1", 6n]]);
         const result = interpreter.evaluate(parser.parse(), { initialVariables: initialVars });
 
         // x0 is result var — always overwritable, so x0 := 3
         // x1 is input var — locked, so x1 stays 6
-        expect(result.get("x0")).toBe(3);
-        expect(result.get("x1")).toBe(6);
-        expect(result.get("x2")).toBe(18);
+        expect(result.get("x0")).toBe(3n);
+        expect(result.get("x1")).toBe(6n);
+        expect(result.get("x2")).toBe(18n);
     });
 
     test("initial vars work with subsequent modifications", () => {
@@ -161,12 +161,12 @@ describe("LOOP with initial variables", () => {
         const parser = new LoopParser(lexer.tokenize());
         const interpreter = new LoopInterpreter();
 
-        const initialVars = new Map([["x0", 3]]);
+        const initialVars = new Map([["x0", 3n]]);
         const result = interpreter.evaluate(parser.parse(), { initialVariables: initialVars });
 
         // x0 := 10 overwrites initial value, so 10 iterations
-        expect(result.get("x1")).toBe(10);
-        expect(result.get("x0")).toBe(0);
+        expect(result.get("x1")).toBe(10n);
+        expect(result.get("x0")).toBe(0n);
     });
 
     test("partial initial vars", () => {
@@ -179,12 +179,44 @@ describe("LOOP with initial variables", () => {
         const parser = new LoopParser(lexer.tokenize());
         const interpreter = new LoopInterpreter();
 
-        const initialVars = new Map([["x0", 10]]);
+        const initialVars = new Map([["x0", 10n]]);
         const result = interpreter.evaluate(parser.parse(), { initialVariables: initialVars });
 
         // x0 := 2 overwrites initial value
-        expect(result.get("x0")).toBe(2);
-        expect(result.get("x1")).toBe(3);
-        expect(result.get("x2")).toBe(5);
+        expect(result.get("x0")).toBe(2n);
+        expect(result.get("x1")).toBe(3n);
+        expect(result.get("x2")).toBe(5n);
+    });
+
+    test("values beyond 2^53 stay exact", () => {
+        // x0 := 2^x1 by repeated doubling
+        const code = `
+            x0 := 1;
+            x1 := 0;
+            LOOP x1 DO
+                x0 := x0 + x0;
+            END
+        `;
+        const lexer = new Lexer(code);
+        const parser = new LoopParser(lexer.tokenize());
+        const interpreter = new LoopInterpreter();
+        const result = interpreter.evaluate(parser.parse(), { initialVariables: new Map([["x1", 100n]]) });
+
+        expect(result.get("x0")).toBe(2n ** 100n);
+    });
+
+    test("large literals and monus", () => {
+        const code = `
+            x0 := 123456789012345678901234567890;
+            x1 := x0 + 1;
+            x2 := 5 - x0;
+        `;
+        const lexer = new Lexer(code);
+        const parser = new LoopParser(lexer.tokenize());
+        const interpreter = new LoopInterpreter();
+        const result = interpreter.evaluate(parser.parse());
+
+        expect(result.get("x1")).toBe(123456789012345678901234567891n);
+        expect(result.get("x2")).toBe(0n);
     });
 });
@@ -0,0 +1,124 @@
+/// <reference types="vitest/globals" />
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import Lexer from "../src/lexer";
+import WhileParser from "../src/while/parser";
+import GotoParser from "../src/goto/parser";
+import { parseProgram } from "../src/parse";
+import type { Language, TaggedProgram } from "../src/parse";
+import { exportAst, importAst } from "../src/astJson";
+import { translateFiles, translationFileName, writeTranslation } from "../src/output";
+
+const examples = path.join(__dirname, "../examples");
+let dir: string;
+
+beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "lang-output-"));
+});
+
+afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+});
+
+function load(file: string): TaggedProgram {
+    const language = path.extname(file).slice(1) as Language;
+    return parseProgram(fs.readFileSync(file, "utf-8"), language).program;
+}
+
+// Parsed with the language's own parser, which throws on any syntax error
+function reparse(file: string): TaggedProgram {
+    const tokens = new Lexer(fs.readFileSync(file, "utf-8")).tokenize();
+    return file.endsWith(".while")
+        ? { language: "while", program: new WhileParser(tokens).parse() }
+        : { language: "goto", program: new GotoParser(tokens).parse() };
+}
+
+describe("Writing translations", () => {
+    test("file names take the target language's extension", () => {
+        expect(translationFileName("examples/multiply.loop", "while")).toBe("multiply.while");
+        expect(translationFileName("countdown.goto.json", "while")).toBe("countdown.while");
+        expect(translationFileName("divide.while", "goto", { ast: true })).toBe("divide.goto.json");
+    });
+
+    test.each([
+        ["multiply.loop", "while"],
+        ["multiply.loop", "goto"],
+        ["divide.while", "goto"],
+        ["countdown.goto", "while"],
+    ] as const)("%s to %s is written without a banner and parses back to the translation", (name, to) => {
+        const file = path.join(dir, translationFileName(name, to));
+        const translated = writeTranslation(load(path.join(examples, name)), to, file);
+
+        const code = fs.readFileSync(file, "utf-8");
+        expect(code).not.toContain("[Translated");
+        expect(code).toMatch(/\S\n$/);
+        expect(exportAst(reparse(file))).toEqual(exportAst(translated));
+    });
+
+    test("AST output is an AST file of the target language", () => {
+        const file = path.join(dir, "out", "divide.goto.json");
+        const translated = writeTranslation(load(path.join(examples, "divide.while")), "goto", file, { ast: true });
+        expect(exportAst(importAst(fs.readFileSync(file, "utf-8"), "goto"))).toEqual(exportAst(translated));
+    });
+
+    test("a file name for another language is refused", () => {
+        const file = path.join(dir, "multiply.goto");
+        expect(() => writeTranslation(load(path.join(examples, "multiply.loop")), "while", file))
+            .toThrow("the translation is a WHILE program; use a file name ending in .while");
+        expect(fs.existsSync(file)).toBe(false);
+    });
+
+    test("a translation that would not parse back is not written", () => {
+        // x0 := (x1 + 1) + x2, built by hand: the concrete syntax has no parentheses
+        const nested: TaggedProgram = { language: "loop", program: { type: "program", statements: [{
+            type: "assignment", variable: "x0", value: {
+                type: "binaryOp", operator: "+",
+                left: { type: "binaryOp", operator: "+", left: { type: "variable", name: "x1" }, right: { type: "number", value: 1n } },
+                right: { type: "variable", name: "x2" },
+            },
+        }] } };
+        const file = path.join(dir, "nested.while");
+
+        expect(() => writeTranslation(nested, "while", file)).toThrow("The WHILE program does not parse back from its printed form");
+        expect(() => writeTranslation(nested, "while", `${file}.json`, { ast: true })).toThrow("does not parse back");
+        expect(fs.readdirSync(dir)).toEqual([]);
+    });
+});
+
+describe("Batch translation", () => {
+    test("every program of a directory tree, keeping subdirectories", () => {
+        const source = path.join(dir, "src");
+        fs.mkdirSync(path.join(source, "nested"), { recursive: true });
+        fs.copyFileSync(path.join(examples, "multiply.loop"), path.join(source, "multiply.loop"));
+        fs.copyFileSync(path.join(examples, "divide.while"), path.join(source, "nested", "divide.while"));
+        fs.copyFileSync(path.join(examples, "countdown.goto"), path.join(source, "countdown.goto"));
+        fs.writeFileSync(path.join(source, "broken.while"), "WHILE x1 > 0 DO");
+        const files = ["broken.while", "countdown.goto", "multiply.loop", "nested/divide.while"].map((name) => path.join(source, name));
+
+        const out = path.join(dir, "out");
+        const entries = translateFiles(files, "goto", out, source);
+
+        expect(entries.map(({ source: file, ...rest }) => [path.relative(source, file), rest])).toEqual([
+            ["broken.while", { error: "1 syntax error" }],
+            ["countdown.goto", { skipped: "already GOTO" }],
+            ["multiply.loop", { output: path.join(out, "multiply.goto") }],
+            ["nested/divide.while", { output: path.join(out, "nested", "divide.goto") }],
+        ]);
+        for (const entry of entries) {
+            if (entry.output) expect(reparse(entry.output).language).toBe("goto");
+        }
+    });
+
+    test("two programs with the same translation are not overwritten", () => {
+        fs.copyFileSync(path.join(examples, "multiply.loop"), path.join(dir, "program.loop"));
+        fs.copyFileSync(path.join(examples, "divide.while"), path.join(dir, "program.while"));
+        const files = [path.join(dir, "program.loop"), path.join(dir, "program.while")];
+
+        const entries = translateFiles(files, "goto", path.join(dir, "out"), dir);
+
+        expect(entries[0]!.output).toBe(path.join(dir, "out", "program.goto"));
+        expect(entries[1]!.error).toBe(`${path.join(dir, "out", "program.goto")} is already the translation of ${files[0]}`);
+        expect(load(path.join(dir, "out", "program.goto")).language).toBe("goto");
+    });
+});
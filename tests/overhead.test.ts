@@ -0,0 +1,67 @@
+/// <reference types="vitest/globals" />
+import LoopInterpreter from "../src/loop/interpreter";
+import WhileInterpreter from "../src/while/interpreter";
+import { LoopToWhileTranslator } from "../src/translators/loopToWhile";
+import { parseLoop, parseGoto } from "../src/parse";
+import { programStats, overheadReport, expandRanges, stepGrowthTable } from "../src/overhead";
+
+const multiply = `
+    x0 := 0;
+    LOOP x1 DO
+        LOOP x2 DO
+            x0 := x0 + 1;
+        END
+    END
+`;
+
+describe("Translation overhead", () => {
+    test("static size, variables and labels", () => {
+        const loop = programStats({ language: "loop", program: parseLoop(multiply).program });
+        expect(loop.size).toBe(4);
+        expect([...loop.variables].sort()).toEqual(["x0", "x1", "x2"]);
+
+        const goto = programStats({ language: "goto", program: parseGoto("M1: IF x1 = 0 THEN GOTO M2; x1 := x1 - 1; GOTO M1; M2: HALT;").program });
+        expect(goto.size).toBe(4);
+        expect([...goto.labels]).toEqual(["M1", "M2"]);
+        expect([...goto.variables]).toEqual(["x1"]);
+    });
+
+    test("report compares steps, touched variables, fresh names and size", () => {
+        const program = parseLoop(multiply).program;
+        const translated = new LoopToWhileTranslator().translate(program);
+        const inputs = new Map([["x1", 2n], ["x2", 3n]]);
+        const before = new LoopInterpreter().run(program, { initialVariables: inputs });
+        const after = new WhileInterpreter().run(translated, { initialVariables: inputs });
+
+        const report = overheadReport({ language: "loop", program }, before, { language: "while", program: translated }, after);
+        const lines = report.split("\n");
+        expect(lines[0]).toMatch(/^ +LOOP +WHILE$/);
+        expect(lines[1]).toMatch(new RegExp(`^  steps executed +${before.steps} +${after.steps} +\\d+\\.\\d\\dx$`));
+        expect(lines[3]).toMatch(/^  fresh variables +- +2 +\(x3, x4\)$/);
+        expect(lines[4]).toMatch(/^  fresh labels +- +0$/);
+    });
+
+    test("ranges expand to every combination", () => {
+        const inputs = expandRanges(new Map([["x2", 7n]]), [
+            { name: "x1", from: 0n, to: 1n },
+            { name: "x3", from: 5n, to: 6n },
+        ]);
+        expect(inputs.map((input) => Array.from(input.values()))).toEqual([
+            [7n, 0n, 5n], [7n, 0n, 6n], [7n, 1n, 5n], [7n, 1n, 6n],
+        ]);
+    });
+
+    test("step growth table marks runs stopped by the budget", () => {
+        const halted = (steps: number) => ({ status: "halted" as const, variables: new Map(), steps });
+        const table = stepGrowthTable([
+            { inputs: new Map([["x1", 0n]]), original: halted(4), translated: halted(7) },
+            { inputs: new Map([["x1", 1n]]), original: halted(10), translated: { status: "budgetExceeded", budget: "steps", message: "", variables: new Map(), steps: 50 } },
+        ], [{ name: "x1", from: 0n, to: 1n }], "loop", "goto");
+
+        expect(table).toBe([
+            "  x1   LOOP   GOTO   extra   ratio",
+            "   0      4      7       3   1.75x",
+            "   1     10    >50      40   5.00x",
+        ].join("\n"));
+    });
+});
@@ -0,0 +1,158 @@
+/// <reference types="vitest/globals" />
+import Lexer from "../src/lexer";
+import LoopParser from "../src/loop/parser";
+import WhileParser from "../src/while/parser";
+import GotoParser from "../src/goto/parser";
+import { printLoopProgram, printWhileProgram, printGotoProgram } from "../src/printer";
+import { formatSource } from "../src/format";
+import { makeRandom } from "../src/random";
+import { generateGoto, generateLoop, generateWhile } from "../src/generate";
+import type { GeneratorOptions } from "../src/generate";
+import type { Program as LoopProgram } from "../src/loop/ast";
+import type { Program as WhileProgram } from "../src/while/ast";
+import type { Program as GotoProgram } from "../src/goto/ast";
+
+function parseLoop(code: string): LoopProgram {
+    return new LoopParser(new Lexer(code).tokenize()).parse();
+}
+
+function parseWhile(code: string): WhileProgram {
+    return new WhileParser(new Lexer(code).tokenize()).parse();
+}
+
+function parseGoto(code: string): GotoProgram {
+    return new GotoParser(new Lexer(code).tokenize()).parse();
+}
+
+// Structural view of an AST: drop source spans
+function strip(ast: unknown): unknown {
+    if (Array.isArray(ast)) return ast.map(strip);
+    if (ast === null || typeof ast !== "object") return ast;
+    return Object.fromEntries(Object.entries(ast).filter(([key]) => key !== "span").map(([key, value]) => [key, strip(value)]));
+}
+
+// The fuzzer's generators, with wider settings: deeper nesting, two-digit names, large constants,
+// and arbitrary WHILE conditions and GOTO jumps on every other seed
+function generatorOptions(seed: number): GeneratorOptions {
+    return { depth: 3, variables: 11, maxConstant: 1000, terminating: seed % 2 === 0 };
+}
+
+describe("Printer round trip (random ASTs)", () => {
+    const seeds = Array.from({ length: 200 }, (_, i) => i + 1);
+
+    test("LOOP: parse(print(ast)) equals ast", () => {
+        for (const seed of seeds) {
+            const rnd = makeRandom(seed);
+            const ast = generateLoop(rnd, generatorOptions(seed));
+            const indent = rnd.int(4);
+            expect(strip(parseLoop(printLoopProgram(ast, { indent }))), `seed ${seed}`).toEqual(strip(ast));
+        }
+    });
+
+    test("WHILE: parse(print(ast)) equals ast", () => {
+        for (const seed of seeds) {
+            const rnd = makeRandom(seed);
+            const ast = generateWhile(rnd, generatorOptions(seed));
+            const indent = rnd.int(4);
+            expect(strip(parseWhile(printWhileProgram(ast, { indent }))), `seed ${seed}`).toEqual(strip(ast));
+        }
+    });
+
+    test("GOTO: parse(print(ast)) equals ast", () => {
+        for (const seed of seeds) {
+            const rnd = makeRandom(seed);
+            const ast = generateGoto(rnd, generatorOptions(seed));
+            const alignLabels = rnd.int(1) === 0;
+            expect(strip(parseGoto(printGotoProgram(ast, { alignLabels }))), `seed ${seed}`).toEqual(strip(ast));
+        }
+    });
+});
+
+describe("Printer layout", () => {
+    test("nested LOOP bodies are indented", () => {
+        const ast = parseLoop("LOOP x1 DO LOOP x2 DO x0 := x0 + 1; END END");
+        expect(printLoopProgram(ast)).toBe("LOOP x1 DO\n  LOOP x2 DO\n    x0 := x0 + 1;\n  END\nEND");
+        expect(printLoopProgram(ast, { indent: 4 })).toBe("LOOP x1 DO\n    LOOP x2 DO\n        x0 := x0 + 1;\n    END\nEND");
+    });
+
+    test("IF with and without ELSE", () => {
+        const ast = parseWhile("IF x1 > 0 THEN x0 := 1; ELSE x0 := 2; END IF x1 = 0 THEN END");
+        expect(printWhileProgram(ast)).toBe("IF x1 > 0 THEN\n  x0 := 1;\nELSE\n  x0 := 2;\nEND\nIF x1 = 0 THEN\nEND");
+    });
+
+    test("GOTO labels are aligned to the widest label", () => {
+        const ast = parseGoto("x0 := 0; M1: IF x1 = 0 THEN GOTO END1; GOTO M1; END1: HALT;");
+        expect(printGotoProgram(ast).split("\n")).toEqual([
+            "      x0 := 0;",
+            "M1:   IF x1 = 0 THEN GOTO END1;",
+            "      GOTO M1;",
+            "END1: HALT;"
+        ]);
+        expect(printGotoProgram(ast, { alignLabels: false }).split("\n")[0]).toBe("x0 := 0;");
+    });
+
+    test("relaxed IF ... GOTO is printed in canonical form", () => {
+        const ast = parseGoto("IF x1 = 0 GOTO M1; M1: HALT;");
+        expect(printGotoProgram(ast)).toBe("    IF x1 = 0 THEN GOTO M1;\nM1: HALT;");
+    });
+});
+
+describe("Formatter", () => {
+    test("re-indents nested blocks, one statement per line", () => {
+        const code = "x0 := 0; LOOP x1 DO\nLOOP x2 DO x0 := x0 + 1; END\n      END";
+        expect(formatSource(code, "loop").code).toBe("x0 := 0;\nLOOP x1 DO\n  LOOP x2 DO\n    x0 := x0 + 1;\n  END\nEND\n");
+    });
+
+    test("keeps comments in place", () => {
+        const code = [
+            "// division",
+            "x0 := 0; # result",
+            "WHILE x1 >= x2 DO /* loop */",
+            "x1 := x1 - x2;",
+            "   // count",
+            "    x0 := x0 + 1;",
+            "// body done",
+            "END // end",
+            "# trailer"
+        ].join("\n");
+        expect(formatSource(code, "while").code).toBe([
+            "// division",
+            "x0 := 0; # result",
+            "WHILE x1 >= x2 DO /* loop */",
+            "  x1 := x1 - x2;",
+            "  // count",
+            "  x0 := x0 + 1;",
+            "  // body done",
+            "END // end",
+            "# trailer",
+            ""
+        ].join("\n"));
+    });
+
+    test("comments on ELSE and GOTO instructions", () => {
+        const whileCode = "IF x1 = 0 THEN x0 := 1;\n// otherwise\nELSE // else\nx0 := 2;\nEND";
+        expect(formatSource(whileCode, "while").code).toBe(
+            "IF x1 = 0 THEN\n  x0 := 1;\n  // otherwise\nELSE // else\n  x0 := 2;\nEND\n"
+        );
+        const gotoCode = "# start\nx0 := 0;\nM1: HALT; // stop";
+        expect(formatSource(gotoCode, "goto").code).toBe("    # start\n    x0 := 0;\nM1: HALT; // stop\n");
+    });
+
+    test("formatting is idempotent and preserves the AST", () => {
+        const code = "x0:=0; /* a\n  b */ M1: IF x1=0 THEN GOTO M2; x1:=x1-1; GOTO M1; # loop\nM2: HALT;";
+        const once = formatSource(code, "goto").code;
+        expect(formatSource(once, "goto").code).toBe(once);
+        expect(strip(parseGoto(once))).toEqual(strip(parseGoto(code)));
+    });
+
+    test("programs with syntax errors are left unchanged", () => {
+        const code = "x0 := ;\nx1 := 1;";
+        const result = formatSource(code, "loop");
+        expect(result.code).toBe(code);
+        expect(result.diagnostics).toHaveLength(1);
+    });
+
+    test("comment-only files are left unchanged", () => {
+        expect(formatSource("// nothing yet\n", "while").code).toBe("// nothing yet\n");
+    });
+});
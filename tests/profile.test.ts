@@ -0,0 +1,82 @@
+/// <reference types="vitest/globals" />
+import LoopInterpreter from "../src/loop/interpreter";
+import WhileInterpreter from "../src/while/interpreter";
+import GotoInterpreter from "../src/goto/interpreter";
+import { GotoToWhileTranslator } from "../src/translators/gotoToWhile";
+import { parseLoop, parseGoto } from "../src/parse";
+import { Profiler } from "../src/profile";
+
+const countdown = `
+    x0 := 0;
+M1: IF x1 = 0 THEN GOTO M2;
+    x1 := x1 - 1;
+    x0 := x0 + 1;
+    GOTO M1;
+M2: HALT;`;
+
+describe("Profiler", () => {
+    test("LOOP hit counts and inclusive steps", () => {
+        const { program } = parseLoop(`
+            x0 := 0;
+            LOOP x1 DO
+                LOOP x2 DO
+                    x0 := x0 + 1;
+                END
+            END
+        `);
+        const profiler = new Profiler({ language: "loop", program });
+        const outcome = new LoopInterpreter().run(program, {
+            initialVariables: new Map([["x1", 2n], ["x2", 3n]]),
+            observers: [profiler.observer],
+        });
+        profiler.finish(outcome.steps);
+
+        expect(profiler.listing()).toBe([
+            "hits steps | (18 steps total; steps column: LOOP/WHILE)",
+            "   1       | x0 := 0;",
+            "   1    17 | LOOP x1 DO",
+            "   2    15 |   LOOP x2 DO",
+            "   6       |     x0 := x0 + 1;",
+            "           |   END",
+            "           | END",
+        ].join("\n"));
+    });
+
+    test("GOTO label regions", () => {
+        const { program } = parseGoto(countdown);
+        const profiler = new Profiler({ language: "goto", program });
+        const outcome = new GotoInterpreter().run(program, {
+            initialVariables: new Map([["x1", 2n]]),
+            observers: [profiler.observer],
+        });
+        profiler.finish(outcome.steps);
+
+        // the first decrement of the locked input x1 is skipped, so the loop body runs three times
+        expect(profiler.regions()).toEqual(new Map([["(start)", 1], ["M1", 13], ["M2", 1]]));
+        expect(profiler.hitCount(program.instructions[1]!)).toBe(4);
+    });
+
+    test("translated programs have no source but can be profiled", () => {
+        const goto = parseGoto(countdown).program;
+        const program = new GotoToWhileTranslator().translate(goto);
+        const profiler = new Profiler({ language: "while", program });
+        const outcome = new WhileInterpreter().run(program, {
+            initialVariables: new Map([["x1", 2n]]),
+            observers: [profiler.observer],
+        });
+        profiler.finish(outcome.steps);
+
+        const dispatch = program.statements.find((statement) => statement.type === "while")!;
+        expect(profiler.stepCount(dispatch)).toBe(outcome.steps - 1);
+        expect(profiler.listing()).toMatch(/^ {3}1 +\d+ \| WHILE x\d+ != 0 DO$/m);
+    });
+
+    test("a run stopped by the budget still closes open loops", () => {
+        const { program } = parseLoop("x1 := 100; LOOP x1 DO x0 := x0 + 1; END");
+        const profiler = new Profiler({ language: "loop", program });
+        const outcome = new LoopInterpreter().run(program, { maxSteps: 10, observers: [profiler.observer] });
+        profiler.finish(outcome.steps);
+
+        expect(profiler.stepCount(program.statements[1]!)).toBe(9);
+    });
+});
@@ -0,0 +1,111 @@
+/// <reference types="vitest/globals" />
+import * as path from "path";
+import { Repl } from "../src/repl";
+import type { Language } from "../src/parse";
+
+// Feed lines to a session; returns it with everything it wrote
+function session(language: Language, lines: string[]) {
+    const output: string[] = [];
+    const prompts: string[] = [];
+    const script = [...lines];
+    const repl = new Repl(language, {
+        readLine: (prompt) => {
+            prompts.push(prompt);
+            return script.shift() ?? null;
+        },
+        write: (line) => output.push(line),
+    }, { maxSteps: 1000 });
+    repl.run();
+    return { repl, output, prompts };
+}
+
+describe("REPL", () => {
+    test("WHILE statements run against a persistent store and show what changed", () => {
+        const { repl, output } = session("while", ["x1 := 4;", "x0 := x1 + 1;", "x2 := x2;", ":vars x0 x5"]);
+
+        expect(output).toEqual(["  x1 = 4", "  x0 = 5", "  x2 = 0", "  x0 = 5", "  x5 = 0"]);
+        expect(repl.variables()).toEqual(new Map([["x1", 4n], ["x0", 5n], ["x2", 0n]]));
+    });
+
+    test("a block is read until its END", () => {
+        const { repl, output, prompts } = session("while", [
+            "x1 := 3;",
+            "WHILE x1 > 0 DO",
+            "  x0 := x0 + 2;",
+            "  x1 := x1 - 1;",
+            "END",
+        ]);
+
+        expect(prompts).toEqual(["while> ", "while> ", "... ", "... ", "... ", "while> "]);
+        expect(output).toEqual(["  x1 = 3", "  x0 = 6", "  x1 = 0"]);
+        expect(repl.variables().get("x0")).toBe(6n);
+    });
+
+    test("an empty line ends an unfinished statement with its error", () => {
+        const { output, prompts } = session("loop", ["LOOP x1 DO", "", "x0 := 1;"]);
+
+        expect(prompts.slice(0, 3)).toEqual(["loop> ", "... ", "loop> "]);
+        expect(output[0]!.split("\n")[0]).toBe("input:1:11: error: Expected END but got end of input");
+        expect(output[output.length - 1]).toBe("  x0 = 1");
+    });
+
+    test(":translate shows the statements entered so far in another language", () => {
+        const { output } = session("loop", ["x1 := 2;", "LOOP x1 DO x0 := x0 + 1; END", ":translate while"]);
+
+        expect(output.slice(2).join("\n")).toBe([
+            "x1 := 2;",
+            "x2 := x1;",
+            "WHILE x2 != 0 DO",
+            "  x0 := x0 + 1;",
+            "  x2 := x2 - 1;",
+            "END",
+        ].join("\n"));
+    });
+
+    test(":reset forgets variables and statements; budgets stop runaway loops", () => {
+        const { repl, output } = session("while", ["x1 := 1;", "WHILE x1 > 0 DO x0 := x0 + 1; END", ":reset", ":program"]);
+
+        expect(output).toContain("Stopped: Infinite loop detected (safety limit: 1,000 steps)");
+        expect(output.slice(-2)).toEqual(["Variables and statements cleared.", "No statements yet."]);
+        expect(repl.variables().size).toBe(0);
+    });
+
+    test("GOTO instructions are collected, may jump forward, and run with :run", () => {
+        const { output } = session("goto", [
+            ":set x1=3",
+            "M1: IF x1 = 0 THEN GOTO M2;",
+            "x1 := x1 - 1;",
+            "x0 := x0 + 2;",
+            "GOTO M1;",
+            "M1: HALT;",
+            "M2: HALT;",
+            ":run",
+        ]);
+
+        expect(output).toEqual(["  x1 = 3", "Label M1 is already used; :program shows the program.", "  x0 = 6", "  x1 = 0", "(14 steps)"]);
+    });
+
+    test("GOTO :run refuses jumps without a target", () => {
+        const { output } = session("goto", ["GOTO M9;", ":run"]);
+        expect(output[0]!.split("\n")[0]).toBe("program:1:1: error: Undefined label: M9");
+    });
+
+    test(":load runs a file (GOTO: makes it the program)", () => {
+        const examples = path.join(__dirname, "../examples");
+        const loop = session("loop", [":set x1=3", ":set x2=4", `:load ${path.join(examples, "multiply.loop")}`]);
+        // The file's own `x1 := 0` runs too: nothing is locked in a session
+        expect(loop.repl.variables().get("x0")).toBe(0n);
+
+        const goto = session("goto", [`:load ${path.join(examples, "countdown.goto")}`, ":set x1=2", ":run"]);
+        expect(goto.output[0]).toBe("Loaded 7 instructions; :run runs them.");
+
+        const wrong = session("while", [`:load ${path.join(examples, "multiply.loop")}`]);
+        expect(wrong.output[0]).toMatch(/is a LOOP program; this is a WHILE session\.$/);
+    });
+
+    test(":quit ends the session; unknown commands are reported", () => {
+        const { output, prompts } = session("while", [":bogus", ":quit", "x0 := 1;"]);
+        expect(output).toEqual(["Unknown command :bogus. Type :help for commands."]);
+        expect(prompts).toHaveLength(2);
+    });
+});
@@ -0,0 +1,56 @@
+/// <reference types="vitest/globals" />
+import { runReport } from "../src/report";
+
+const countdown = `
+    x0 := 0;
+    x1 := 0;
+M1: IF x1 = 0 THEN GOTO M2;
+    x1 := x1 - 1;
+    x0 := x0 + 1;
+    GOTO M1;
+M2: HALT;
+`;
+
+describe("JSON run report", () => {
+    test("final state, steps and inputs as decimal strings", () => {
+        const report = runReport(countdown, "goto", { inputs: new Map([["x1", 3n]]) });
+
+        expect(report.inputs).toEqual({ x1: "3" });
+        expect(report.result).toEqual({ status: "halted", steps: 16, variables: { x0: "3", x1: "0" } });
+        expect(report.errors).toEqual([]);
+        expect(report.translation).toBeUndefined();
+    });
+
+    test("translation with code, AST and a verification verdict", () => {
+        const report = runReport(countdown, "goto", { inputs: new Map([["x1", 2n]]), translateTo: "while", verify: true });
+
+        expect(report.translation?.language).toBe("while");
+        expect(report.translation?.code).toContain("WHILE");
+        const ast = report.translation?.ast as { type: string; statements: unknown[] };
+        expect(ast.type).toBe("program");
+        expect(ast.statements[0]).toEqual({ type: "assignment", variable: "x0", value: { type: "number", value: "0" } });
+        expect(report.translation?.result?.variables.x0).toBe("2");
+        expect(report.verification).toEqual({ status: "passed", method: "single", tested: 1, inconclusive: 0 });
+    });
+
+    test("the dispatch translation on request", () => {
+        const report = runReport(countdown, "goto", { translateTo: "while", translation: { gotoToWhile: "dispatch" } });
+
+        const ast = report.translation?.ast as { type: string; statements: unknown[] };
+        expect(ast.statements[0]).toEqual({ type: "assignment", variable: "x2", value: { type: "number", value: "1" } });
+    });
+
+    test("syntax errors carry their positions and nothing runs", () => {
+        const report = runReport("x0 := 1\nx1 := 2;\n", "loop");
+
+        expect(report.result).toBeUndefined();
+        expect(report.errors[0]).toMatchObject({ code: "unexpected-token", severity: "error", line: 2, column: 1 });
+    });
+
+    test("a budget stop is both the result and an error at the statement", () => {
+        const report = runReport("WHILE x1 = 0 DO\n  x0 := x0 + 1;\nEND\n", "while", { limits: { maxSteps: 10 } });
+
+        expect(report.result).toMatchObject({ status: "budgetExceeded", budget: "steps", steps: 10 });
+        expect(report.errors).toEqual([expect.objectContaining({ code: "infinite-loop", line: 1, column: 1 })]);
+    });
+});
@@ -0,0 +1,98 @@
+/// <reference types="vitest/globals" />
+import * as fs from "fs";
+import * as path from "path";
+import { parseProgram, parseWhile } from "../src/parse";
+import type { Language } from "../src/parse";
+import { parseSpec, runSpec, checkCase } from "../src/spec";
+
+describe("Spec files", () => {
+    test("results as x0, listed variables, a full state, or diverges", () => {
+        const { program: spec, diagnostics } = parseSpec([
+            "# multiply",
+            "x1=3 x2=4 -> 12",
+            "x1=3 x2=4 -> x0=12 x1=3   # trailing comment",
+            "",
+            "x1=7 x2=2 => x0=3 x1=1 x2=2",
+            "x1=1 x2=0 -> diverges",
+            "-> 0",
+            "max-steps 500",
+        ].join("\n"));
+
+        expect(diagnostics).toEqual([]);
+        expect(spec.maxSteps).toBe(500);
+        expect(spec.cases.map((c) => c.line)).toEqual([2, 3, 5, 6, 7]);
+        expect(spec.cases[0]!.expect).toEqual({ kind: "values", values: new Map([["x0", 12n]]), exact: false });
+        expect(spec.cases[2]!.expect).toEqual({ kind: "values", values: new Map([["x0", 3n], ["x1", 1n], ["x2", 2n]]), exact: true });
+        expect(spec.cases[3]!.expect).toEqual({ kind: "diverges" });
+        expect(spec.cases[4]!.inputs.size).toBe(0);
+    });
+
+    test("malformed lines are reported with their position", () => {
+        const { program: spec, diagnostics } = parseSpec("x1=3 -> 4\nx1=3 x2 -> 1\nx1=3 4\nx1=2 => diverges");
+
+        expect(spec.cases).toHaveLength(1);
+        expect(diagnostics.map((d) => [d.code, d.span?.start.line, d.span?.start.column])).toEqual([
+            ["invalid-spec", 2, 6],
+            ["invalid-spec", 3, 1],
+            ["invalid-spec", 4, 6],
+        ]);
+        expect(diagnostics[0]!.message).toBe("Expected 'name=value', found 'x2'");
+    });
+});
+
+describe("Running specs", () => {
+    const divide = parseWhile(`
+        x0 := 0;
+        x1 := 0;
+        x2 := 0;
+        WHILE x1 >= x2 DO
+            x1 := x1 - x2;
+            x0 := x0 + 1;
+        END
+    `).program;
+    const target = { language: "while" as const, program: divide };
+
+    test("a full state fails on a variable the spec does not mention", () => {
+        const { program: spec } = parseSpec("x1=7 x2=2 => x0=3 x2=2");
+        const result = checkCase(target, spec.cases[0]!, 1000, ["x0", "x1", "x2"]);
+
+        expect(result.passed).toBe(false);
+        expect(result.actual).toBe("x0=3 x1=1 x2=2");
+    });
+
+    test("diverges passes only when the budget is exceeded", () => {
+        const { program: spec } = parseSpec("x1=5 x2=0 -> diverges\nx1=5 x2=1 -> diverges");
+        const [loops, halts] = runSpec(target, spec);
+
+        expect(loops!.passed).toBe(true);
+        expect(halts!.passed).toBe(false);
+        expect(halts!.actual).toBe("halted with x0=5");
+    });
+
+    test("with translation every case also runs on each translation", () => {
+        const { program: spec } = parseSpec("x1=12 x2=3 -> 4\nx1=5 x2=0 -> diverges");
+        const results = runSpec(target, spec, { translate: true });
+
+        expect(results.map((r) => [r.language, r.passed])).toEqual([
+            ["while", true], ["while", true], ["goto", true], ["goto", true],
+        ]);
+    });
+});
+
+describe("Examples", () => {
+    const dir = path.join(__dirname, "..", "examples");
+    const programs = fs.readdirSync(dir).filter((name) => /\.(loop|while|goto)$/.test(name));
+
+    test.each(programs)("%s passes its spec, translated too", (name) => {
+        const specFile = path.join(dir, `${name}.spec`);
+        expect(fs.existsSync(specFile)).toBe(true);
+
+        const language = path.extname(name).slice(1) as Language;
+        const { program } = parseProgram(fs.readFileSync(path.join(dir, name), "utf-8"), language);
+        const { program: spec, diagnostics } = parseSpec(fs.readFileSync(specFile, "utf-8"));
+        expect(diagnostics).toEqual([]);
+
+        const failed = runSpec(program, spec, { translate: true }).filter((result) => !result.passed);
+        expect(failed).toEqual([]);
+    });
+});
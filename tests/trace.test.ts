@@ -0,0 +1,98 @@
+/// <reference types="vitest/globals" />
+import LoopInterpreter from "../src/loop/interpreter";
+import GotoInterpreter from "../src/goto/interpreter";
+import { parseLoop, parseGoto } from "../src/parse";
+import { Trace, TraceRecorder, replay } from "../src/trace";
+
+const countdown = `    x0 := 0;
+    x1 := 0;
+M1: IF x1 = 0 THEN GOTO M2;
+    x1 := x1 - 1;
+    x0 := x0 + 1;
+    GOTO M1;
+M2: HALT;`;
+
+function record(initial: Map<string, bigint>) {
+    const recorder = new TraceRecorder("goto", initial, countdown);
+    const outcome = new GotoInterpreter().run(parseGoto(countdown).program, { initialVariables: initial, observers: [recorder.observer] });
+    return { outcome, trace: recorder.finish(outcome) };
+}
+
+describe("Trace recording", () => {
+    test("one entry per step with the variables it assigned", () => {
+        const { trace, outcome } = record(new Map([["x1", 1n]]));
+
+        expect(trace.steps).toHaveLength(outcome.steps);
+        expect(trace.initial).toEqual({ x1: "1" });
+        expect(trace.statements[2]).toEqual({ line: 3, text: "M1: IF x1 = 0 THEN GOTO M2;" });
+        expect(trace.steps.slice(0, 5)).toEqual([
+            { at: 0, pc: 0, set: { x0: "0" } },
+            { at: 1, pc: 1 },  // locked input, skipped
+            { at: 2, pc: 2 },
+            { at: 3, pc: 3, set: { x1: "0" } },
+            { at: 4, pc: 4, set: { x0: "1" } },
+        ]);
+        expect(trace.outcome).toEqual({ status: "halted", steps: outcome.steps });
+    });
+
+    test("replayed states match the run, across checkpoints", () => {
+        const code = `
+            x0 := 0;
+            x1 := 0;
+            LOOP x1 DO
+                x0 := x0 + 2;
+            END
+        `;
+        const initial = new Map([["x1", 400n]]);
+        const recorder = new TraceRecorder("loop", initial);
+        const outcome = new LoopInterpreter().run(parseLoop(code).program, { initialVariables: initial, observers: [recorder.observer] });
+        const trace = new Trace(recorder.finish(outcome));
+
+        expect(trace.stateAt(trace.length)).toEqual(outcome.variables);
+        // trace steps are statements: two assignments and the LOOP, then one per body assignment
+        expect(trace.stateAt(3).get("x0")).toBe(0n);
+        expect(trace.stateAt(4).get("x0")).toBe(2n);
+        expect(trace.stateAt(300).get("x0")).toBe(2n * 297n);
+        expect(trace.stateAt(0)).toEqual(new Map([["x1", 400n]]));
+    });
+
+    test("last and next change of a variable", () => {
+        const trace = new Trace(record(new Map([["x1", 2n]])).trace);
+
+        expect(trace.lastChange("x1", trace.length)).toBe(7);
+        expect(trace.lastChange("x1", 7)).toBe(3);
+        expect(trace.lastChange("x1", 3)).toBeUndefined();
+        expect(trace.nextChange("x0", 1)).toBe(4);
+        expect(trace.nextChange("x5", 0)).toBeUndefined();
+    });
+
+    test("JSON round trip keeps large values exact", () => {
+        const { trace } = record(new Map([["x1", 3n]]));
+        trace.initial["x9"] = String(2n ** 80n);
+        const loaded = Trace.fromJSON(JSON.stringify(trace));
+
+        expect(loaded.stateAt(loaded.length).get("x0")).toBe(3n);
+        expect(loaded.stateAt(0).get("x9")).toBe(2n ** 80n);
+        expect(() => Trace.fromJSON(JSON.stringify({ ...trace, version: 99 }))).toThrow("Unsupported trace version");
+    });
+
+    test("interactive replay steps backwards and jumps to changes", () => {
+        const trace = new Trace(record(new Map([["x1", 2n]])).trace);
+        const script = ["goto 9", "back", "last x0", "print x0", "next x1"];
+        const output: string[] = [];
+        replay(trace, { readLine: () => script.shift() ?? null, write: (line) => output.push(line) });
+
+        expect(output).toEqual([
+            "[step 0/12] line 1 [pc=0]: x0 := 0;",
+            "   x0: 0 -> 0",
+            "[step 9/12] line 6 [pc=5]: GOTO M1;",
+            "[step 8/12] line 5 [pc=4]: x0 := x0 + 1;",
+            "   x0: 1 -> 2",
+            "[step 4/12] line 5 [pc=4]: x0 := x0 + 1;",
+            "   x0: 0 -> 1",
+            "  x0 = 0",
+            "[step 7/12] line 4 [pc=3]: x1 := x1 - 1;",
+            "   x1: 1 -> 0",
+        ]);
+    });
+});
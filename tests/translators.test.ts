@@ -9,6 +9,8 @@ import GotoInterpreter from "../src/goto/interpreter";
 import { LoopToWhileTranslator } from "../src/translators/loopToWhile";
 import { WhileToGotoTranslator } from "../src/translators/whileToGoto";
 import { GotoToWhileTranslator } from "../src/translators/gotoToWhile";
+import { StructuredGotoToWhileTranslator } from "../src/translators/gotoToWhileStructured";
+import { printProgram } from "../src/printer";
 import type { Program as LoopProgram } from "../src/loop/ast";
 import type { Program as WhileProgram } from "../src/while/ast";
 import type { Program as GotoProgram } from "../src/goto/ast";
@@ -25,15 +27,15 @@ function parseGoto(code: string): GotoProgram {
     return new GotoParser(new Lexer(code).tokenize()).parse();
 }
 
-function runLoop(prog: LoopProgram, vars?: Map<string, number>): Map<string, number> {
+function runLoop(prog: LoopProgram, vars?: Map<string, bigint>): Map<string, bigint> {
     return new LoopInterpreter().evaluate(prog, vars ? { initialVariables: vars } : undefined);
 }
 
-function runWhile(prog: WhileProgram, vars?: Map<string, number>): Map<string, number> {
+function runWhile(prog: WhileProgram, vars?: Map<string, bigint>): Map<string, bigint> {
     return new WhileInterpreter().evaluate(prog, vars ? { initialVariables: vars } : undefined);
 }
 
-function runGoto(prog: GotoProgram, vars?: Map<string, number>): Map<string, number> {
+function runGoto(prog: GotoProgram, vars?: Map<string, bigint>): Map<string, bigint> {
     return new GotoInterpreter().evaluate(prog, vars ? { initialVariables: vars } : undefined);
 }
 
@@ -48,7 +50,7 @@ describe("LOOP → WHILE: basic correctness", () => {
         `;
         const translated = new LoopToWhileTranslator().translate(parseLoop(code));
         const result = runWhile(translated);
-        expect(result.get("x1")).toBe(4);
+        expect(result.get("x1")).toBe(4n);
     });
 
     test("nested loops – multiplication 3 × 4", () => {
@@ -64,7 +66,7 @@ describe("LOOP → WHILE: basic correctness", () => {
         `;
         const translated = new LoopToWhileTranslator().translate(parseLoop(code));
         const result = runWhile(translated);
-        expect(result.get("x2")).toBe(12);
+        expect(result.get("x2")).toBe(12n);
     });
 
     test("zero iterations – body never executes", () => {
@@ -77,7 +79,7 @@ describe("LOOP → WHILE: basic correctness", () => {
         `;
         const translated = new LoopToWhileTranslator().translate(parseLoop(code));
         const result = runWhile(translated);
-        expect(result.get("x1")).toBe(7);
+        expect(result.get("x1")).toBe(7n);
     });
 
     test("sequential loops – 3 + 2 iterations", () => {
@@ -94,7 +96,7 @@ describe("LOOP → WHILE: basic correctness", () => {
         `;
         const translated = new LoopToWhileTranslator().translate(parseLoop(code));
         const result = runWhile(translated);
-        expect(result.get("x1")).toBe(5);
+        expect(result.get("x1")).toBe(5n);
     });
 
     test("loop counter is not modified by the body", () => {
@@ -108,8 +110,8 @@ describe("LOOP → WHILE: basic correctness", () => {
         `;
         const translated = new LoopToWhileTranslator().translate(parseLoop(code));
         const result = runWhile(translated);
-        expect(result.get("x1")).toBe(5);
-        expect(result.get("x0")).toBe(0);
+        expect(result.get("x1")).toBe(5n);
+        expect(result.get("x0")).toBe(0n);
     });
 
     test("monus (truncated subtraction) – result is 0, not negative", () => {
@@ -120,7 +122,7 @@ describe("LOOP → WHILE: basic correctness", () => {
         `;
         const translated = new LoopToWhileTranslator().translate(parseLoop(code));
         const result = runWhile(translated);
-        expect(result.get("x2")).toBe(0);
+        expect(result.get("x2")).toBe(0n);
     });
 
     test("fresh variable does not clash with existing high-index variables", () => {
@@ -136,10 +138,10 @@ describe("LOOP → WHILE: basic correctness", () => {
         `;
         const translated = new LoopToWhileTranslator().translate(parseLoop(code));
         const result = runWhile(translated);
-        expect(result.get("x1")).toBe(2);
-        expect(result.get("x2")).toBe(0);
-        expect(result.get("x3")).toBe(0);
-        expect(result.get("x4")).toBe(0);
+        expect(result.get("x1")).toBe(2n);
+        expect(result.get("x2")).toBe(0n);
+        expect(result.get("x3")).toBe(0n);
+        expect(result.get("x4")).toBe(0n);
     });
 
     test("deeply nested loops – x0^2 via squaring 3×3", () => {
@@ -155,7 +157,7 @@ describe("LOOP → WHILE: basic correctness", () => {
         `;
         const translated = new LoopToWhileTranslator().translate(parseLoop(code));
         const result = runWhile(translated);
-        expect(result.get("x2")).toBe(9);
+        expect(result.get("x2")).toBe(9n);
     });
 });
 
@@ -208,8 +210,8 @@ describe("WHILE → GOTO: basic correctness", () => {
         `;
         const translated = new WhileToGotoTranslator().translate(parseWhile(code));
         const result = runGoto(translated);
-        expect(result.get("x1")).toBe(5);
-        expect(result.get("x0")).toBe(0);
+        expect(result.get("x1")).toBe(5n);
+        expect(result.get("x0")).toBe(0n);
     });
 
     test("condition false from the start – body never executes", () => {
@@ -222,7 +224,7 @@ describe("WHILE → GOTO: basic correctness", () => {
         `;
         const translated = new WhileToGotoTranslator().translate(parseWhile(code));
         const result = runGoto(translated);
-        expect(result.get("x1")).toBe(42);
+        expect(result.get("x1")).toBe(42n);
     });
 
     test("IF-THEN – condition true, then-branch executes", () => {
@@ -235,7 +237,7 @@ describe("WHILE → GOTO: basic correctness", () => {
         `;
         const translated = new WhileToGotoTranslator().translate(parseWhile(code));
         const result = runGoto(translated);
-        expect(result.get("x1")).toBe(1);
+        expect(result.get("x1")).toBe(1n);
     });
 
     test("IF-THEN – condition false, then-branch skipped", () => {
@@ -248,7 +250,7 @@ describe("WHILE → GOTO: basic correctness", () => {
         `;
         const translated = new WhileToGotoTranslator().translate(parseWhile(code));
         const result = runGoto(translated);
-        expect(result.get("x1")).toBe(0);
+        expect(result.get("x1")).toBe(0n);
     });
 
     test("IF-THEN-ELSE – then-branch", () => {
@@ -263,7 +265,7 @@ describe("WHILE → GOTO: basic correctness", () => {
         `;
         const translated = new WhileToGotoTranslator().translate(parseWhile(code));
         const result = runGoto(translated);
-        expect(result.get("x1")).toBe(10);
+        expect(result.get("x1")).toBe(10n);
     });
 
     test("IF-THEN-ELSE – else-branch", () => {
@@ -278,7 +280,7 @@ describe("WHILE → GOTO: basic correctness", () => {
         `;
         const translated = new WhileToGotoTranslator().translate(parseWhile(code));
         const result = runGoto(translated);
-        expect(result.get("x1")).toBe(20);
+        expect(result.get("x1")).toBe(20n);
     });
 
     test("integer division via repeated subtraction", () => {
@@ -293,8 +295,8 @@ describe("WHILE → GOTO: basic correctness", () => {
         `;
         const translated = new WhileToGotoTranslator().translate(parseWhile(code));
         const result = runGoto(translated);
-        expect(result.get("x2")).toBe(3);
-        expect(result.get("x0")).toBe(1);
+        expect(result.get("x2")).toBe(3n);
+        expect(result.get("x0")).toBe(1n);
     });
 });
 
@@ -334,6 +336,24 @@ describe("WHILE → GOTO: semantic equivalence with original", () => {
 
         expect(fromTranslation.get("x1")).toBe(original.get("x1"));
     });
+
+    test("ELSE branch starting with a WHILE keeps the loop's label", () => {
+        const code = `
+            x1 := 3;
+            IF x1 = 0 THEN
+                x0 := 1;
+            ELSE
+                WHILE x1 != 0 DO
+                    x0 := x0 + 2;
+                    x1 := x1 - 1;
+                END
+            END
+        `;
+        const whileAST = parseWhile(code);
+        const translated = new WhileToGotoTranslator().translate(whileAST);
+
+        expect(runGoto(translated).get("x0")).toBe(runWhile(whileAST).get("x0"));
+    });
 });
 
 describe("GOTO → WHILE: basic correctness", () => {
@@ -345,7 +365,7 @@ describe("GOTO → WHILE: basic correctness", () => {
         `;
         const translated = new GotoToWhileTranslator().translate(parseGoto(code));
         const result = runWhile(translated);
-        expect(result.get("x0")).toBe(5);
+        expect(result.get("x0")).toBe(5n);
     });
 
     test("backward jump simulates a counting loop", () => {
@@ -360,8 +380,8 @@ describe("GOTO → WHILE: basic correctness", () => {
         `;
         const translated = new GotoToWhileTranslator().translate(parseGoto(code));
         const result = runWhile(translated);
-        expect(result.get("x1")).toBe(4);
-        expect(result.get("x0")).toBe(0);
+        expect(result.get("x1")).toBe(4n);
+        expect(result.get("x0")).toBe(0n);
     });
 
     test("forward jump skips an assignment", () => {
@@ -374,7 +394,7 @@ describe("GOTO → WHILE: basic correctness", () => {
         `;
         const translated = new GotoToWhileTranslator().translate(parseGoto(code));
         const result = runWhile(translated);
-        expect(result.get("x0")).toBe(11);
+        expect(result.get("x0")).toBe(11n);
     });
 
     test("unconditional GOTO jumps over dead code", () => {
@@ -386,7 +406,7 @@ describe("GOTO → WHILE: basic correctness", () => {
         `;
         const translated = new GotoToWhileTranslator().translate(parseGoto(code));
         const result = runWhile(translated);
-        expect(result.get("x0")).toBe(1);
+        expect(result.get("x0")).toBe(1n);
     });
 
     test("complex multi-label control flow", () => {
@@ -402,7 +422,7 @@ describe("GOTO → WHILE: basic correctness", () => {
         `;
         const translated = new GotoToWhileTranslator().translate(parseGoto(code));
         const result = runWhile(translated);
-        expect(result.get("x0")).toBe(8);
+        expect(result.get("x0")).toBe(8n);
     });
 
     test("pure assignments without jumps", () => {
@@ -414,7 +434,7 @@ describe("GOTO → WHILE: basic correctness", () => {
         `;
         const translated = new GotoToWhileTranslator().translate(parseGoto(code));
         const result = runWhile(translated);
-        expect(result.get("x2")).toBe(7);
+        expect(result.get("x2")).toBe(7n);
     });
 });
 
@@ -449,7 +469,7 @@ describe("GOTO → WHILE: semantic equivalence with original", () => {
             M2: HALT;
         `;
         const gotoAST = parseGoto(code);
-        const gotoVars = new Map([["x0", 5]]);
+        const gotoVars = new Map([["x0", 5n]]);
         const original = runGoto(gotoAST, gotoVars);
 
         const translated = new GotoToWhileTranslator().translate(parseGoto(code));
@@ -459,6 +479,163 @@ describe("GOTO → WHILE: semantic equivalence with original", () => {
     });
 });
 
+describe("GOTO → WHILE: restructuring", () => {
+    function structured(code: string): string {
+        return printProgram({ language: "while", program: new StructuredGotoToWhileTranslator().translate(parseGoto(code)) });
+    }
+
+    // The translation gives the GOTO program's result for every input, leaving no fresh variable set
+    function expectEquivalent(code: string, inputs: string[]): void {
+        const gotoAST = parseGoto(code);
+        const translated = new StructuredGotoToWhileTranslator().translate(gotoAST);
+        for (let a = 0n; a <= 5n; a++) {
+            for (let b = 0n; b <= 5n; b++) {
+                const vars = new Map(inputs.map((name, i) => [name, i === 0 ? a : b]));
+                const original = runGoto(gotoAST, vars);
+                const result = runWhile(translated, vars);
+                for (const [name, value] of result) expect(value, `${name} for ${a}, ${b}`).toBe(original.get(name) ?? 0n);
+            }
+        }
+    }
+
+    test("countdown becomes a single plain WHILE loop", () => {
+        const code = `
+                x0 := 0;
+                x1 := 0;
+            M1: IF x1 = 0 THEN GOTO M2;
+                x1 := x1 - 1;
+                x0 := x0 + 1;
+                GOTO M1;
+            M2: HALT;
+        `;
+        expect(structured(code)).toBe([
+            "x0 := 0;",
+            "x1 := 0;",
+            "WHILE x1 != 0 DO",
+            "  x1 := x1 - 1;",
+            "  x0 := x0 + 1;",
+            "END",
+        ].join("\n"));
+    });
+
+    test("forward jumps become IF/ELSE", () => {
+        const code = `
+                IF x1 = 5 THEN GOTO M1;
+                x0 := 1;
+                GOTO M2;
+            M1: x0 := 2;
+            M2: x2 := x0;
+                IF x2 < 2 THEN GOTO M3;
+                x2 := x2 + 1;
+            M3: HALT;
+        `;
+        expect(structured(code)).toBe([
+            "IF x1 = 5 THEN",
+            "  x0 := 2;",
+            "ELSE",
+            "  x0 := 1;",
+            "END",
+            "x2 := x0;",
+            "IF x2 >= 2 THEN",
+            "  x2 := x2 + 1;",
+            "END",
+        ].join("\n"));
+        expectEquivalent(code, ["x1"]);
+    });
+
+    // Only the no-ops WhileToGotoTranslator places at loop ends (x5 := 0, x6 := 0) are new
+    test("WHILE → GOTO → WHILE gives back the nested loops", () => {
+        const code = `
+            x3 := x1;
+            WHILE x3 != 0 DO
+              x4 := x2;
+              WHILE x4 > 0 DO
+                x0 := x0 + 1;
+                x4 := x4 - 1;
+              END
+              x3 := x3 - 1;
+            END
+        `;
+        const gotoAST = new WhileToGotoTranslator().translate(parseWhile(code));
+        const roundTrip = new StructuredGotoToWhileTranslator().translate(gotoAST);
+        expect(printProgram({ language: "while", program: roundTrip })).toBe([
+            "x3 := x1;",
+            "WHILE x3 != 0 DO",
+            "  x4 := x2;",
+            "  WHILE x4 > 0 DO",
+            "    x0 := x0 + 1;",
+            "    x4 := x4 - 1;",
+            "  END",
+            "  x5 := 0;",
+            "  x3 := x3 - 1;",
+            "END",
+            "x6 := 0;",
+        ].join("\n"));
+    });
+
+    test("a loop left from the middle keeps a flag that ends as 0", () => {
+        const code = `
+            M1: x0 := x0 + 1;
+                IF x0 > x1 THEN GOTO M2;
+                x2 := x2 + x0;
+                GOTO M1;
+            M2: HALT;
+        `;
+        expect(structured(code)).toBe([
+            "x3 := 1;",
+            "WHILE x3 != 0 DO",
+            "  x0 := x0 + 1;",
+            "  IF x0 > x1 THEN",
+            "    x3 := 0;",
+            "  ELSE",
+            "    x2 := x2 + x0;",
+            "  END",
+            "END",
+        ].join("\n"));
+        expectEquivalent(code, ["x1"]);
+    });
+
+    test("a loop with several exits continues where it was left", () => {
+        const code = `
+            M1: IF x1 = 0 THEN GOTO M2;
+                x1 := x1 - 1;
+                IF x1 = x2 THEN GOTO M3;
+                GOTO M1;
+            M2: x0 := 1;
+                HALT;
+            M3: x0 := 2;
+        `;
+        expect(structured(code)).toContain("IF x3 = 1 THEN");
+        expectEquivalent(code, ["x1", "x2"]);
+    });
+
+    test("a loop entered in two places keeps a program counter for that loop only", () => {
+        const code = `
+                x0 := 7;
+                IF x1 = 0 THEN GOTO M2;
+            M1: x2 := x2 + 1;
+                IF x2 > 5 THEN GOTO M3;
+            M2: x0 := x0 + x2;
+                GOTO M1;
+            M3: HALT;
+        `;
+        const printed = structured(code);
+        expect(printed.startsWith("x0 := 7;\n")).toBe(true);
+        expect(printed).toContain("WHILE x3 != 0 DO");
+        expectEquivalent(code, ["x1", "x2"]);
+    });
+
+    test("programs without loops, jumps into dead code and endless loops", () => {
+        expectEquivalent("x0 := 1; GOTO M1; x0 := 99; M1: x0 := x0 + 10; HALT;", ["x1"]);
+        expectEquivalent("x0 := 0; GOTO M1; M3: x0 := x0 + 1; HALT; M2: x0 := x0 + 2; GOTO M3; M1: x0 := x0 + 5; GOTO M2;", ["x1"]);
+        expect(structured("x0 := 1; M1: IF x1 = 0 THEN GOTO M2; GOTO M1; M2: HALT;")).toBe([
+            "x0 := 1;",
+            "WHILE x1 != 0 DO",
+            "END",
+        ].join("\n"));
+    });
+});
+
 describe("Chained translations: LOOP → WHILE → GOTO", () => {
     test("simple increment: LOOP → WHILE → GOTO", () => {
         const code = `
@@ -472,7 +649,7 @@ describe("Chained translations: LOOP → WHILE → GOTO", () => {
         const whileAST = new LoopToWhileTranslator().translate(loopAST);
         const gotoAST = new WhileToGotoTranslator().translate(whileAST);
         const result = runGoto(gotoAST);
-        expect(result.get("x1")).toBe(5);
+        expect(result.get("x1")).toBe(5n);
     });
 
     test("multiplication: LOOP → WHILE → GOTO", () => {
@@ -490,7 +667,7 @@ describe("Chained translations: LOOP → WHILE → GOTO", () => {
         const whileAST = new LoopToWhileTranslator().translate(loopAST);
         const gotoAST = new WhileToGotoTranslator().translate(whileAST);
         const result = runGoto(gotoAST);
-        expect(result.get("x2")).toBe(12);
+        expect(result.get("x2")).toBe(12n);
     });
 
     test("LOOP → WHILE → GOTO result matches original LOOP interpreter", () => {
@@ -530,8 +707,8 @@ describe("Chained translations: WHILE → GOTO → WHILE (round trip)", () => {
         const roundTrip = new GotoToWhileTranslator().translate(gotoAST);
         const result = runWhile(roundTrip);
 
-        expect(result.get("x1")).toBe(5);
-        expect(result.get("x0")).toBe(0);
+        expect(result.get("x1")).toBe(5n);
+        expect(result.get("x0")).toBe(0n);
     });
 
     test("IF-THEN-ELSE: WHILE → GOTO → WHILE round trip", () => {
@@ -549,7 +726,7 @@ describe("Chained translations: WHILE → GOTO → WHILE (round trip)", () => {
         const roundTrip = new GotoToWhileTranslator().translate(gotoAST);
         const result = runWhile(roundTrip);
 
-        expect(result.get("x1")).toBe(1);
+        expect(result.get("x1")).toBe(1n);
     });
 
     test("round trip result matches original WHILE interpreter", () => {
@@ -584,7 +761,7 @@ describe("End-to-end: full LOOP → WHILE → GOTO pipeline", () => {
         const whileAST = new LoopToWhileTranslator().translate(loopAST);
         const gotoAST = new WhileToGotoTranslator().translate(whileAST);
         const result = runGoto(gotoAST);
-        expect(result.get("x2")).toBe(10);
+        expect(result.get("x2")).toBe(10n);
     });
 
     test("zero-iteration LOOP survives full pipeline", () => {
@@ -599,6 +776,6 @@ describe("End-to-end: full LOOP → WHILE → GOTO pipeline", () => {
         const whileAST = new LoopToWhileTranslator().translate(loopAST);
         const gotoAST = new WhileToGotoTranslator().translate(whileAST);
         const result = runGoto(gotoAST);
-        expect(result.get("x1")).toBe(99);
+        expect(result.get("x1")).toBe(99n);
     });
 });
@@ -0,0 +1,86 @@
+/// <reference types="vitest/globals" />
+import * as fs from "fs";
+import * as path from "path";
+import { parseProgram } from "../src/parse";
+import { printProgram } from "../src/printer";
+import { translateProgram } from "../src/translate";
+import { HTML_MAX_STEPS, recordRun, visualizationHtml } from "../src/visualize";
+import type { RecordedRun } from "../src/visualize";
+
+const examples = path.join(__dirname, "../examples");
+const inputs = new Map([["x1", 3n]]);
+
+// The runs as embedded in the page
+function embedded(html: string): RecordedRun[] {
+    const match = html.match(/<script type="application\/json" id="data">([\s\S]*?)<\/script>/);
+    return JSON.parse(match![1]!);
+}
+
+describe("HTML visualization", () => {
+    const source = fs.readFileSync(path.join(examples, "countdown.goto"), "utf-8");
+    const countdown = parseProgram(source, "goto").program;
+
+    test("a run records the source lines of its statements and the GOTO pc", () => {
+        const run = recordRun("countdown.goto", countdown, inputs, { source });
+        const lines = source.split("\n");
+
+        expect(run.source).toBe(source);
+        expect(run.trace.outcome).toEqual({ status: "halted", steps: 16 });
+        for (const step of run.trace.steps) {
+            const statement = run.trace.statements[step.at]!;
+            expect(lines[statement.line! - 1]).toContain(statement.text.replace(/^M\d+: /, ""));
+            expect(step.pc).toBeTypeOf("number");
+        }
+    });
+
+    test("a translation is printed so that its statements have lines too", () => {
+        const translated = translateProgram(countdown, "while");
+        const run = recordRun("countdown.goto as WHILE", translated, inputs);
+
+        expect(run.source).toBe(printProgram(translated));
+        expect(run.trace.statements.every((statement) => statement.line !== undefined)).toBe(true);
+        expect(run.trace.steps.some((step) => step.pc !== undefined)).toBe(false);
+        expect(run.trace.outcome.status).toBe("halted");
+    });
+
+    test("long runs stop at the page's step limit unless --max-steps is given", () => {
+        const forever = parseProgram("WHILE x1 = 0 DO x0 := x0 + 1; END", "while").program;
+
+        expect(recordRun("forever", forever, new Map()).trace.outcome).toMatchObject({ status: "budgetExceeded", steps: HTML_MAX_STEPS });
+        expect(recordRun("forever", forever, new Map(), { limits: { maxSteps: 50 } }).trace.outcome.status).toBe("budgetExceeded");
+    });
+
+    test("a translation gets the scaled budget, so it completes where its source does", () => {
+        // x1 = 10 takes countdown.goto 44 steps and its dispatch translation 167
+        const tens = new Map([["x1", 10n]]);
+        const limits = { maxSteps: 100 };
+        const translated = translateProgram(countdown, "while", { gotoToWhile: "dispatch" });
+
+        expect(recordRun("countdown.goto", countdown, tens, { source, limits }).trace.outcome.status).toBe("halted");
+        expect(recordRun("as WHILE", translated, tens, { limits }).trace.outcome.status).toBe("budgetExceeded");
+        expect(recordRun("as WHILE", translated, tens, { limits, translation: true }).trace.outcome).toEqual({ status: "halted", steps: 167 });
+    });
+
+    test("the page is self-contained and carries both runs", () => {
+        const runs = [
+            recordRun("countdown.goto", countdown, inputs, { source }),
+            recordRun("countdown.goto as WHILE", translateProgram(countdown, "while"), inputs),
+        ];
+        const html = visualizationHtml(runs, inputs);
+
+        expect(html.startsWith("<!DOCTYPE html>")).toBe(true);
+        expect(html).toContain("<title>countdown.goto / countdown.goto as WHILE (x1=3)</title>");
+        expect(html).not.toMatch(/\b(src|href)=/);
+        expect(embedded(html)).toEqual(runs);
+    });
+
+    test("program text cannot close the script block", () => {
+        const code = "// </script><script>alert(1)</script>\nx0 := x1 + 1;";
+        const run = recordRun("<b>", parseProgram(code, "while").program, new Map(), { source: code });
+        const html = visualizationHtml([run], new Map());
+
+        expect(html.match(/<\/script>/g)).toHaveLength(2);
+        expect(html).toContain("<title>&lt;b&gt;</title>");
+        expect(embedded(html)[0]!.source).toBe(code);
+    });
+});
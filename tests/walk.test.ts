@@ -0,0 +1,39 @@
+/// <reference types="vitest/globals" />
+import { parseProgram } from "../src/parse";
+import type { Language } from "../src/parse";
+import { walkProgram } from "../src/walk";
+
+// "r name" and "w name" in the order the walker reports them, and the number of statements
+function events(code: string, language: Language): { order: string[]; statements: number } {
+    const order: string[] = [];
+    let statements = 0;
+    walkProgram(parseProgram(code, language).program, {
+        statement: () => statements++,
+        read: (name) => order.push(`r ${name}`),
+        assign: (name) => order.push(`w ${name}`),
+    });
+    return { order, statements };
+}
+
+describe("Program walker", () => {
+    test("an assignment's value is read before its variable is written; LOOP counters are reads", () => {
+        expect(events("x2 := x1 + x2; LOOP x3 DO x0 := x0 + 1; END", "loop")).toEqual({
+            order: ["r x1", "r x2", "w x2", "r x3", "r x0", "w x0"],
+            statements: 3,
+        });
+    });
+
+    test("WHILE and IF conditions come before their bodies, ELSE after THEN", () => {
+        expect(events("WHILE x1 > 0 DO IF x2 = x1 THEN x3 := 1; ELSE x4 := x1 - 1; END END", "while")).toEqual({
+            order: ["r x1", "r x2", "r x1", "w x3", "r x1", "w x4"],
+            statements: 4,
+        });
+    });
+
+    test("GOTO instructions are visited in order, jumps and HALT included", () => {
+        expect(events("M1: IF x1 = 0 THEN GOTO M2; x1 := x1 - 1; GOTO M1; M2: HALT;", "goto")).toEqual({
+            order: ["r x1", "r x1", "w x1"],
+            statements: 4,
+        });
+    });
+});
@@ -0,0 +1,50 @@
+/// <reference types="vitest/globals" />
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { formatStateChanges, stateChanges, watchFile } from "../src/watch";
+
+describe("Watch mode", () => {
+    test("changed, new and dropped variables in numeric order", () => {
+        const previous = new Map([["x0", 12n], ["x1", 3n], ["x10", 1n], ["x4", 0n]]);
+        const current = new Map([["x0", 15n], ["x1", 3n], ["x10", 1n], ["x2", 0n]]);
+
+        const changes = stateChanges(previous, current);
+        expect(changes).toEqual([
+            { name: "x0", before: 12n, after: 15n },
+            { name: "x2", after: 0n },
+            { name: "x4", before: 0n },
+        ]);
+        expect(formatStateChanges(changes)).toEqual([
+            "  x0: 12 -> 15",
+            "  x2: (unset) -> 0",
+            "  x4: 0 -> (unset)",
+        ]);
+        expect(formatStateChanges(stateChanges(current, current))).toEqual(["  (final state unchanged)"]);
+    });
+
+    test("calls back after the file is saved, until stopped", async () => {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), "lang-watch-"));
+        const file = path.join(dir, "program.while");
+        fs.writeFileSync(file, "x0 := 1;\n");
+        let calls = 0;
+        const saved = new Promise<void>((resolve) => {
+            const stop = watchFile(file, () => {
+                calls++;
+                stop();
+                resolve();
+            }, 20);
+        });
+
+        try {
+            // Some file systems keep modification times in whole seconds
+            await new Promise((resolve) => setTimeout(resolve, 50));
+            fs.writeFileSync(file, "x0 := 2;\n");
+            fs.utimesSync(file, new Date(), new Date(Date.now() + 2000));
+            await saved;
+            expect(calls).toBe(1);
+        } finally {
+            fs.rmSync(dir, { recursive: true, force: true });
+        }
+    });
+});
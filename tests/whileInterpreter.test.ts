@@ -18,7 +18,7 @@ describe("WHILE Interpreter", () => {
         const interpreter = new WhileInterpreter();
         const result = interpreter.evaluate(parser.parse());
         
-        expect(result.get("x1")).toBe(5);
+        expect(result.get("x1")).toBe(5n);
     });
 
     test("IF-THEN-ELSE", () => {
@@ -43,8 +43,8 @@ describe("WHILE Interpreter", () => {
         const interpreter = new WhileInterpreter();
         const result = interpreter.evaluate(parser.parse());
         
-        expect(result.get("x1")).toBe(1);
-        expect(result.get("x2")).toBe(2);
+        expect(result.get("x1")).toBe(1n);
+        expect(result.get("x2")).toBe(2n);
     });
 
     test("condition false initially skips loop", () => {
@@ -60,7 +60,7 @@ describe("WHILE Interpreter", () => {
         const interpreter = new WhileInterpreter();
         const result = interpreter.evaluate(parser.parse());
         
-        expect(result.get("x1")).toBe(10);
+        expect(result.get("x1")).toBe(10n);
     });
 
     test("nested IF statements", () => {
@@ -83,7 +83,7 @@ describe("WHILE Interpreter", () => {
         const interpreter = new WhileInterpreter();
         const result = interpreter.evaluate(parser.parse());
         
-        expect(result.get("x2")).toBe(1);
+        expect(result.get("x2")).toBe(1n);
     });
 
     test("comparison operators (<=, >=)", () => {
@@ -103,8 +103,8 @@ describe("WHILE Interpreter", () => {
         const interpreter = new WhileInterpreter();
         const result = interpreter.evaluate(parser.parse());
         
-        expect(result.get("x1")).toBe(1);
-        expect(result.get("x2")).toBe(0);
+        expect(result.get("x1")).toBe(1n);
+        expect(result.get("x2")).toBe(0n);
     });
 
     test("infinite loop detection", () => {
@@ -138,8 +138,8 @@ describe("WHILE Interpreter", () => {
         const interpreter = new WhileInterpreter();
         const result = interpreter.evaluate(parser.parse());
         
-        expect(result.get("x2")).toBe(3);
-        expect(result.get("x0")).toBe(1);
+        expect(result.get("x2")).toBe(3n);
+        expect(result.get("x0")).toBe(1n);
     });
 });
 
@@ -158,13 +158,13 @@ describe("WHILE with initial variables", () => {
         const parser = new WhileParser(lexer.tokenize());
         const interpreter = new WhileInterpreter();
 
-        const initialVars = new Map([["x0", 15], ["x1", 5]]);
+        const initialVars = new Map([["x0", 15n], ["x1", 5n]]);
         const result = interpreter.evaluate(parser.parse(), { initialVariables: initialVars });
 
         // x0 is result var — overwritten to 10; x1 is locked at 5
         // 10/5 = 2 iterations, x0=0
-        expect(result.get("x2")).toBe(2);
-        expect(result.get("x0")).toBe(0);
+        expect(result.get("x2")).toBe(2n);
+        expect(result.get("x0")).toBe(0n);
     });
 
     test("countdown with initial var", () => {
@@ -180,12 +180,12 @@ describe("WHILE with initial variables", () => {
         const parser = new WhileParser(lexer.tokenize());
         const interpreter = new WhileInterpreter();
 
-        const initialVars = new Map([["x0", 3]]);
+        const initialVars = new Map([["x0", 3n]]);
         const result = interpreter.evaluate(parser.parse(), { initialVariables: initialVars });
 
         // x0 := 10 overwrites initial value, so 10 iterations
-        expect(result.get("x1")).toBe(10);
-        expect(result.get("x0")).toBe(0);
+        expect(result.get("x1")).toBe(10n);
+        expect(result.get("x0")).toBe(0n);
     });
 
     test("IF with initial var", () => {
@@ -202,10 +202,10 @@ describe("WHILE with initial variables", () => {
         const parser = new WhileParser(lexer.tokenize());
         const interpreter = new WhileInterpreter();
 
-        const initialVars = new Map([["x0", 5]]);
+        const initialVars = new Map([["x0", 5n]]);
         const result = interpreter.evaluate(parser.parse(), { initialVariables: initialVars });
 
         // x0 := 0 overwrites initial value, so IF x0=5 is false
-        expect(result.get("x1")).toBe(2);
+        expect(result.get("x1")).toBe(2n);
     });
 });